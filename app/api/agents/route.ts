@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAgents } from '@/app/lib/distributedRun';
+
+// GET /api/agents lists the agent instances registered in GHZ_AGENTS and
+// whether they answer; GET /api/agents?ping=true is how they are checked
+export async function GET(req: NextRequest) {
+  if (req.nextUrl.searchParams.get('ping') === 'true') {
+    return NextResponse.json({ ok: true });
+  }
+  try {
+    return NextResponse.json({ agents: await checkAgents() });
+  } catch (error) {
+    console.error('API Error: - agents/route.ts', error);
+    return NextResponse.json({ error: (error as Error).message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ConnectionSecurity } from '@/app/lib/connectionSecurity';
+import { buildChannelSetup, ChannelSetup } from '@/app/lib/grpcCredentials';
+import { fetchReflectedDescriptors } from '@/app/lib/reflection';
+
+// Body of POST /api/ghz/reflect
+interface ReflectRequest {
+  address: string;
+  security?: ConnectionSecurity | null;
+  metadata?: Record<string, unknown> | null; // sent with the reflection calls
+}
+
+// Fetch service descriptors from a target with gRPC server reflection enabled
+export async function POST(req: NextRequest) {
+  let body: ReflectRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.address) {
+    return NextResponse.json({ error: 'Missing required fields', missing: ['address'] }, { status: 400 });
+  }
+
+  // Incomplete security settings are the caller's mistake, not the target's
+  let channelSetup: ChannelSetup;
+  try {
+    channelSetup = buildChannelSetup(body.security);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  const metadata: Record<string, string> = {};
+  if (body.metadata && typeof body.metadata === 'object') {
+    for (const [key, value] of Object.entries(body.metadata)) {
+      metadata[key] = String(value);
+    }
+  }
+
+  try {
+    const { services, descriptorSet } = await fetchReflectedDescriptors(body.address, channelSetup, metadata);
+    return NextResponse.json({
+      services,
+      descriptorSet: Buffer.from(descriptorSet).toString('base64'),
+    });
+  } catch (error) {
+    console.error('API Error: - reflect/route.ts', error);
+    return NextResponse.json({ error: (error as Error).message || 'Reflection failed' }, { status: 502 });
+  }
+}
@@ -1,239 +1,123 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
-import * as grpc from '@grpc/grpc-js';
-import * as protoLoader from '@grpc/proto-loader';
+import { PreparedRun, RunHooks, RunRequest, RunRequestError } from '@/app/lib/loadRunner';
+import { prepareRun } from '@/app/lib/distributedRun';
+import { cancelRun, registerRun, unregisterRun } from '@/app/lib/runRegistry';
+import { saveRun } from '@/app/lib/runHistory';
+import type { RunEvent } from '@/app/lib/ndjson';
 
 // Max duration for Vercel serverless (set to 60s, adjust based on your plan)
 export const maxDuration = 60;
 
-interface CallResult {
-  latency: number; // in nanoseconds
-  error: string | null;
-  statusCode: string;
-}
-
-function hrtimeToNs(hr: [number, number]): number {
-  return hr[0] * 1e9 + hr[1];
-}
-
-function buildHistogram(latencies: number[], bucketCount = 10): { mark: number; count: number; frequency: number }[] {
-  if (latencies.length === 0) return [];
-
-  const sorted = [...latencies].sort((a, b) => a - b);
-  const min = sorted[0];
-  const max = sorted[sorted.length - 1];
-
-  if (min === max) {
-    return [{ mark: min / 1e9, count: latencies.length, frequency: 1 }];
-  }
-
-  const bucketSize = (max - min) / bucketCount;
-  const buckets: { mark: number; count: number }[] = [];
-
-  for (let i = 0; i < bucketCount; i++) {
-    buckets.push({ mark: (min + bucketSize * (i + 1)) / 1e9, count: 0 });
-  }
-
-  for (const lat of latencies) {
-    let idx = Math.floor((lat - min) / bucketSize);
-    if (idx >= bucketCount) idx = bucketCount - 1;
-    buckets[idx].count++;
+function errorResponse(error: unknown) {
+  if (error instanceof RunRequestError) {
+    return NextResponse.json(
+      { error: error.message, ...(error.missing && { missing: error.missing }) },
+      { status: 400 }
+    );
   }
-
-  const total = latencies.length;
-  return buckets.map(b => ({ ...b, frequency: b.count / total }));
-}
-
-function buildLatencyDistribution(latencies: number[]): { percentage: number; latency: number }[] {
-  if (latencies.length === 0) return [];
-  const sorted = [...latencies].sort((a, b) => a - b);
-  const percentiles = [10, 25, 50, 75, 90, 95, 99];
-  return percentiles.map(p => {
-    const idx = Math.max(0, Math.ceil((p / 100) * sorted.length) - 1);
-    return { percentage: p, latency: sorted[idx] };
-  });
-}
-
-function makeUnaryCall(
-  client: any,
-  methodName: string,
-  requestData: object,
-  metadataObj: grpc.Metadata
-): Promise<CallResult> {
-  return new Promise((resolve) => {
-    const startTime = process.hrtime();
-
-    client[methodName](requestData, metadataObj, (err: grpc.ServiceError | null, _response: any) => {
-      const elapsed = process.hrtime(startTime);
-      const latencyNs = hrtimeToNs(elapsed);
-
-      if (err) {
-        resolve({
-          latency: latencyNs,
-          error: err.message || err.code?.toString() || 'Unknown error',
-          statusCode: grpc.status[err.code] || `UNKNOWN(${err.code})`,
-        });
-      } else {
-        resolve({
-          latency: latencyNs,
-          error: null,
-          statusCode: 'OK',
-        });
-      }
-    });
-  });
+  console.error('API Error: - route.ts', error);
+  return NextResponse.json({ error: (error as Error).message || 'Internal Server Error' }, { status: 500 });
 }
 
 export async function POST(req: NextRequest) {
-  let tempDir: string | null = null;
-
+  let body: RunRequest;
   try {
-    const body = await req.json();
-    const { protoContent, service, method, address, config, metadata } = body;
-
-    if (!protoContent || !service || !method || !address) {
-      const missing = [];
-      if (!protoContent) missing.push('protoContent');
-      if (!service) missing.push('service');
-      if (!method) missing.push('method');
-      if (!address) missing.push('address');
-      return NextResponse.json({ error: 'Missing required fields', missing }, { status: 400 });
-    }
+    body = await req.json();
+  } catch (error) {
+    return errorResponse(error);
+  }
+  const { runId } = body;
 
-    const concurrency = config?.c || 10;
-    const totalRequests = config?.n || 100;
-    const requestData = config?.data || {};
+  // Stopped by DELETE /api/ghz/run?runId= or by the client going away, also
+  // while the proto loads; a stopped run ends at once with an empty report
+  const controller = new AbortController();
+  req.signal.addEventListener('abort', () => controller.abort(), { once: true });
+  if (req.signal.aborted) controller.abort();
+  if (runId) registerRun(runId, controller);
 
-    // Write proto to temp file for proto-loader
-    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghz-'));
-    const protoPath = path.join(tempDir, 'service.proto');
-    await fs.writeFile(protoPath, protoContent);
+  let run: PreparedRun;
+  try {
+    run = await prepareRun(body);
+  } catch (error) {
+    if (runId) unregisterRun(runId);
+    return errorResponse(error);
+  }
 
-    // Load proto definition
-    const packageDefinition = await protoLoader.load(protoPath, {
-      keepCase: true,
-      longs: String,
-      enums: String,
-      defaults: true,
-      oneofs: true,
+  const execute = (hooks: RunHooks = {}) =>
+    run.execute({ ...hooks, signal: controller.signal })
+      .then(async (report) => {
+        // Every completed step goes to the run history; failing to save it
+        // must not cost the caller the report. An agent's share is saved
+        // by the coordinator as part of the whole run.
+        if (body.agent) return report;
+        try {
+          await saveRun(body, report);
+        } catch (error) {
+          console.error('Saving run history failed: - route.ts', error);
+        }
+        return report;
+      })
+      .finally(() => {
+        if (runId) unregisterRun(runId);
+      });
+
+  // Clients that accept NDJSON get progress events while the step runs,
+  // followed by the final report (or an error) as the last line
+  if (req.headers.get('accept')?.includes('application/x-ndjson')) {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(streamController) {
+        const send = (event: RunEvent) => {
+          try {
+            streamController.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+          } catch {
+            // Client disconnected; the run is being aborted
+          }
+        };
+        try {
+          const report = await execute({
+            onProgress: (progress) => send({ type: 'progress', ...progress }),
+          });
+          send({ type: 'report', report });
+        } catch (error) {
+          console.error('API Error: - route.ts', error);
+          send({ type: 'error', error: (error as Error).message || 'Internal Server Error' });
+        } finally {
+          try {
+            streamController.close();
+          } catch {
+            // Already closed by a client disconnect
+          }
+        }
+      },
+      cancel() {
+        controller.abort();
+      },
     });
 
-    const proto = grpc.loadPackageDefinition(packageDefinition);
-
-    // Navigate to the service (e.g. "mypackage.MyService")
-    let ServiceConstructor: any = proto;
-    const serviceParts = service.split('.');
-    for (const part of serviceParts) {
-      ServiceConstructor = ServiceConstructor?.[part];
-    }
-
-    if (!ServiceConstructor) {
-      return NextResponse.json({ error: `Service "${service}" not found in proto definition` }, { status: 400 });
-    }
-
-    // Create client
-    const client = new ServiceConstructor(
-      address,
-      grpc.credentials.createInsecure()
-    );
-
-    // Prepare metadata
-    const grpcMetadata = new grpc.Metadata();
-    if (metadata && typeof metadata === 'object') {
-      for (const [key, value] of Object.entries(metadata)) {
-        grpcMetadata.add(key, String(value));
-      }
-    }
-
-    // Find the correct method name (case-insensitive match for camelCase)
-    const clientMethods = Object.keys(Object.getPrototypeOf(client)).filter(k => !k.startsWith('$'));
-    const methodName = clientMethods.find(
-      m => m.toLowerCase() === method.toLowerCase()
-    ) || method;
-
-    // Run load test with concurrency
-    const allResults: CallResult[] = [];
-    const overallStart = process.hrtime();
-
-    let completed = 0;
-    const runWorker = async () => {
-      while (completed < totalRequests) {
-        const idx = completed++;
-        if (idx >= totalRequests) break;
-        const result = await makeUnaryCall(client, methodName, requestData, grpcMetadata);
-        allResults.push(result);
-      }
-    };
-
-    // Launch concurrent workers
-    const workers = [];
-    for (let i = 0; i < Math.min(concurrency, totalRequests); i++) {
-      workers.push(runWorker());
-    }
-    await Promise.all(workers);
-
-    const overallElapsed = process.hrtime(overallStart);
-    const totalDurationNs = hrtimeToNs(overallElapsed);
-
-    // Close client
-    client.close();
-
-    // Compute statistics
-    const latencies = allResults.map(r => r.latency);
-    const successLatencies = allResults.filter(r => !r.error).map(r => r.latency);
-
-    const count = allResults.length;
-    const totalLatencyNs = latencies.reduce((a, b) => a + b, 0);
-    const average = count > 0 ? totalLatencyNs / count : 0;
-    const fastest = count > 0 ? Math.min(...latencies) : 0;
-    const slowest = count > 0 ? Math.max(...latencies) : 0;
-    const rps = totalDurationNs > 0 ? (count / (totalDurationNs / 1e9)) : 0;
-
-    // Status code distribution
-    const statusCodeDistribution: { [key: string]: number } = {};
-    const errorDist: { [key: string]: number } = {};
-
-    for (const r of allResults) {
-      statusCodeDistribution[r.statusCode] = (statusCodeDistribution[r.statusCode] || 0) + 1;
-      if (r.error) {
-        errorDist[r.error] = (errorDist[r.error] || 0) + 1;
-      }
-    }
-
-    // Build response in ghz-compatible format
-    const result = {
-      date: new Date().toISOString(),
-      count,
-      total: totalDurationNs,
-      average,
-      fastest,
-      slowest,
-      rps,
-      errorDist,
-      statusCodeDistribution,
-      latencyDistribution: buildLatencyDistribution(latencies),
-      histogram: buildHistogram(latencies),
-      details: allResults.map(r => ({
-        latency: r.latency,
-        error: r.error || '',
-        status: r.statusCode,
-      })),
-    };
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+  }
 
-    return NextResponse.json(result);
+  try {
+    return NextResponse.json(await execute());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
 
-  } catch (error: any) {
-    console.error('API Error: - route.ts:228', error);
-    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
-  } finally {
-    if (tempDir) {
-      try {
-        await fs.rm(tempDir, { recursive: true, force: true });
-      } catch (e) {
-        console.error('Failed to clean up temp dir: - route.ts:235', e);
-      }
-    }
+// Cancel a run started with a runId; its POST responds with the partial report
+export async function DELETE(req: NextRequest) {
+  const runId = req.nextUrl.searchParams.get('runId');
+  if (!runId) {
+    return NextResponse.json({ error: 'Missing required fields', missing: ['runId'] }, { status: 400 });
+  }
+  if (!cancelRun(runId)) {
+    return NextResponse.json({ error: `No running test with id "${runId}"` }, { status: 404 });
   }
+  return NextResponse.json({ cancelled: true });
 }
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runPlan } from '@/app/lib/planRunner';
+import { missingPlanFields, TestPlan } from '@/app/lib/testPlan';
+import { EXPORT_FORMATS, ExportFormat } from '@/app/lib/reportExport';
+import type { PlanEvent } from '@/app/lib/ndjson';
+
+// A plan runs all of its steps in one request
+export const maxDuration = 300;
+
+// POST /api/plans/run?formats=json,junit runs a test plan and answers with
+// each step's report, whether the plan passed, and the report files
+export async function POST(req: NextRequest) {
+  let plan: TestPlan;
+  try {
+    plan = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const missing = missingPlanFields(plan ?? {});
+  if (missing.length > 0) {
+    return NextResponse.json({ error: 'Missing required fields', missing }, { status: 400 });
+  }
+
+  const formats = (req.nextUrl.searchParams.get('formats') || 'json,junit').split(',').map(f => f.trim()).filter(Boolean);
+  const unknown = formats.filter(f => !EXPORT_FORMATS.some(option => option.format === f));
+  if (unknown.length > 0) {
+    return NextResponse.json({
+      error: `Unknown report format: ${unknown.join(', ')} (supported: ${EXPORT_FORMATS.map(f => f.format).join(', ')})`,
+    }, { status: 400 });
+  }
+
+  // The client going away cancels the running step and skips the rest
+  const controller = new AbortController();
+  req.signal.addEventListener('abort', () => controller.abort(), { once: true });
+
+  // Clients that accept NDJSON get progress and per-step events, which also
+  // keeps long plans from hitting idle timeouts; the result is the last line
+  if (req.headers.get('accept')?.includes('application/x-ndjson')) {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(streamController) {
+        const send = (event: PlanEvent) => {
+          try {
+            streamController.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+          } catch {
+            // Client disconnected; the plan is being aborted
+          }
+        };
+        try {
+          const result = await runPlan(plan, formats as ExportFormat[], {
+            signal: controller.signal,
+            onProgress: (step, progress) => send({ type: 'progress', step, ...progress }),
+            onStep: (result) => send({ type: 'step', result }),
+          });
+          send({ type: 'done', result });
+        } catch (error) {
+          console.error('API Error: - plans/run/route.ts', error);
+          send({ type: 'error', error: (error as Error).message || 'Internal Server Error' });
+        } finally {
+          try {
+            streamController.close();
+          } catch {
+            // Already closed by a client disconnect
+          }
+        }
+      },
+      cancel() {
+        controller.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+  }
+
+  try {
+    return NextResponse.json(await runPlan(plan, formats as ExportFormat[], { signal: controller.signal }));
+  } catch (error) {
+    console.error('API Error: - plans/run/route.ts', error);
+    return NextResponse.json({ error: (error as Error).message || 'Internal Server Error' }, { status: 500 });
+  }
+}
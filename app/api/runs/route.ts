@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteAllRuns, deleteRun, getRun, listRuns } from '@/app/lib/runHistory';
+
+// GET /api/runs lists saved runs (newest first, optionally ?service=&method=&limit=);
+// GET /api/runs?id= returns one run with its full report
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const id = params.get('id');
+  try {
+    if (id) {
+      const run = await getRun(id);
+      if (!run) {
+        return NextResponse.json({ error: `No saved run with id "${id}"` }, { status: 404 });
+      }
+      return NextResponse.json(run);
+    }
+
+    const limit = Number(params.get('limit')) || undefined;
+    return NextResponse.json({
+      runs: await listRuns({
+        service: params.get('service') || undefined,
+        method: params.get('method') || undefined,
+        limit,
+      }),
+    });
+  } catch (error) {
+    console.error('API Error: - runs/route.ts', error);
+    return NextResponse.json({ error: (error as Error).message || 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/runs?id= removes one saved run, DELETE /api/runs?all=true all of them
+export async function DELETE(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const id = params.get('id');
+  try {
+    if (params.get('all') === 'true') {
+      return NextResponse.json({ deleted: await deleteAllRuns() });
+    }
+    if (!id) {
+      return NextResponse.json({ error: 'Missing required fields', missing: ['id'] }, { status: 400 });
+    }
+    if (!(await deleteRun(id))) {
+      return NextResponse.json({ error: `No saved run with id "${id}"` }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: 1 });
+  } catch (error) {
+    console.error('API Error: - runs/route.ts', error);
+    return NextResponse.json({ error: (error as Error).message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { RunReport } from './loadRunner';
+import { defaultAssertion, describeAssertion, evaluateAssertions, parseAssertion } from './assertions';
+
+const report: RunReport = {
+  date: '2026-01-01T00:00:00.000Z',
+  endReason: 'normal',
+  count: 200,
+  total: 2e9,
+  average: 12e6,
+  fastest: 1e6,
+  slowest: 80e6,
+  rps: 100,
+  callType: 'unary',
+  errorDist: { 'not found': 2 },
+  statusCodeDistribution: { OK: 198, NOT_FOUND: 2 },
+  latencyDistribution: [{ percentage: 50, latency: 10e6 }, { percentage: 95, latency: 40e6 }],
+  histogram: [],
+  details: [1, 2, 3, 4].map(n => ({ latency: n * 1e6, error: '', status: 'OK' })),
+};
+
+describe('parseAssertion', () => {
+  it('reads the short forms', () => {
+    expect(parseAssertion('p95 < 50ms')).toEqual({ type: 'latency', percentile: 95, maxMs: 50 });
+    expect(parseAssertion(' P99.9<7.5 ms ')).toEqual({ type: 'latency', percentile: 99.9, maxMs: 7.5 });
+    expect(parseAssertion('avg < 20ms')).toEqual({ type: 'average', maxMs: 20 });
+    expect(parseAssertion('errors < 0.5%')).toEqual({ type: 'errorRate', maxPercent: 0.5 });
+    expect(parseAssertion('rps >= 200')).toEqual({ type: 'minRps', min: 200 });
+    expect(parseAssertion('codes OK, NOT_FOUND')).toEqual({ type: 'statusCodes', allowed: ['OK', 'NOT_FOUND'] });
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseAssertion('p95 > 50ms')).toThrow('Cannot read assertion "p95 > 50ms"');
+  });
+
+  it('reads back what describeAssertion writes', () => {
+    for (const type of ['latency', 'average', 'errorRate'] as const) {
+      const assertion = defaultAssertion(type);
+      expect(parseAssertion(describeAssertion(assertion).replace(/ ms$/, 'ms').replace('error rate', 'errors'))).toEqual(assertion);
+    }
+  });
+});
+
+describe('evaluateAssertions', () => {
+  const evaluate = (text: string) => evaluateAssertions(report, [parseAssertion(text)])[0];
+
+  it('checks latency percentiles from the distribution', () => {
+    expect(evaluate('p95 < 50ms')).toMatchObject({ label: 'p95 < 50 ms', passed: true, actual: '40.00 ms' });
+    expect(evaluate('p95 < 30ms')).toMatchObject({ passed: false, reason: 'p95 was 40.00 ms, limit 30 ms' });
+  });
+
+  it('takes other percentiles from the call details', () => {
+    expect(evaluate('p75 < 5ms')).toMatchObject({ passed: true, actual: '3.00 ms' });
+    expect(evaluateAssertions({ ...report, details: [] }, [parseAssertion('p75 < 5ms')])[0])
+      .toMatchObject({ passed: false, reason: 'No latencies to take p75 from' });
+  });
+
+  it('asks the runner for percentiles it did not list', () => {
+    const lookup = (p: number) => p * 1e5;
+    expect(evaluateAssertions(report, [parseAssertion('p99.9 < 20ms')], lookup)[0]).toMatchObject({ passed: true, actual: '9.99 ms' });
+    // Not when no call was sent
+    const unsent = { ...report, latencyDistribution: [], details: [] };
+    expect(evaluateAssertions(unsent, [parseAssertion('p99.9 < 20ms')], lookup)[0]).toMatchObject({ passed: false });
+  });
+
+  it('checks the error rate against the calls that did not return OK', () => {
+    expect(evaluate('errors < 1.5%')).toMatchObject({ passed: true, actual: '1.00%' });
+    expect(evaluate('errors < 0.5%')).toMatchObject({ passed: false, reason: '2 of 200 calls failed (1.00%), limit 0.5%' });
+  });
+
+  it('checks the average and RPS', () => {
+    expect(evaluate('avg < 10ms')).toMatchObject({ passed: false, reason: 'Average was 12.00 ms, limit 10 ms' });
+    expect(evaluate('rps >= 100')).toMatchObject({ passed: true });
+    expect(evaluate('rps >= 150')).toMatchObject({ passed: false, reason: 'RPS was 100.00, minimum 150' });
+  });
+
+  it('matches status codes in either spelling', () => {
+    expect(evaluate('codes OK NotFound')).toMatchObject({ passed: true });
+    expect(evaluate('codes OK')).toMatchObject({ passed: false, reason: 'Unexpected status codes: NOT_FOUND ×2' });
+  });
+
+  it('fails checks on a step without calls', () => {
+    const empty = { ...report, count: 0, statusCodeDistribution: {} };
+    expect(evaluateAssertions(empty, [parseAssertion('avg < 10ms'), parseAssertion('errors < 1%')]).map(r => r.reason))
+      .toEqual(['No calls were made', 'No calls were made']);
+  });
+});
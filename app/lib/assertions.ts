@@ -0,0 +1,127 @@
+import type { RunReport } from './loadRunner';
+
+// Pass/fail checks (SLOs) for a step, evaluated against its report
+
+export type Assertion =
+  | { type: 'latency'; percentile: number; maxMs: number } // e.g. p95 < 50 ms
+  | { type: 'average'; maxMs: number }
+  | { type: 'errorRate'; maxPercent: number } // share of calls that did not return OK
+  | { type: 'minRps'; min: number }
+  | { type: 'statusCodes'; allowed: string[] }; // e.g. OK and NOT_FOUND
+
+export interface AssertionResult {
+  assertion: Assertion;
+  label: string; // e.g. "p95 < 50 ms"
+  passed: boolean;
+  actual: string; // the measured value
+  reason?: string; // why it failed
+}
+
+export const ASSERTION_TYPES: { type: Assertion['type']; label: string }[] = [
+  { type: 'latency', label: 'Latency percentile' },
+  { type: 'average', label: 'Average latency' },
+  { type: 'errorRate', label: 'Error rate' },
+  { type: 'minRps', label: 'Minimum RPS' },
+  { type: 'statusCodes', label: 'Allowed status codes' },
+];
+
+// A new check of the given type with a typical threshold
+export function defaultAssertion(type: Assertion['type']): Assertion {
+  switch (type) {
+    case 'latency': return { type, percentile: 95, maxMs: 50 };
+    case 'average': return { type, maxMs: 50 };
+    case 'errorRate': return { type, maxPercent: 0.5 };
+    case 'minRps': return { type, min: 100 };
+    case 'statusCodes': return { type, allowed: ['OK'] };
+  }
+}
+
+// gRPC code names are written NOT_FOUND by grpc-js and NotFound by ghz
+const codeKey = (code: string) => code.replace(/_/g, '').toUpperCase();
+
+const ms = (ns: number) => `${(ns / 1e6).toFixed(2)} ms`;
+
+export function describeAssertion(assertion: Assertion): string {
+  switch (assertion.type) {
+    case 'latency': return `p${assertion.percentile} < ${assertion.maxMs} ms`;
+    case 'average': return `average < ${assertion.maxMs} ms`;
+    case 'errorRate': return `error rate < ${assertion.maxPercent}%`;
+    case 'minRps': return `RPS ≥ ${assertion.min}`;
+    case 'statusCodes': return `only ${assertion.allowed.join(', ') || '(none)'}`;
+  }
+}
+
+// Looks up the latency (ns) at any percentile, e.g. in the runner's histogram
+export type PercentileLookup = (percentile: number) => number;
+
+// Latency (ns) at a percentile: from the report's distribution, the lookup,
+// or computed from the per-call details for other percentiles
+function latencyAt(report: RunReport, percentile: number, lookup?: PercentileLookup): number | null {
+  const listed = report.latencyDistribution?.find(l => l.percentage === percentile);
+  if (listed) return listed.latency;
+  if (lookup && report.latencyDistribution?.length) return lookup(percentile);
+  const latencies = (report.details || []).filter(d => !d.error).map(d => d.latency).sort((a, b) => a - b);
+  if (latencies.length === 0) return null;
+  return latencies[Math.max(0, Math.ceil((percentile / 100) * latencies.length) - 1)];
+}
+
+function evaluate(report: RunReport, assertion: Assertion, lookup?: PercentileLookup): Omit<AssertionResult, 'assertion' | 'label'> {
+  switch (assertion.type) {
+    case 'latency': {
+      const latency = latencyAt(report, assertion.percentile, lookup);
+      if (latency === null) return { passed: false, actual: '—', reason: `No latencies to take p${assertion.percentile} from` };
+      const passed = latency / 1e6 < assertion.maxMs;
+      return { passed, actual: ms(latency), ...(!passed && { reason: `p${assertion.percentile} was ${ms(latency)}, limit ${assertion.maxMs} ms` }) };
+    }
+    case 'average': {
+      if (report.count === 0) return { passed: false, actual: '—', reason: 'No calls were made' };
+      const passed = report.average / 1e6 < assertion.maxMs;
+      return { passed, actual: ms(report.average), ...(!passed && { reason: `Average was ${ms(report.average)}, limit ${assertion.maxMs} ms` }) };
+    }
+    case 'errorRate': {
+      if (report.count === 0) return { passed: false, actual: '—', reason: 'No calls were made' };
+      const failed = report.count - (report.statusCodeDistribution?.OK ?? 0);
+      const rate = (failed / report.count) * 100;
+      const passed = rate < assertion.maxPercent;
+      return {
+        passed,
+        actual: `${rate.toFixed(2)}%`,
+        ...(!passed && { reason: `${failed} of ${report.count} calls failed (${rate.toFixed(2)}%), limit ${assertion.maxPercent}%` }),
+      };
+    }
+    case 'minRps': {
+      const passed = report.rps >= assertion.min;
+      return { passed, actual: report.rps.toFixed(2), ...(!passed && { reason: `RPS was ${report.rps.toFixed(2)}, minimum ${assertion.min}` }) };
+    }
+    case 'statusCodes': {
+      const allowed = new Set(assertion.allowed.map(codeKey));
+      const unexpected = Object.entries(report.statusCodeDistribution || {}).filter(([code, n]) => n > 0 && !allowed.has(codeKey(code)));
+      return {
+        passed: unexpected.length === 0,
+        actual: Object.keys(report.statusCodeDistribution || {}).join(', ') || '—',
+        ...(unexpected.length > 0 && { reason: `Unexpected status codes: ${unexpected.map(([code, n]) => `${code} ×${n}`).join(', ')}` }),
+      };
+    }
+  }
+}
+
+export function evaluateAssertions(report: RunReport, assertions: Assertion[], lookup?: PercentileLookup): AssertionResult[] {
+  return assertions.map(assertion => ({ assertion, label: describeAssertion(assertion), ...evaluate(report, assertion, lookup) }));
+}
+
+// Parse the short form used in plan files and the UI, e.g. "p95 < 50ms",
+// "avg < 20ms", "errors < 0.5%", "rps >= 200" or "codes OK,NOT_FOUND"
+export function parseAssertion(text: string): Assertion {
+  const input = text.trim();
+  let match = /^p(\d+(?:\.\d+)?)\s*<\s*(\d+(?:\.\d+)?)\s*ms$/i.exec(input);
+  if (match) return { type: 'latency', percentile: Number(match[1]), maxMs: Number(match[2]) };
+  match = /^(?:avg|average)\s*<\s*(\d+(?:\.\d+)?)\s*ms$/i.exec(input);
+  if (match) return { type: 'average', maxMs: Number(match[1]) };
+  match = /^(?:errors?|error rate)\s*<\s*(\d+(?:\.\d+)?)\s*%$/i.exec(input);
+  if (match) return { type: 'errorRate', maxPercent: Number(match[1]) };
+  match = /^rps\s*>=?\s*(\d+(?:\.\d+)?)$/i.exec(input);
+  if (match) return { type: 'minRps', min: Number(match[1]) };
+  match = /^(?:codes|status)\s+([\w,\s]+)$/i.exec(input);
+  if (match) return { type: 'statusCodes', allowed: match[1].split(/[,\s]+/).filter(Boolean) };
+  throw new Error(`Cannot read assertion "${text}"; use e.g. "p95 < 50ms", "avg < 20ms", "errors < 0.5%", "rps >= 200" or "codes OK,NOT_FOUND"`);
+}
@@ -0,0 +1,105 @@
+import { Worker } from 'worker_threads';
+import type { CallResult } from './grpcCalls';
+import type { ChannelParams } from './grpcCredentials';
+import type { MethodKind } from './protoParser';
+
+// Worker threads that make a run's calls, so the network and response
+// handling of high-concurrency runs is spread over several event loops.
+// The runner keeps pacing, templating and statistics; connections are dealt
+// out to the threads round-robin.
+
+export interface CallThreadsOptions {
+  threads: number;
+  connections: number; // in total, at least one per thread
+  address: string;
+  channel: ChannelParams;
+  path: string; // e.g. "/mypackage.MyService/MyMethod"
+  kind: MethodKind;
+}
+
+interface PendingCall {
+  resolve: (result: CallResult) => void;
+  thread: number;
+}
+
+export class CallThreads {
+  private workers: Worker[] = [];
+  private pending = new Map<number, PendingCall>();
+  private failures = new Map<number, string>(); // threads that died, with why
+  private nextId = 0;
+
+  private constructor(private readonly threads: number) {}
+
+  // Start the threads and wait until each has its connections set up
+  static async start(options: CallThreadsOptions): Promise<CallThreads> {
+    const pool = new CallThreads(options.threads);
+    const ready = Array.from({ length: options.threads }, (_, thread) => {
+      const connections = Math.floor(options.connections / options.threads)
+        + (thread < options.connections % options.threads ? 1 : 0);
+      const worker = new Worker(new URL('./callWorker.mjs', import.meta.url), {
+        workerData: { address: options.address, channel: options.channel, connections, path: options.path, kind: options.kind },
+      });
+      pool.workers.push(worker);
+      return new Promise<void>((resolve, reject) => {
+        worker.on('message', (message) => {
+          if (message.type === 'ready') resolve();
+          else if (message.type === 'result') pool.settle(message.id, message.result);
+        });
+        worker.once('error', (error) => {
+          reject(error);
+          pool.fail(thread, error.message);
+        });
+        worker.once('exit', (code) => pool.fail(thread, `exited with code ${code}`));
+      });
+    });
+    try {
+      await Promise.all(ready);
+    } catch (e) {
+      await pool.close();
+      throw e;
+    }
+    return pool;
+  }
+
+  private settle(id: number, result: CallResult) {
+    const call = this.pending.get(id);
+    if (!call) return;
+    this.pending.delete(id);
+    call.resolve(result);
+  }
+
+  // Calls waiting on a thread that is gone fail instead of hanging the run
+  private fail(thread: number, reason: string) {
+    if (this.failures.has(thread)) return;
+    this.failures.set(thread, reason);
+    for (const [id, call] of this.pending) {
+      if (call.thread === thread) this.settle(id, this.failedCall(thread));
+    }
+  }
+
+  private failedCall(thread: number): CallResult {
+    return { latency: 0, error: `Worker thread ${thread + 1} ${this.failures.get(thread)}`, statusCode: 'INTERNAL' };
+  }
+
+  // connection: index over all threads' connections; request: a serialized
+  // message, or the messages of a client/bidi stream
+  call(connection: number, request: Uint8Array | Uint8Array[], metadata: Record<string, string>): Promise<CallResult> {
+    const thread = connection % this.threads;
+    if (this.failures.has(thread)) return Promise.resolve(this.failedCall(thread));
+    const id = this.nextId++;
+    return new Promise(resolve => {
+      this.pending.set(id, { resolve, thread });
+      this.workers[thread].postMessage({ type: 'call', id, connection: Math.floor(connection / this.threads), request, metadata });
+    });
+  }
+
+  // Cancel the calls in flight on every thread
+  cancel() {
+    for (const worker of this.workers) worker.postMessage({ type: 'cancel' });
+  }
+
+  // Stop the threads; their connections go with them
+  async close() {
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+  }
+}
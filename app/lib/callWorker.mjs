@@ -0,0 +1,117 @@
+// Worker thread of a run with `threads` > 1. It makes the calls the runner
+// hands it over its own connections and answers with each call's result.
+// Requests arrive already serialized and responses are only counted, so no
+// proto definitions are needed here.
+//
+// Plain JavaScript: the bundler copies worker files as they are. The call
+// functions mirror makeCall in grpcCalls.ts; keep the two in step.
+
+import { parentPort, workerData } from 'worker_threads';
+import * as grpc from '@grpc/grpc-js';
+
+const { address, channel, connections, path, kind } = workerData;
+
+const toBuffer = (bytes) => Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+const identity = (bytes) => bytes;
+
+const Client = grpc.makeGenericClientConstructor({
+  call: {
+    path,
+    requestStream: kind === 'client-stream' || kind === 'bidi-stream',
+    responseStream: kind === 'server-stream' || kind === 'bidi-stream',
+    requestSerialize: toBuffer,
+    requestDeserialize: identity,
+    responseSerialize: identity,
+    responseDeserialize: identity,
+  },
+}, 'LoadTest');
+
+function credentials() {
+  const { ssl } = channel;
+  if (!ssl) return grpc.credentials.createInsecure();
+  return grpc.credentials.createSsl(
+    ssl.rootCerts ? Buffer.from(ssl.rootCerts) : null,
+    ssl.privateKey ? Buffer.from(ssl.privateKey) : null,
+    ssl.certChain ? Buffer.from(ssl.certChain) : null,
+    ssl.skipVerify ? { rejectUnauthorized: false, checkServerIdentity: () => undefined } : {},
+  );
+}
+
+// Each client gets its own connection instead of sharing the global pool
+const clients = Array.from({ length: connections }, () => new Client(
+  address,
+  credentials(),
+  { ...channel.options, 'grpc.use_local_subchannel_pool': 1 },
+));
+
+// Calls in flight, cancelled together when the run is aborted
+const inFlight = new Set();
+
+function toMetadata(values) {
+  const metadata = new grpc.Metadata();
+  for (const [key, value] of Object.entries(values)) metadata.add(key, value);
+  return metadata;
+}
+
+function toCallResult(startTime, err, messagesSent, messagesReceived) {
+  const elapsed = process.hrtime(startTime);
+  return {
+    latency: elapsed[0] * 1e9 + elapsed[1],
+    error: err ? (err.message || err.code?.toString() || 'Unknown error') : null,
+    statusCode: err ? (grpc.status[err.code] || `UNKNOWN(${err.code})`) : 'OK',
+    ...(kind !== 'unary' && { messagesSent, messagesReceived }),
+  };
+}
+
+// request: one serialized message, or the messages of a client/bidi stream
+function makeCall(client, request, metadata) {
+  return new Promise((resolve) => {
+    const startTime = process.hrtime();
+    let call;
+    let received = 0;
+    let settled = false;
+    const finish = (err, sent, got) => {
+      if (settled) return;
+      settled = true;
+      inFlight.delete(call);
+      resolve(toCallResult(startTime, err, sent, got));
+    };
+
+    switch (kind) {
+      case 'server-stream':
+        call = client.call(request, metadata);
+        call.on('data', () => { received++; });
+        call.on('error', (err) => finish(err, 1, received));
+        call.on('end', () => finish(null, 1, received));
+        break;
+      case 'client-stream':
+        call = client.call(metadata, (err) => finish(err, request.length, err ? 0 : 1));
+        for (const message of request) call.write(message);
+        call.end();
+        break;
+      case 'bidi-stream':
+        call = client.call(metadata);
+        call.on('data', () => { received++; });
+        call.on('error', (err) => finish(err, request.length, received));
+        call.on('end', () => finish(null, request.length, received));
+        for (const message of request) call.write(message);
+        call.end();
+        break;
+      default:
+        call = client.call(request, metadata, (err) => finish(err));
+    }
+    inFlight.add(call);
+  });
+}
+
+parentPort.on('message', (message) => {
+  if (message.type === 'call') {
+    makeCall(clients[message.connection], message.request, toMetadata(message.metadata)).then(result => {
+      parentPort.postMessage({ type: 'result', id: message.id, result });
+    });
+  } else if (message.type === 'cancel') {
+    for (const call of inFlight) call.cancel();
+  }
+});
+
+parentPort.postMessage({ type: 'ready' });
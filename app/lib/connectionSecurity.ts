@@ -0,0 +1,49 @@
+import { shellQuote } from './shell';
+
+export type SecurityMode = 'plaintext' | 'tls' | 'tls-ca' | 'mtls';
+
+export interface ConnectionSecurity {
+  mode: SecurityMode;
+  caCert?: string; // PEM content (tls-ca, mtls)
+  caCertName?: string; // uploaded file name, used in the ghz script
+  clientCert?: string; // PEM content (mtls)
+  clientCertName?: string;
+  clientKey?: string; // PEM content (mtls)
+  clientKeyName?: string;
+  serverName?: string; // TLS server name / :authority override
+  skipVerify?: boolean;
+}
+
+export const SECURITY_MODES: { value: SecurityMode; label: string }[] = [
+  { value: 'plaintext', label: 'Plaintext (insecure)' },
+  { value: 'tls', label: 'TLS (system roots)' },
+  { value: 'tls-ca', label: 'TLS (custom CA)' },
+  { value: 'mtls', label: 'Mutual TLS' },
+];
+
+export const DEFAULT_SECURITY: ConnectionSecurity = { mode: 'plaintext' };
+
+// Equivalent ghz options (config file keys, also the long flag names)
+export function ghzSecurityOptions(security: ConnectionSecurity): Record<string, string | boolean> {
+  if (security.mode === 'plaintext') return { insecure: true };
+
+  const options: Record<string, string | boolean> = {};
+  if (security.mode !== 'tls' && security.caCert) {
+    options.cacert = security.caCertName || 'ca.pem';
+  }
+  if (security.mode === 'mtls') {
+    options.cert = security.clientCertName || 'client.pem';
+    options.key = security.clientKeyName || 'client.key';
+  }
+  if (security.serverName) {
+    options.cname = security.serverName;
+    options.authority = security.serverName;
+  }
+  if (security.skipVerify) options.skipTLS = true;
+  return options;
+}
+
+// Equivalent ghz CLI flags for a security setting
+export function ghzSecurityFlags(security: ConnectionSecurity): string[] {
+  return Object.entries(ghzSecurityOptions(security)).map(([name, value]) => (typeof value === 'boolean' ? `--${name}` : `--${name} ${shellQuote(value)}`));
+}
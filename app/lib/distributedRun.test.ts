@@ -0,0 +1,134 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { prepareLoadTest, RunRequest, RunRequestError } from './loadRunner';
+import { prepareRun, registeredAgents } from './distributedRun';
+
+const PROTO = `
+syntax = "proto3";
+package test.v1;
+message Ping { string message = 1; }
+service Echo { rpc Say (Ping) returns (Ping); }
+`;
+
+const passThrough = (bytes: Buffer) => bytes;
+
+let server: grpc.Server;
+let address: string;
+// x-id metadata of the calls Say answered
+const seenIds: string[] = [];
+
+// Stand-ins for agent instances: POST /api/ghz/run as the route answers
+// NDJSON clients, without the run registry
+const agents: http.Server[] = [];
+let agentUrls: string[] = [];
+const previousAgents = process.env.GHZ_AGENTS;
+
+function startAgent(): Promise<string> {
+  const agent = http.createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const run = await prepareLoadTest(JSON.parse(body) as RunRequest);
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      const report = await run.execute();
+      res.end(JSON.stringify({ type: 'report', report }) + '\n');
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: (error as Error).message }));
+    }
+  });
+  agents.push(agent);
+  return new Promise(resolve => agent.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(agent.address() as AddressInfo).port}`)));
+}
+
+beforeAll(async () => {
+  server = new grpc.Server();
+  server.addService({
+    Say: {
+      path: '/test.v1.Echo/Say',
+      requestStream: false,
+      responseStream: false,
+      requestSerialize: passThrough,
+      requestDeserialize: passThrough,
+      responseSerialize: passThrough,
+      responseDeserialize: passThrough,
+    },
+  }, {
+    Say: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+      const [id] = call.metadata.get('x-id');
+      if (id) seenIds.push(String(id));
+      callback(null, call.request);
+    },
+  });
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, port) => (error ? reject(error) : resolve(port)));
+  });
+  address = `127.0.0.1:${port}`;
+  agentUrls = [await startAgent(), await startAgent()];
+});
+
+afterEach(() => {
+  if (previousAgents === undefined) delete process.env.GHZ_AGENTS;
+  else process.env.GHZ_AGENTS = previousAgents;
+});
+
+afterAll(async () => {
+  server.forceShutdown();
+  await Promise.all(agents.map(agent => new Promise(resolve => agent.close(resolve))));
+});
+
+const request = (config: RunRequest['config']): RunRequest => ({
+  protoContent: PROTO,
+  service: 'test.v1.Echo',
+  method: 'Say',
+  address,
+  config: { data: { message: 'hi' }, distributed: true, ...config },
+});
+
+describe('registeredAgents', () => {
+  it('reads the agent URLs from GHZ_AGENTS', () => {
+    process.env.GHZ_AGENTS = 'http://a:3000/, http://b:3000  http://c:3000';
+    expect(registeredAgents()).toEqual(['http://a:3000', 'http://b:3000', 'http://c:3000']);
+  });
+});
+
+describe('prepareRun', () => {
+  it('needs registered agents for a distributed step', async () => {
+    delete process.env.GHZ_AGENTS;
+    await expect(prepareRun(request({ c: 2, n: 10 }))).rejects.toThrow('No agents registered');
+  });
+
+  it('rejects steps too small to split', async () => {
+    process.env.GHZ_AGENTS = agentUrls.join(',');
+
+    await expect(prepareRun(request({ c: 1, n: 10 }))).rejects.toBeInstanceOf(RunRequestError);
+    await expect(prepareRun(request({ c: 2, n: 1 }))).rejects.toThrow('Request count (1) must be at least the number of agents (2)');
+    await expect(prepareRun(request({ c: 2, n: 10, connections: 1 }))).rejects.toThrow('Connections (1) must be at least the number of agents (2)');
+  });
+
+  it('splits the step across the agents and merges their statistics', async () => {
+    process.env.GHZ_AGENTS = agentUrls.join(',');
+    seenIds.length = 0;
+    const run = await prepareRun({ ...request({ c: 4, n: 10, assertions: [{ type: 'statusCodes', allowed: ['OK'] }] }), metadata: { 'x-id': '{{.RequestNumber}}' } });
+    const report = await run.execute();
+
+    expect(report).toMatchObject({ count: 10, statusCodeDistribution: { OK: 10 }, details: [] });
+    expect(report.options).toMatchObject({ concurrency: 4, total: 10, connections: 2 });
+    expect(report.agents?.map(agent => agent.count)).toEqual([5, 5]);
+    expect(report.assertions?.map(a => a.passed)).toEqual([true]);
+    expect(report.agentStats).toBeUndefined();
+    // Agents number their requests apart
+    expect([...seenIds].map(Number).sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('reports an agent that did not take part', async () => {
+    process.env.GHZ_AGENTS = `${agentUrls[0]},http://127.0.0.1:1`;
+    const report = await (await prepareRun(request({ c: 2, n: 10 }))).execute();
+
+    expect(report.count).toBe(5);
+    expect(report.agents?.[0]).toMatchObject({ count: 5 });
+    expect(report.agents?.[1].error).toBeTruthy();
+  });
+});
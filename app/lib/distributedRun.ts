@@ -0,0 +1,279 @@
+import {
+  buildRunReport, prepareLoadTest, PreparedRun, RunConfig, RunHooks, RunProgress, RunReport, RunRequest, RunRequestError,
+} from './loadRunner';
+import { readNdjson, RunEvent } from './ndjson';
+import { RunStats } from './runStats';
+
+// Distributed runs: the instance a step is sent to (the coordinator) splits
+// it across agent instances, other copies of this app listed in GHZ_AGENTS,
+// starts them together through their POST /api/ghz/run and merges the
+// statistics they send back into one report
+
+// An agent's part of a distributed run, sent along with its request
+export interface AgentShare {
+  startAt: number; // wall clock ms at which every agent starts its calls
+  index: number; // position of this agent in the run
+  count: number; // agents in the run
+}
+
+// One agent's line in the report of a distributed run
+export interface AgentResult {
+  url: string;
+  count: number;
+  rps: number;
+  average: number; // ns
+  p99: number; // ns
+  errors: number;
+  endReason?: string;
+  error?: string; // set when the agent did not complete its share
+}
+
+export interface AgentStatus {
+  url: string;
+  reachable: boolean;
+  error?: string;
+}
+
+// Time the agents get to load the proto before the calls start; their
+// clocks are assumed to agree to well within it
+const START_DELAY_MS = 2000;
+const PING_TIMEOUT_MS = 3000;
+// An agent that sends nothing for this long is given up on: running, it
+// sends progress every half second
+const AGENT_TIMEOUT_MS = 30000;
+
+// Base URLs of the agents, from GHZ_AGENTS (comma or space separated)
+export function registeredAgents(): string[] {
+  return (process.env.GHZ_AGENTS || '').split(/[\s,]+/).filter(Boolean).map(url => url.replace(/\/+$/, ''));
+}
+
+// fetch() hides why a connection failed in the error's cause
+function fetchError(error: unknown): string {
+  const { message, cause } = error as Error & { cause?: Error };
+  return cause?.message || message || 'Request failed';
+}
+
+// Whether each registered agent answers GET /api/agents?ping=true
+export async function checkAgents(): Promise<AgentStatus[]> {
+  return Promise.all(registeredAgents().map(async (url): Promise<AgentStatus> => {
+    try {
+      const response = await fetch(`${url}/api/agents?ping=true`, { signal: AbortSignal.timeout(PING_TIMEOUT_MS) });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return { url, reachable: true };
+    } catch (error) {
+      return { url, reachable: false, error: fetchError(error) };
+    }
+  }));
+}
+
+// Split total into parts that differ by at most one
+function split(total: number, parts: number): number[] {
+  return Array.from({ length: parts }, (_, i) => Math.floor(total / parts) + (i < total % parts ? 1 : 0));
+}
+
+// Each agent's settings: workers, requests and connections dealt out evenly,
+// rates divided. Assertions are checked on the merged report instead.
+function shareConfigs(config: RunConfig, agents: number): RunConfig[] {
+  const concurrency = config.c || 10;
+  const total = config.z ? (config.n || 0) : (config.n || 100);
+  if (concurrency < agents) {
+    throw new RunRequestError(`Concurrency (${concurrency}) must be at least the number of agents (${agents})`);
+  }
+  if (total > 0 && total < agents) {
+    throw new RunRequestError(`Request count (${total}) must be at least the number of agents (${agents})`);
+  }
+  // Every agent opens a connection of its own
+  if (config.connections && config.connections < agents) {
+    throw new RunRequestError(`Connections (${config.connections}) must be at least the number of agents (${agents})`);
+  }
+
+  const workers = split(concurrency, agents);
+  const requests = split(total, agents);
+  const connections = split(config.connections || agents, agents);
+  const rate = (value: number | undefined) => (value ? value / agents : value);
+  return workers.map((c, i) => ({
+    ...config,
+    c,
+    n: requests[i],
+    connections: connections[i],
+    threads: config.threads && Math.min(config.threads, c),
+    rps: rate(config.rps),
+    loadStart: rate(config.loadStart),
+    loadStep: rate(config.loadStep),
+    loadEnd: rate(config.loadEnd),
+    assertions: undefined,
+    distributed: undefined,
+  }));
+}
+
+// Prepare a step to run on this instance, or across the agents when it is distributed
+export function prepareRun(request: RunRequest): Promise<PreparedRun> {
+  return request.config?.distributed ? prepareDistributedRun(request) : prepareLoadTest(request);
+}
+
+// Validate a distributed step like a local one, so bad input is rejected
+// before any agent is involved. Throws RunRequestError.
+export async function prepareDistributedRun(request: RunRequest): Promise<PreparedRun> {
+  const agents = registeredAgents();
+  if (agents.length === 0) {
+    throw new RunRequestError('No agents registered: set GHZ_AGENTS to the URLs of the agent instances');
+  }
+  const config = request.config ?? {};
+  const shares = shareConfigs(config, agents.length);
+  const { kind } = await prepareLoadTest({ ...request, config: { ...config, distributed: undefined } });
+
+  const execute = async (hooks: RunHooks = {}): Promise<RunReport> => {
+    const { signal, onProgress } = hooks;
+    const runId = request.runId || crypto.randomUUID();
+    const agentRunId = (i: number) => `${runId}-agent-${i + 1}`;
+    const startAt = Date.now() + START_DELAY_MS;
+    const aborts = agents.map(() => new AbortController());
+    const progress: (RunProgress | null)[] = agents.map(() => null);
+
+    // Agents stop through their DELETE /api/ghz/run and still send their
+    // partial statistics; one that has not started yet is dropped instead
+    const cancel = () => {
+      agents.forEach(async (url, i) => {
+        try {
+          const response = await fetch(`${url}/api/ghz/run?runId=${encodeURIComponent(agentRunId(i))}`, { method: 'DELETE' });
+          if (!response.ok) aborts[i].abort();
+        } catch {
+          aborts[i].abort();
+        }
+      });
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    // Combined progress of the agents; latencies are the slowest agent's
+    const total = shares.reduce((sum, share) => sum + (share.n || 0), 0);
+    const ticker = onProgress ? setInterval(() => {
+      const latest = progress.filter((p): p is RunProgress => p !== null);
+      if (latest.length === 0) return;
+      onProgress({
+        completed: latest.reduce((sum, p) => sum + p.completed, 0),
+        total: total > 0 ? total : null,
+        elapsed: Math.max(...latest.map(p => p.elapsed)),
+        duration: latest[0].duration,
+        currentRps: latest.reduce((sum, p) => sum + p.currentRps, 0),
+        p50: Math.max(...latest.map(p => p.p50)),
+        p99: Math.max(...latest.map(p => p.p99)),
+        errors: latest.reduce((sum, p) => sum + p.errors, 0),
+      });
+    }, hooks.progressIntervalMs || 500) : null;
+
+    const runAgent = async (url: string, i: number): Promise<RunReport> => {
+      // Restarted on every line the agent sends
+      const giveUp = () => aborts[i].abort(new Error(`No answer from the agent for ${AGENT_TIMEOUT_MS / 1000}s`));
+      let quiet = AbortSignal.timeout(AGENT_TIMEOUT_MS);
+      quiet.addEventListener('abort', giveUp, { once: true });
+      const keepAlive = () => {
+        quiet.removeEventListener('abort', giveUp);
+        quiet = AbortSignal.timeout(AGENT_TIMEOUT_MS);
+        quiet.addEventListener('abort', giveUp, { once: true });
+      };
+      try {
+        return await readAgent(url, i, keepAlive);
+      } finally {
+        quiet.removeEventListener('abort', giveUp);
+      }
+    };
+
+    const readAgent = async (url: string, i: number, keepAlive: () => void): Promise<RunReport> => {
+      let response: Response;
+      try {
+        response = await fetch(`${url}/api/ghz/run`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Accept': 'application/x-ndjson' },
+          signal: aborts[i].signal,
+          body: JSON.stringify({
+            ...request,
+            runId: agentRunId(i),
+            config: shares[i],
+            agent: { startAt, index: i, count: agents.length },
+          } satisfies RunRequest),
+        });
+      } catch (error) {
+        throw new Error(fetchError(error));
+      }
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        const missing = result.missing ? `: ${result.missing.join(', ')}` : '';
+        throw new Error(`${result.error || `HTTP ${response.status}`}${missing}`);
+      }
+
+      let report: RunReport | null = null;
+      let streamError: string | null = null;
+      await readNdjson<RunEvent>(response, (event) => {
+        keepAlive();
+        if (event.type === 'progress') progress[i] = event;
+        else if (event.type === 'report') report = event.report;
+        else streamError = event.error;
+      });
+      if (streamError) throw new Error(streamError);
+      const final = report as RunReport | null;
+      if (!final) throw new Error('Run ended without a report');
+      if (!final.agentStats) throw new Error('No statistics to merge in the report; is the agent running the same version?');
+      return final;
+    };
+
+    let settled: PromiseSettledResult<RunReport>[];
+    try {
+      settled = await Promise.allSettled(agents.map(runAgent));
+    } finally {
+      if (ticker) clearInterval(ticker);
+      signal?.removeEventListener('abort', cancel);
+    }
+
+    const reports = settled.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const breakdown = agents.map((url, i): AgentResult => {
+      const result = settled[i];
+      if (result.status === 'rejected') {
+        return { url, count: 0, rps: 0, average: 0, p99: 0, errors: 0, error: (result.reason as Error).message };
+      }
+      const report = result.value;
+      return {
+        url,
+        count: report.count,
+        rps: report.rps,
+        average: report.average,
+        p99: report.latencyDistribution.find(d => d.percentage === 99)?.latency ?? 0,
+        errors: Object.values(report.errorDist).reduce((sum, n) => sum + n, 0),
+        endReason: report.endReason,
+      };
+    });
+    if (reports.length === 0) {
+      throw new Error(`No agent completed its share: ${breakdown.map(agent => `${agent.url}: ${agent.error}`).join('; ')}`);
+    }
+
+    const stats = RunStats.fromJSON(reports[0].agentStats!);
+    for (const report of reports.slice(1)) stats.merge(RunStats.fromJSON(report.agentStats!));
+
+    const opened = reports.reduce((sum, report) => sum + (report.options?.connections ?? 1), 0);
+    const endReasons = reports.map(report => report.endReason);
+    const schedules = reports.flatMap(report => (report.loadSchedule ? [report.loadSchedule] : []));
+    const report = buildRunReport(stats, {
+      // As the agents ran them, with the settings of the whole run
+      options: {
+        ...reports[0].options!,
+        concurrency: config.c || 10,
+        total,
+        rps: config.rps || undefined,
+        // As opened: at least one per agent, and per worker thread
+        connections: opened > 1 ? opened : undefined,
+      },
+      callType: kind,
+      endReason: endReasons.includes('cancel') ? 'cancel' : endReasons.includes('timeout') ? 'timeout' : 'normal',
+      cancelledInFlight: reports.reduce((sum, report) => sum + (report.cancelledInFlight || 0), 0),
+      // The run lasts until the last agent is done
+      total: Math.max(...reports.map(report => report.total)),
+      ...(schedules.length > 0 && {
+        loadSchedule: { type: schedules[0].type, scheduledRps: schedules.reduce((sum, s) => sum + s.scheduledRps, 0) },
+      }),
+      assertions: config.assertions,
+    });
+    report.agents = breakdown;
+    return report;
+  };
+
+  return { kind, execute };
+}
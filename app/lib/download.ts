@@ -0,0 +1,9 @@
+// Save text as a file from the browser
+export function downloadText(content: string, fileName: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
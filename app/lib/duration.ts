@@ -0,0 +1,27 @@
+const UNIT_MS: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3,
+  'µs': 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+// Parse a Go-style duration as accepted by ghz ("30s", "1m30s", "500ms", "2h")
+// into milliseconds. Returns null when the string is not a valid duration.
+export function parseDuration(value: string): number | null {
+  const input = value.trim();
+  if (!input) return null;
+
+  const re = /(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m|h)/g;
+  let total = 0;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(input)) !== null) {
+    if (match.index !== consumed) return null;
+    total += parseFloat(match[1]) * UNIT_MS[match[2]];
+    consumed += match[0].length;
+  }
+  return consumed === input.length ? total : null;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { execFileSync } from 'child_process';
+import { buildGhzConfigs, buildGhzScript, importGhz } from './ghzCommand';
+import { DEFAULT_SECURITY } from './connectionSecurity';
+import type { TestStep } from './testPlan';
+
+const steps: TestStep[] = [
+  { id: 'a', c: 5, n: 100, data: '{"name": "a"}' },
+  { id: 'b', c: 20, n: 0, mode: 'duration', z: '10s', data: '{"name": "b"}' },
+];
+
+describe('buildGhzConfigs', () => {
+  it('writes one ghz config object per step', () => {
+    const configs = buildGhzConfigs(steps, 'localhost:50051', DEFAULT_SECURITY, 'shop.v1.Orders', 'GetOrder', 'unary', '', false);
+
+    expect(configs).toHaveLength(2);
+    configs.forEach(config => expect(Array.isArray(JSON.parse(config))).toBe(false));
+    expect(JSON.parse(configs[1])).toMatchObject({ call: 'shop.v1.Orders.GetOrder', concurrency: 20, duration: '10s' });
+  });
+
+  it('reads each config back as a single step', () => {
+    const configs = buildGhzConfigs(steps, 'localhost:50051', DEFAULT_SECURITY, 'shop.v1.Orders', 'GetOrder', 'unary', '', false);
+    const imported = configs.map(config => importGhz(config, 'ghz-config.json'));
+
+    expect(imported.map(i => i.steps.length)).toEqual([1, 1]);
+    expect(imported[0].steps[0]).toMatchObject({ c: 5, n: 100 });
+  });
+});
+
+describe('buildGhzScript', () => {
+  const quoted: TestStep = { id: 'q', c: 5, n: 100, data: `{"name": "it's a 'test'", "cmd": "$(rm -rf /)"}` };
+  const security = { mode: 'tls-ca' as const, caCert: 'PEM', caCertName: "my ca's.pem", serverName: 'api.local' };
+  const metadata = `{"authorization": "Bearer it's"}`;
+  const script = buildGhzScript(quoted, 'localhost:50051', security, 'shop.v1.Orders', 'GetOrder', 'unary', metadata, true);
+
+  it('quotes every value as one shell word', () => {
+    // `printf '%s\0'` prints each argument as the shell split it
+    const printArgs = script.replace(/^ghz /, `printf '%s\\0' `);
+    const args = execFileSync('sh', ['-c', printArgs], { encoding: 'utf8' }).split('\0').slice(0, -1);
+
+    expect(args).toEqual([
+      '--cacert', "my ca's.pem",
+      '--cname', 'api.local',
+      '--authority', 'api.local',
+      '--call', 'shop.v1.Orders.GetOrder',
+      '-m', JSON.stringify(JSON.parse(metadata), null, 2),
+      '-d', JSON.stringify(JSON.parse(quoted.data), null, 2),
+      '-c', '5',
+      '-n', '100',
+      'localhost:50051',
+    ]);
+  });
+
+  it('leaves plain values unquoted', () => {
+    expect(script).toContain('--cname api.local \\\n');
+    expect(script).toContain("--cacert 'my ca'\\''s.pem' \\\n");
+    expect(script.endsWith('\nlocalhost:50051')).toBe(true);
+  });
+
+  it('reads back into the same step', () => {
+    const imported = importGhz(script);
+
+    expect(imported.steps[0]).toMatchObject({ c: 5, n: 100 });
+    expect(JSON.parse(imported.steps[0].data)).toEqual(JSON.parse(quoted.data));
+    expect(imported.metadata).toEqual({ authorization: "Bearer it's" });
+  });
+
+  it('carries the connection count both ways', () => {
+    const step: TestStep = { id: 'c', c: 8, n: 100, data: '{}', connections: 4 };
+    const command = buildGhzScript(step, 'localhost:50051', DEFAULT_SECURITY, 'shop.v1.Orders', 'GetOrder', 'unary', '', false);
+    const [config] = buildGhzConfigs([step], 'localhost:50051', DEFAULT_SECURITY, 'shop.v1.Orders', 'GetOrder', 'unary', '', false);
+
+    expect(command).toContain('--connections 4 \\\n');
+    expect(importGhz(command).steps[0].connections).toBe(4);
+    expect(importGhz(config, 'ghz-config.json').steps[0].connections).toBe(4);
+  });
+});
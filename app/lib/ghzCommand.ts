@@ -0,0 +1,441 @@
+import type { MethodKind } from './protoParser';
+import type { TestStep } from './testPlan';
+import { ConnectionSecurity, ghzSecurityFlags, ghzSecurityOptions } from './connectionSecurity';
+import { LoadScheduleType, ghzLoadFlags, ghzLoadOptions } from './loadSchedule';
+import { parseDuration } from './duration';
+import { parseJsonc } from './jsonc';
+import { parseToml } from './toml';
+import { shellQuote } from './shell';
+
+// Conversion between test steps and the ghz CLI: the equivalent command per
+// step, a ghz config file for the plan, and importing either one back
+
+// Helper to generate a beautified ghz CLI script
+export function buildGhzScript(
+  step: TestStep,
+  targetAddress: string,
+  security: ConnectionSecurity,
+  selectedService: string,
+  selectedMethod: string,
+  methodKind: MethodKind,
+  metadata: string,
+  metadataEnabled: boolean,
+): string {
+  const lines: string[] = [];
+
+  lines.push('ghz \\');
+
+  // Connection security
+  for (const flag of ghzSecurityFlags(security)) {
+    lines.push(`${flag} \\`);
+  }
+
+  // Call target
+  if (selectedService && selectedMethod) {
+    lines.push(`--call ${shellQuote(`${selectedService}.${selectedMethod}`)} \\`);
+  }
+
+  // Metadata (pretty-printed)
+  if (metadataEnabled && metadata) {
+    try {
+      const parsed = JSON.parse(metadata);
+      const pretty = JSON.stringify(parsed, null, 2);
+      lines.push(`-m ${shellQuote(pretty)} \\`);
+    } catch {
+      // skip invalid metadata
+    }
+  }
+
+  // Data (pretty-printed), or the uploaded data file
+  if (step.dataFile) {
+    lines.push(`-D ${shellQuote(step.dataFile.name)} \\`);
+  } else {
+    try {
+      const parsed = parseJsonc(step.data);
+      const pretty = JSON.stringify(parsed, null, 2);
+      lines.push(`-d ${shellQuote(pretty)} \\`);
+    } catch {
+      lines.push(`-d ${shellQuote(step.data)} \\`);
+    }
+  }
+
+  // Concurrency & total (or duration)
+  lines.push(`-c ${shellQuote(step.c)} \\`);
+  if (step.mode === 'duration') {
+    lines.push(`-z ${shellQuote(step.z || '30s')} \\`);
+  } else {
+    lines.push(`-n ${shellQuote(step.n)} \\`);
+  }
+
+  // Rate limiting
+  for (const flag of ghzLoadFlags(step)) {
+    lines.push(`${flag} \\`);
+  }
+
+  // Messages per client/bidi stream
+  if ((methodKind === 'client-stream' || methodKind === 'bidi-stream') && step.streamCount) {
+    lines.push(`--stream-call-count ${shellQuote(step.streamCount)} \\`);
+  }
+
+  // Connections the workers are spread over
+  if ((step.connections ?? 1) > 1) {
+    lines.push(`--connections ${shellQuote(step.connections!)} \\`);
+  }
+
+  // Target address
+  lines.push(shellQuote(targetAddress));
+
+  return lines.join('\n');
+}
+
+// The plan as ghz JSON configs, one per step: ghz --config reads a single
+// object, so each step is its own file
+export function buildGhzConfigs(
+  steps: TestStep[],
+  targetAddress: string,
+  security: ConnectionSecurity,
+  selectedService: string,
+  selectedMethod: string,
+  methodKind: MethodKind,
+  metadata: string,
+  metadataEnabled: boolean,
+): string[] {
+  let parsedMetadata: unknown;
+  if (metadataEnabled && metadata) {
+    try {
+      parsedMetadata = JSON.parse(metadata);
+    } catch {
+      // skip invalid metadata
+    }
+  }
+  const streaming = methodKind === 'client-stream' || methodKind === 'bidi-stream';
+
+  return steps.map(step => {
+    let data: unknown = step.data;
+    try {
+      data = parseJsonc(step.data);
+    } catch {
+      // keep the text as is
+    }
+    const config = {
+      ...(selectedService && selectedMethod && { call: `${selectedService}.${selectedMethod}` }),
+      host: targetAddress,
+      ...ghzSecurityOptions(security),
+      concurrency: step.c,
+      ...(step.mode === 'duration' ? { duration: step.z || '30s' } : { total: step.n }),
+      ...ghzLoadOptions(step),
+      ...(streaming && step.streamCount && { 'stream-call-count': step.streamCount }),
+      ...((step.connections ?? 1) > 1 && { connections: step.connections }),
+      ...(step.dataFile ? { 'data-file': step.dataFile.name } : { data }),
+      ...(parsedMetadata !== undefined && { metadata: parsedMetadata }),
+    };
+    return JSON.stringify(config, null, 2);
+  });
+}
+
+// Page state taken from a ghz command or config file
+export interface GhzImport {
+  target?: string;
+  call?: { service: string; method: string };
+  metadata?: Record<string, unknown>; // undefined when the command sets none
+  security: ConnectionSecurity;
+  steps: TestStep[];
+  warnings: string[]; // flags that were ignored or need a manual step
+}
+
+type GhzOptions = Record<string, unknown>; // keyed by long flag name, as in config files
+
+const SHORT_FLAGS: Record<string, string> = {
+  c: 'concurrency', n: 'total', z: 'duration', r: 'rps', d: 'data', D: 'data-file', b: 'binary', B: 'binary-file',
+  m: 'metadata', M: 'metadata-file', i: 'import-paths', t: 'timeout', x: 'max-duration', o: 'output', O: 'format',
+  e: 'enable-compression',
+};
+
+// Flags applied to the page; the boolean ones take no value
+const SUPPORTED_FLAGS: Record<string, 'bool' | 'value'> = {
+  call: 'value', host: 'value', insecure: 'bool', cacert: 'value', cert: 'value', key: 'value', cname: 'value',
+  authority: 'value', skipTLS: 'bool', data: 'value', 'data-file': 'value', metadata: 'value', 'metadata-file': 'value',
+  concurrency: 'value', total: 'value', duration: 'value', rps: 'value', 'load-schedule': 'value', 'load-start': 'value',
+  'load-step': 'value', 'load-end': 'value', 'load-step-duration': 'value', 'stream-call-count': 'value',
+  connections: 'value', proto: 'value', protoset: 'value', 'import-paths': 'value',
+};
+
+// Other ghz flags, recognised but not supported here
+const IGNORED_FLAGS: Record<string, 'bool' | 'value'> = {
+  binary: 'bool', 'binary-file': 'value', timeout: 'value', 'max-duration': 'value',
+  'connect-timeout': 'value', keepalive: 'value', name: 'value', tags: 'value', cpus: 'value', format: 'value',
+  output: 'value', skipFirst: 'value', 'count-errors': 'bool', async: 'bool', 'enable-compression': 'bool',
+  'lb-strategy': 'value', 'stream-interval': 'value', 'stream-call-duration': 'value', 'stream-dynamic-messages': 'bool',
+  'reflect-metadata': 'value', 'load-max-duration': 'value', 'concurrency-schedule': 'value', 'concurrency-start': 'value',
+  'concurrency-end': 'value', 'concurrency-step': 'value', 'concurrency-step-duration': 'value',
+  'concurrency-max-duration': 'value', 'disable-template-functions': 'bool', 'disable-template-data': 'bool',
+  'max-recv-message-size': 'value', 'max-send-message-size': 'value', 'max-call-recv-msg-size': 'value',
+  'max-call-send-msg-size': 'value', debug: 'value', config: 'value',
+};
+
+// Words of a shell command line: quotes, backslash escapes, line
+// continuations and comments handled as sh would
+function splitCommand(text: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '\\' && (text[i + 1] === '\n' || text.startsWith('\r\n', i + 1))) {
+      i += text[i + 1] === '\n' ? 2 : 3;
+    } else if (/\s/.test(c)) {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+      i++;
+    } else if (c === '#' && !inWord) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (c === "'") {
+      const end = text.indexOf("'", i + 1);
+      if (end < 0) throw new Error('Unterminated single quote');
+      word += text.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (c === '"') {
+      i++;
+      while (text[i] !== '"') {
+        if (i >= text.length) throw new Error('Unterminated double quote');
+        if (text[i] === '\\' && '"\\$`\n'.includes(text[i + 1])) {
+          if (text[i + 1] !== '\n') word += text[i + 1];
+          i += 2;
+        } else {
+          word += text[i++];
+        }
+      }
+      inWord = true;
+      i++;
+    } else if (c === '\\') {
+      word += text[i + 1] ?? '';
+      inWord = true;
+      i += 2;
+    } else {
+      word += c;
+      inWord = true;
+      i++;
+    }
+  }
+  if (inWord) words.push(word);
+  return words;
+}
+
+// Options of a `ghz ...` command line; the target address is its only argument
+function parseCommandOptions(text: string, warnings: string[]): GhzOptions {
+  const words = splitCommand(text);
+  if (words.length > 0 && /(^|[\\/])ghz(\.exe)?$/.test(words[0])) words.shift();
+
+  const options: GhzOptions = {};
+  const hosts: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (word === '--') {
+      hosts.push(...words.slice(i + 1));
+      break;
+    }
+    const match = /^--([^=]+)(?:=([\s\S]*))?$/.exec(word) || /^-([A-Za-z])(?:=?([\s\S]+))?$/.exec(word);
+    if (!match) {
+      hosts.push(word);
+      continue;
+    }
+
+    const name = word.startsWith('--') ? match[1] : SHORT_FLAGS[match[1]];
+    const kind = name && (SUPPORTED_FLAGS[name] || IGNORED_FLAGS[name]);
+    if (!kind) {
+      warnings.push(`Unknown flag ${word.split('=')[0]} was ignored`);
+      continue;
+    }
+
+    let value: unknown = match[2];
+    if (kind === 'bool') {
+      value = value === undefined ? true : value !== 'false';
+    } else if (value === undefined) {
+      if (i + 1 >= words.length) throw new Error(`Flag ${word} needs a value`);
+      value = words[++i];
+    }
+    options[name] = value;
+  }
+
+  if (hosts.length > 1) warnings.push(`Extra arguments ignored: ${hosts.slice(1).join(' ')}`);
+  if (hosts.length > 0) options.host = hosts[0];
+  return options;
+}
+
+function optionNumber(options: GhzOptions, name: string, warnings: string[], min = 0): number | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min) {
+    warnings.push(`--${name} ${JSON.stringify(value)} is not a valid number and was ignored`);
+    return undefined;
+  }
+  return n;
+}
+
+// Durations come as Go strings ("30s") or, from JSON configs, as ns
+function optionDuration(options: GhzOptions, name: string, warnings: string[]): string | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  if (typeof value === 'number' && value >= 0) return `${value / 1e6}ms`;
+  if (typeof value === 'string' && parseDuration(value) !== null) return value;
+  warnings.push(`--${name} ${JSON.stringify(value)} is not a valid duration and was ignored`);
+  return undefined;
+}
+
+// JSON-valued flags are text on the command line and values in config files
+function optionJson(options: GhzOptions, name: string, warnings: string[]): unknown {
+  const value = options[name];
+  if (typeof value !== 'string') return value;
+  try {
+    return parseJsonc(value);
+  } catch {
+    warnings.push(`--${name} is not valid JSON`);
+    return undefined;
+  }
+}
+
+function parseCall(call: string): { service: string; method: string } | undefined {
+  const trimmed = call.replace(/^\//, '');
+  const at = trimmed.includes('/') ? trimmed.lastIndexOf('/') : trimmed.lastIndexOf('.');
+  if (at <= 0 || at === trimmed.length - 1) return undefined;
+  return { service: trimmed.slice(0, at), method: trimmed.slice(at + 1) };
+}
+
+// Turn ghz options into page state for one step
+function fromOptions(options: GhzOptions, warnings: string[]): GhzImport {
+  for (const name of Object.keys(options)) {
+    if (SUPPORTED_FLAGS[name]) continue;
+    warnings.push(IGNORED_FLAGS[name] ? `--${name} is not supported here and was ignored` : `Unknown option "${name}" was ignored`);
+  }
+
+  const imported: GhzImport = {
+    security: { mode: 'tls' }, // ghz uses TLS unless --insecure
+    steps: [],
+    warnings,
+  };
+
+  if (typeof options.host === 'string' && options.host) imported.target = options.host;
+  else warnings.push('No target address given');
+
+  if (options.call !== undefined) {
+    imported.call = parseCall(String(options.call));
+    if (!imported.call) warnings.push(`--call ${options.call} is not a package.Service.Method name`);
+  }
+
+  // Certificates are only named; their contents must be uploaded
+  const security = imported.security;
+  if (options.insecure === true || options.insecure === 'true') {
+    security.mode = 'plaintext';
+  } else {
+    if (options.cert || options.key) security.mode = 'mtls';
+    else if (options.cacert) security.mode = 'tls-ca';
+    if (options.cacert) security.caCertName = String(options.cacert);
+    if (options.cert) security.clientCertName = String(options.cert);
+    if (options.key) security.clientKeyName = String(options.key);
+    const files = [options.cacert, options.cert, options.key].filter(Boolean);
+    if (files.length > 0) warnings.push(`Upload ${files.join(', ')} under connection security`);
+    if (options.cname || options.authority) security.serverName = String(options.cname || options.authority);
+    if (options.skipTLS === true || options.skipTLS === 'true') security.skipVerify = true;
+  }
+
+  for (const name of ['proto', 'protoset', 'import-paths']) {
+    if (options[name]) warnings.push(`Load ${options[name]} (--${name}) in the proto panel; files are not read from the command`);
+  }
+
+  const metadata = optionJson(options, 'metadata', warnings);
+  if (metadata !== undefined) {
+    if (typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata)) {
+      imported.metadata = metadata as Record<string, unknown>;
+    } else {
+      warnings.push('--metadata must be a JSON object');
+    }
+  }
+  if (options['metadata-file']) warnings.push(`Copy the contents of ${options['metadata-file']} (--metadata-file) into the metadata box`);
+
+  const step: TestStep = { id: crypto.randomUUID(), c: 50, n: 200, data: '{}' }; // ghz's defaults
+  step.c = optionNumber(options, 'concurrency', warnings, 1) ?? step.c;
+  step.n = optionNumber(options, 'total', warnings) ?? step.n;
+
+  const duration = optionDuration(options, 'duration', warnings);
+  if (duration) {
+    // ghz ignores -n when -z is given
+    step.mode = 'duration';
+    step.z = duration;
+    step.n = 0;
+  }
+
+  const schedule = options['load-schedule'];
+  if (schedule === 'step' || schedule === 'line') {
+    step.loadSchedule = schedule as LoadScheduleType;
+    step.loadStart = optionNumber(options, 'load-start', warnings);
+    step.loadStep = optionNumber(options, 'load-step', warnings);
+    step.loadEnd = optionNumber(options, 'load-end', warnings);
+    step.loadStepDuration = optionDuration(options, 'load-step-duration', warnings);
+  } else {
+    if (schedule !== undefined && schedule !== 'const') warnings.push(`--load-schedule ${schedule} is not supported and was ignored`);
+    step.rps = optionNumber(options, 'rps', warnings);
+  }
+  step.streamCount = optionNumber(options, 'stream-call-count', warnings, 1);
+  step.connections = optionNumber(options, 'connections', warnings, 1);
+
+  const data = optionJson(options, 'data', warnings);
+  if (data !== undefined) step.data = JSON.stringify(data, null, 2);
+  else if (typeof options.data === 'string') step.data = options.data;
+  if (options['data-file']) warnings.push(`Upload ${options['data-file']} (--data-file) as the step's data file`);
+
+  // Leave unset fields out so the step looks like one made in the panel
+  for (const key of Object.keys(step) as (keyof TestStep)[]) {
+    if (step[key] === undefined) delete step[key];
+  }
+  imported.steps.push(step);
+  return imported;
+}
+
+// A config file: JSON (an object, or an array of them for several steps) or TOML
+function parseConfigOptions(text: string, toml: boolean): GhzOptions[] {
+  if (toml) return [parseToml(text)];
+  const parsed = parseJsonc(text);
+  const configs = Array.isArray(parsed) ? parsed : [parsed];
+  if (configs.length === 0 || configs.some(c => typeof c !== 'object' || c === null || Array.isArray(c))) {
+    throw new Error('A ghz config must be an object or an array of objects');
+  }
+  return configs as GhzOptions[];
+}
+
+// Read a pasted ghz command, or a ghz JSON/TOML config file. Throws on input
+// that cannot be read at all; anything partly understood ends up in warnings.
+export function importGhz(text: string, fileName = ''): GhzImport {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('Nothing to import');
+
+  const firstWord = trimmed.split(/\s/)[0];
+  const isCommand = !/\.(json|toml)$/i.test(fileName) && (/(^|[\\/])ghz(\.exe)?$/.test(firstWord) || firstWord.startsWith('-'));
+  if (isCommand) {
+    const warnings: string[] = [];
+    return fromOptions(parseCommandOptions(trimmed, warnings), warnings);
+  }
+
+  const isJson = /\.json$/i.test(fileName) || (!/\.toml$/i.test(fileName) && /^[[{]/.test(trimmed));
+  let configs: GhzOptions[];
+  try {
+    configs = parseConfigOptions(trimmed, !isJson);
+  } catch (e) {
+    throw new Error(`Invalid ghz ${isJson ? 'JSON' : 'TOML'} config: ${(e as Error).message}`);
+  }
+
+  // Steps share the target, call, security and metadata of the first config
+  const imported = fromOptions(configs[0], []);
+  configs.slice(1).forEach((config, i) => {
+    const next = fromOptions(config, []);
+    imported.steps.push(...next.steps);
+    imported.warnings.push(...next.warnings.map(w => `Step ${i + 2}: ${w}`));
+    const differs = (['target', 'call', 'metadata', 'security'] as const)
+      .filter(key => JSON.stringify(next[key]) !== JSON.stringify(imported[key]));
+    if (differs.length > 0) imported.warnings.push(`Step ${i + 2}: uses a different ${differs.join(', ')}; step 1's is used`);
+  });
+  return imported;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { RunReport } from './loadRunner';
+import { parseGhzReports } from './ghzReport';
+import { toGhzJson } from './reportExport';
+
+const report: RunReport = {
+  date: '2026-01-01T00:00:01.000Z',
+  options: { call: 'demo.v1.Echo.Chat', host: 'localhost:50051', concurrency: 2, total: 0, duration: 5e9, rps: 10, loadSchedule: 'const' },
+  endReason: 'timeout',
+  cancelled: false,
+  count: 2,
+  total: 5e9,
+  average: 2e6,
+  fastest: 1e6,
+  slowest: 3e6,
+  rps: 0.4,
+  callType: 'bidi-stream',
+  streamStats: { messagesSent: 4, messagesReceived: 2, avgSentPerStream: 2, avgReceivedPerStream: 1 },
+  errorDist: { boom: 1 },
+  statusCodeDistribution: { OK: 1, UNAVAILABLE: 1 },
+  latencyDistribution: [{ percentage: 50, latency: 1e6 }],
+  histogram: [{ mark: 0.003, count: 2, frequency: 1 }],
+  details: [
+    { latency: 1e6, error: '', status: 'OK', sent: 2, received: 1 },
+    { latency: 3e6, error: 'boom', status: 'Unavailable', sent: 2, received: 1 },
+  ],
+};
+
+describe('parseGhzReports', () => {
+  it('reads back an exported report unchanged', () => {
+    expect(parseGhzReports(toGhzJson(report), 'run.json')).toEqual([{ ...report, importedFrom: 'run.json' }]);
+  });
+
+  it('reads a ghz CLI report with Go durations and hyphenated options', () => {
+    const [imported] = parseGhzReports(JSON.stringify({
+      date: '2026-01-01T00:00:00Z',
+      options: { call: 'demo.v1.Echo.Say', host: 'h:1', concurrency: 50, total: 200, 'load-schedule': 'step', duration: '30s' },
+      count: 200,
+      total: '2.5s',
+      average: 1500000,
+      fastest: '1ms',
+      slowest: '12.5ms',
+      rps: 80,
+      errorDistribution: null,
+      statusCodeDistribution: { OK: 200 },
+      details: [{ timestamp: '2026-01-01T00:00:00.1Z', latency: '1ms', error: '', status: 'OK' }],
+    }), 'cli.json');
+
+    expect(imported).toMatchObject({
+      options: { concurrency: 50, total: 200, loadSchedule: 'step', duration: 30e9 },
+      endReason: 'normal',
+      callType: 'unary',
+      total: 2.5e9,
+      fastest: 1e6,
+      slowest: 12.5e6,
+      errorDist: {},
+      details: [{ timestamp: '2026-01-01T00:00:00.1Z', latency: 1e6, error: '', status: 'OK' }],
+    });
+  });
+
+  it('charts imported calls over time', () => {
+    const timed = { ...report, details: report.details.map((d, i) => ({ ...d, offset: i * 1e6 })) };
+    const [imported] = parseGhzReports(toGhzJson(timed), 'run.json');
+
+    expect(imported.details.map(d => d.offset)).toEqual([0, 1e6]);
+    expect(imported.timeSeries?.points).toHaveLength(1);
+    expect(imported.timeSeries?.points[0].time).toBe(0);
+    // within the latency histogram's precision
+    expect(imported.timeSeries?.points[0].p50).toBeCloseTo(1e6, -4);
+  });
+
+  it('reads arrays of reports', () => {
+    const reports = parseGhzReports(JSON.stringify([JSON.parse(toGhzJson(report)), JSON.parse(toGhzJson(report))]), 'all.json');
+    expect(reports).toHaveLength(2);
+  });
+
+  it('names the file and report that could not be read', () => {
+    expect(() => parseGhzReports('{', 'x.json')).toThrow(/^x\.json: invalid JSON/);
+    expect(() => parseGhzReports('{"count": 1}', 'x.json')).toThrow('x.json: Not a ghz JSON report: missing date, total');
+    expect(() => parseGhzReports(JSON.stringify([JSON.parse(toGhzJson(report)), { ...report, total: 'soon' }]), 'x.json'))
+      .toThrow('x.json [1]: "total" is not a duration: "soon"');
+    expect(() => parseGhzReports(JSON.stringify({ ...report, histogram: {} }), 'x.json')).toThrow('"histogram" must be an array');
+  });
+});
@@ -0,0 +1,117 @@
+import type { RunReport, RunOptions } from './loadRunner';
+import type { MethodKind } from './protoParser';
+import { parseDuration } from './duration';
+import { buildTimeSeries } from './timeSeries';
+
+// Reads reports written by the ghz CLI with -O json (or -O pretty) into the
+// shape the web runner produces, so they can be shown, compared and exported
+
+type Json = Record<string, unknown>;
+
+// ghz writes time.Duration as ns; accept Go duration strings too
+function duration(value: unknown, field: string): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    if (/^\d+$/.test(value)) return Number(value);
+    const ms = parseDuration(value);
+    if (ms !== null) return Math.round(ms * 1e6);
+  }
+  throw new Error(`"${field}" is not a duration: ${JSON.stringify(value)}`);
+}
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function counts(value: unknown, field: string): { [key: string]: number } {
+  if (value === undefined || value === null) return {};
+  if (!isObject(value)) throw new Error(`"${field}" must be an object`);
+  return Object.fromEntries(Object.entries(value).map(([key, n]) => [key, Number(n) || 0]));
+}
+
+function list(value: unknown, field: string): Json[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`"${field}" must be an array`);
+  return value.filter(isObject);
+}
+
+function readOptions(options: unknown): RunOptions | undefined {
+  if (!isObject(options)) return undefined;
+  const loadSchedule = options['load-schedule'] ?? options.loadSchedule;
+  return {
+    call: String(options.call ?? ''),
+    host: String(options.host ?? ''),
+    concurrency: Number(options.concurrency) || 0,
+    total: Number(options.total) || 0,
+    ...(options.duration ? { duration: duration(options.duration, 'options.duration') } : {}),
+    ...(options.rps ? { rps: Number(options.rps) } : {}),
+    ...(typeof loadSchedule === 'string' && loadSchedule ? { loadSchedule } : {}),
+  };
+}
+
+const CALL_TYPES: MethodKind[] = ['unary', 'server-stream', 'client-stream', 'bidi-stream'];
+
+function normalize(raw: unknown, source: string): RunReport {
+  if (!isObject(raw)) throw new Error('Expected a ghz JSON report object');
+  const missing = ['date', 'count', 'total'].filter(key => raw[key] === undefined);
+  if (missing.length > 0) throw new Error(`Not a ghz JSON report: missing ${missing.join(', ')}`);
+
+  const endReason = typeof raw.endReason === 'string' && raw.endReason ? raw.endReason : 'normal';
+  const report: RunReport = {
+    date: String(raw.date),
+    importedFrom: source,
+    options: readOptions(raw.options),
+    endReason,
+    cancelled: endReason === 'cancel',
+    count: Number(raw.count) || 0,
+    total: duration(raw.total, 'total'),
+    average: duration(raw.average, 'average'),
+    fastest: duration(raw.fastest, 'fastest'),
+    slowest: duration(raw.slowest, 'slowest'),
+    rps: Number(raw.rps) || 0,
+    // ghz does not record the call type; reports exported from here do
+    callType: CALL_TYPES.includes(raw.callType as MethodKind) ? raw.callType as MethodKind : 'unary',
+    ...(isObject(raw.streamStats) && { streamStats: raw.streamStats as RunReport['streamStats'] }),
+    ...(isObject(raw.loadSchedule) && { loadSchedule: raw.loadSchedule as RunReport['loadSchedule'] }),
+    errorDist: counts(raw.errorDistribution ?? raw.errorDist, 'errorDistribution'),
+    statusCodeDistribution: counts(raw.statusCodeDistribution, 'statusCodeDistribution'),
+    latencyDistribution: list(raw.latencyDistribution, 'latencyDistribution').map((l, i) => ({
+      percentage: Number(l.percentage) || 0,
+      latency: duration(l.latency, `latencyDistribution[${i}].latency`),
+    })),
+    histogram: list(raw.histogram, 'histogram').map(h => ({
+      mark: Number(h.mark) || 0, // seconds, as ghz writes it
+      count: Number(h.count) || 0,
+      frequency: Number(h.frequency) || 0,
+    })),
+    details: list(raw.details, 'details').map((d, i) => ({
+      ...(typeof d.timestamp === 'string' && { timestamp: d.timestamp }),
+      ...(typeof d.offset === 'number' && { offset: d.offset }), // reports exported from here
+      latency: duration(d.latency, `details[${i}].latency`),
+      error: String(d.error ?? ''),
+      status: String(d.status ?? ''),
+      ...(d.sent !== undefined && { sent: Number(d.sent) }),
+      ...(d.received !== undefined && { received: Number(d.received) }),
+    })),
+  };
+  const timeSeries = buildTimeSeries(report.details);
+  if (timeSeries) report.timeSeries = timeSeries;
+  return report;
+}
+
+// One report, or an array of them, from a ghz -O json file
+export function parseGhzReports(text: string, source: string): RunReport[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`${source}: invalid JSON (${(e as Error).message})`);
+  }
+  const reports = Array.isArray(raw) ? raw : [raw];
+  return reports.map((report, i) => {
+    try {
+      return normalize(report, source);
+    } catch (e) {
+      throw new Error(`${source}${reports.length > 1 ? ` [${i}]` : ''}: ${(e as Error).message}`);
+    }
+  });
+}
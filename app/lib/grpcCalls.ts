@@ -0,0 +1,182 @@
+import * as grpc from '@grpc/grpc-js';
+import type { MethodKind } from './protoParser';
+
+export interface CallResult {
+  latency: number; // in nanoseconds
+  error: string | null;
+  statusCode: string;
+  messagesSent?: number; // streaming calls only
+  messagesReceived?: number; // streaming calls only
+  unsent?: boolean; // failed before it was sent (e.g. a template error), so no latency
+  start?: number; // ns after the run started, set by the runner
+}
+
+// Generated client whose methods are looked up by name at runtime
+export type DynamicClient = Record<string, (...args: unknown[]) => unknown>;
+
+// Cancel an in-flight call when the signal fires. Returns a function that
+// removes the listener once the call has finished.
+function cancelOnAbort(call: grpc.Call, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => call.cancel();
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+export function hrtimeToNs(hr: [number, number]): number {
+  return hr[0] * 1e9 + hr[1];
+}
+
+function makeUnaryCall(
+  client: DynamicClient,
+  methodName: string,
+  requestData: object,
+  metadataObj: grpc.Metadata,
+  signal?: AbortSignal
+): Promise<CallResult> {
+  return new Promise((resolve) => {
+    const startTime = process.hrtime();
+
+    const call = client[methodName](requestData, metadataObj, (err: grpc.ServiceError | null) => {
+      detach();
+      const elapsed = process.hrtime(startTime);
+      const latencyNs = hrtimeToNs(elapsed);
+
+      if (err) {
+        resolve({
+          latency: latencyNs,
+          error: err.message || err.code?.toString() || 'Unknown error',
+          statusCode: grpc.status[err.code] || `UNKNOWN(${err.code})`,
+        });
+      } else {
+        resolve({
+          latency: latencyNs,
+          error: null,
+          statusCode: 'OK',
+        });
+      }
+    }) as grpc.ClientUnaryCall;
+    const detach = cancelOnAbort(call, signal);
+  });
+}
+
+function toCallResult(
+  startTime: [number, number],
+  err: grpc.ServiceError | null,
+  messagesSent: number,
+  messagesReceived: number
+): CallResult {
+  const latencyNs = hrtimeToNs(process.hrtime(startTime));
+  return {
+    latency: latencyNs,
+    error: err ? (err.message || err.code?.toString() || 'Unknown error') : null,
+    statusCode: err ? (grpc.status[err.code] || `UNKNOWN(${err.code})`) : 'OK',
+    messagesSent,
+    messagesReceived,
+  };
+}
+
+// Messages sent on a client/bidi stream: an array payload is sent element by
+// element (like ghz), otherwise the same message is sent `count` times.
+export function streamMessages(requestData: object, count: number): object[] {
+  if (Array.isArray(requestData)) return requestData;
+  return Array.from({ length: count }, () => requestData);
+}
+
+function makeServerStreamCall(
+  client: DynamicClient,
+  methodName: string,
+  requestData: object,
+  metadataObj: grpc.Metadata,
+  signal?: AbortSignal
+): Promise<CallResult> {
+  return new Promise((resolve) => {
+    const startTime = process.hrtime();
+    let received = 0;
+    let settled = false;
+    const finish = (err: grpc.ServiceError | null) => {
+      if (settled) return;
+      settled = true;
+      detach();
+      resolve(toCallResult(startTime, err, 1, received));
+    };
+
+    const call = client[methodName](requestData, metadataObj) as grpc.ClientReadableStream<unknown>;
+    const detach = cancelOnAbort(call, signal);
+    call.on('data', () => { received++; });
+    call.on('error', (err: grpc.ServiceError) => finish(err));
+    call.on('end', () => finish(null));
+  });
+}
+
+function makeClientStreamCall(
+  client: DynamicClient,
+  methodName: string,
+  messages: object[],
+  metadataObj: grpc.Metadata,
+  signal?: AbortSignal
+): Promise<CallResult> {
+  return new Promise((resolve) => {
+    const startTime = process.hrtime();
+
+    const call = client[methodName](
+      metadataObj,
+      (err: grpc.ServiceError | null) => {
+        detach();
+        resolve(toCallResult(startTime, err, messages.length, err ? 0 : 1));
+      }
+    ) as grpc.ClientWritableStream<object>;
+    const detach = cancelOnAbort(call, signal);
+    for (const message of messages) call.write(message);
+    call.end();
+  });
+}
+
+function makeBidiStreamCall(
+  client: DynamicClient,
+  methodName: string,
+  messages: object[],
+  metadataObj: grpc.Metadata,
+  signal?: AbortSignal
+): Promise<CallResult> {
+  return new Promise((resolve) => {
+    const startTime = process.hrtime();
+    let received = 0;
+    let settled = false;
+    const finish = (err: grpc.ServiceError | null) => {
+      if (settled) return;
+      settled = true;
+      detach();
+      resolve(toCallResult(startTime, err, messages.length, received));
+    };
+
+    const call = client[methodName](metadataObj) as grpc.ClientDuplexStream<object, unknown>;
+    const detach = cancelOnAbort(call, signal);
+    call.on('data', () => { received++; });
+    call.on('error', (err: grpc.ServiceError) => finish(err));
+    call.on('end', () => finish(null));
+    for (const message of messages) call.write(message);
+    call.end();
+  });
+}
+
+export function makeCall(
+  kind: MethodKind,
+  client: DynamicClient,
+  methodName: string,
+  requestData: object,
+  streamCount: number,
+  metadataObj: grpc.Metadata,
+  signal?: AbortSignal
+): Promise<CallResult> {
+  switch (kind) {
+    case 'server-stream':
+      return makeServerStreamCall(client, methodName, requestData, metadataObj, signal);
+    case 'client-stream':
+      return makeClientStreamCall(client, methodName, streamMessages(requestData, streamCount), metadataObj, signal);
+    case 'bidi-stream':
+      return makeBidiStreamCall(client, methodName, streamMessages(requestData, streamCount), metadataObj, signal);
+    default:
+      return makeUnaryCall(client, methodName, requestData, metadataObj, signal);
+  }
+}
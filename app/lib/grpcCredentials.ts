@@ -0,0 +1,72 @@
+import * as grpc from '@grpc/grpc-js';
+import type { ConnectionSecurity } from './connectionSecurity';
+
+export interface ChannelSetup {
+  credentials: grpc.ChannelCredentials;
+  options: grpc.ChannelOptions;
+}
+
+// Credentials as plain data, so worker threads can build their own channels
+export interface ChannelParams {
+  ssl: {
+    rootCerts: string | null;
+    privateKey: string | null;
+    certChain: string | null;
+    skipVerify: boolean;
+  } | null; // null for plaintext
+  options: grpc.ChannelOptions;
+}
+
+// Check a connection security setting and resolve what its channels need.
+// Throws when the setting is incomplete (e.g. mTLS without a client key).
+export function channelParams(security?: ConnectionSecurity | null): ChannelParams {
+  if (!security || security.mode === 'plaintext') {
+    return { ssl: null, options: {} };
+  }
+
+  const options: grpc.ChannelOptions = {};
+  if (security.serverName) {
+    options['grpc.ssl_target_name_override'] = security.serverName;
+    options['grpc.default_authority'] = security.serverName;
+  }
+
+  if (security.mode === 'tls-ca' && !security.caCert) {
+    throw new Error('TLS with a custom CA requires a CA certificate');
+  }
+  if (security.mode === 'mtls' && (!security.clientCert || !security.clientKey)) {
+    throw new Error('Mutual TLS requires a client certificate and key');
+  }
+
+  return {
+    ssl: {
+      rootCerts: security.mode !== 'tls' && security.caCert ? security.caCert : null,
+      privateKey: security.mode === 'mtls' ? security.clientKey! : null,
+      certChain: security.mode === 'mtls' ? security.clientCert! : null,
+      skipVerify: !!security.skipVerify,
+    },
+    options,
+  };
+}
+
+// Build channel credentials and options for a connection security setting.
+// Throws like channelParams.
+export function buildChannelSetup(security?: ConnectionSecurity | null): ChannelSetup {
+  const { ssl, options } = channelParams(security);
+  if (!ssl) {
+    return { credentials: grpc.credentials.createInsecure(), options };
+  }
+
+  const verifyOptions: grpc.VerifyOptions = ssl.skipVerify
+    ? { rejectUnauthorized: false, checkServerIdentity: () => undefined }
+    : {};
+
+  return {
+    credentials: grpc.credentials.createSsl(
+      ssl.rootCerts ? Buffer.from(ssl.rootCerts) : null,
+      ssl.privateKey ? Buffer.from(ssl.privateKey) : null,
+      ssl.certChain ? Buffer.from(ssl.certChain) : null,
+      verifyOptions,
+    ),
+    options,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSyntaxError, offsetPosition, parseJsonc, parseJsoncTree, stripComments } from './jsonc';
+
+describe('stripComments', () => {
+  it('blanks comments but keeps positions and strings', () => {
+    const source = 'a // x\n/* b\nc */ d "//e"';
+    const stripped = stripComments(source);
+    expect(stripped).toBe('a     \n    \n     d "//e"');
+    expect(stripped).toHaveLength(source.length);
+  });
+});
+
+describe('parseJsonc', () => {
+  it('parses JSON with comment lines', () => {
+    expect(parseJsonc('{\n  // oneof kind: set only one of a, b\n  "a": "http://x" /* url */\n}')).toEqual({ a: 'http://x' });
+  });
+
+  it('still rejects invalid JSON', () => {
+    expect(() => parseJsonc('{ "a": }')).toThrow(SyntaxError);
+  });
+});
+
+describe('parseJsoncTree', () => {
+  it('keeps the offsets of values and keys', () => {
+    expect(parseJsoncTree('{\n  "a": [1, "x"] // note\n}')).toEqual({
+      type: 'object',
+      offset: 0,
+      properties: [{
+        key: 'a',
+        keyOffset: 4,
+        value: {
+          type: 'array',
+          offset: 9,
+          items: [{ type: 'number', offset: 10, value: 1, raw: '1' }, { type: 'string', offset: 13, value: 'x' }],
+        },
+      }],
+    });
+  });
+
+  it('reports syntax errors with their offset', () => {
+    const errorOf = (text: string) => {
+      try {
+        parseJsoncTree(text);
+      } catch (e) {
+        return { message: (e as Error).message, offset: (e as JsonSyntaxError).offset };
+      }
+    };
+    expect(errorOf('{"a": 1,}')).toEqual({ message: 'Trailing comma', offset: 8 });
+    expect(errorOf('{"a" 1}')).toEqual({ message: "Expected ':' but found '1'", offset: 5 });
+    expect(errorOf('[1 2]')).toEqual({ message: "Expected ',' or ']' but found '2'", offset: 3 });
+    expect(errorOf('{"a": "b\n}')).toEqual({ message: 'Unterminated string', offset: 6 });
+    expect(errorOf('{} x')).toEqual({ message: "Unexpected 'x'", offset: 3 });
+  });
+});
+
+describe('offsetPosition', () => {
+  it('gives the 1-based line and column', () => {
+    expect(offsetPosition('ab\ncd', 0)).toEqual({ line: 1, column: 1 });
+    expect(offsetPosition('ab\ncd', 4)).toEqual({ line: 2, column: 2 });
+  });
+});
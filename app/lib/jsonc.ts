@@ -0,0 +1,181 @@
+// Text with // and /* */ comments blanked out, keeping line and column
+// positions. Works for proto sources as well as JSON with comments.
+export function stripComments(content: string): string {
+  let out = '';
+  let i = 0;
+  while (i < content.length) {
+    const c = content[i];
+    if (c === '"' || c === "'") {
+      let j = i + 1;
+      while (j < content.length && content[j] !== c && content[j] !== '\n') j += content[j] === '\\' ? 2 : 1;
+      out += content.slice(i, j + 1);
+      i = j + 1;
+    } else if (content.startsWith('//', i)) {
+      const end = content.indexOf('\n', i);
+      const stop = end < 0 ? content.length : end;
+      out += ' '.repeat(stop - i);
+      i = stop;
+    } else if (content.startsWith('/*', i)) {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end < 0 ? content.length : end + 2;
+      out += content.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else {
+      out += c;
+      i++;
+    }
+  }
+  return out;
+}
+
+// JSON.parse that accepts comments, as used in generated request templates
+export function parseJsonc<T = unknown>(text: string): T {
+  return JSON.parse(stripComments(text));
+}
+
+// Parsed JSON value with source offsets, for positioned validation messages
+export type JsonNode =
+  | { type: 'object'; offset: number; properties: JsonProperty[] }
+  | { type: 'array'; offset: number; items: JsonNode[] }
+  | { type: 'string'; offset: number; value: string }
+  | { type: 'number'; offset: number; value: number; raw: string }
+  | { type: 'boolean'; offset: number; value: boolean }
+  | { type: 'null'; offset: number };
+
+export interface JsonProperty {
+  key: string;
+  keyOffset: number;
+  value: JsonNode;
+}
+
+export class JsonSyntaxError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+// Parse JSON with comments into a JsonNode tree. Throws JsonSyntaxError.
+export function parseJsoncTree(text: string): JsonNode {
+  const source = stripComments(text);
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < source.length && /\s/.test(source[i])) i++;
+  };
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, i);
+  };
+  const unexpected = () => fail(i < source.length ? `Unexpected '${source[i]}'` : 'Unexpected end of JSON');
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (source[i] !== char) fail(i < source.length ? `Expected '${char}' but found '${source[i]}'` : `Expected '${char}'`);
+    i++;
+  };
+
+  const parseString = (): string => {
+    const start = i;
+    i++;
+    while (i < source.length && source[i] !== '"') {
+      if (source[i] === '\n') break;
+      i += source[i] === '\\' ? 2 : 1;
+    }
+    if (source[i] !== '"') {
+      i = start;
+      fail('Unterminated string');
+    }
+    i++;
+    try {
+      return JSON.parse(source.slice(start, i));
+    } catch {
+      i = start;
+      return fail('Invalid escape in string');
+    }
+  };
+
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const offset = i;
+    const c = source[i];
+    if (c === '{') {
+      i++;
+      const properties: JsonProperty[] = [];
+      skipWhitespace();
+      if (source[i] === '}') {
+        i++;
+        return { type: 'object', offset, properties };
+      }
+      for (;;) {
+        skipWhitespace();
+        if (source[i] !== '"') fail(source[i] === '}' ? 'Trailing comma' : 'Expected a property name in double quotes');
+        const keyOffset = i;
+        const key = parseString();
+        expect(':');
+        properties.push({ key, keyOffset, value: parseValue() });
+        skipWhitespace();
+        if (source[i] === ',') {
+          i++;
+        } else if (source[i] === '}') {
+          i++;
+          return { type: 'object', offset, properties };
+        } else {
+          fail(i < source.length ? `Expected ',' or '}' but found '${source[i]}'` : "Expected ',' or '}'");
+        }
+      }
+    }
+    if (c === '[') {
+      i++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (source[i] === ']') {
+        i++;
+        return { type: 'array', offset, items };
+      }
+      for (;;) {
+        skipWhitespace();
+        if (source[i] === ']') fail('Trailing comma');
+        items.push(parseValue());
+        skipWhitespace();
+        if (source[i] === ',') {
+          i++;
+        } else if (source[i] === ']') {
+          i++;
+          return { type: 'array', offset, items };
+        } else {
+          fail(i < source.length ? `Expected ',' or ']' but found '${source[i]}'` : "Expected ',' or ']'");
+        }
+      }
+    }
+    if (c === '"') return { type: 'string', offset, value: parseString() };
+    if (source.startsWith('true', i) || source.startsWith('false', i)) {
+      const value = c === 't';
+      i += value ? 4 : 5;
+      return { type: 'boolean', offset, value };
+    }
+    if (source.startsWith('null', i)) {
+      i += 4;
+      return { type: 'null', offset };
+    }
+    NUMBER_PATTERN.lastIndex = i;
+    const number = NUMBER_PATTERN.exec(source);
+    if (number) {
+      i += number[0].length;
+      return { type: 'number', offset, value: Number(number[0]), raw: number[0] };
+    }
+    return unexpected();
+  };
+
+  const root = parseValue();
+  skipWhitespace();
+  if (i < source.length) unexpected();
+  return root;
+}
+
+// Line and column (both 1-based) of an offset in text
+export function offsetPosition(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { LatencyHistogram } from './latencyHistogram';
+
+const histogramOf = (values: number[]) => {
+  const histogram = new LatencyHistogram();
+  for (const value of values) histogram.record(value);
+  return histogram;
+};
+
+describe('LatencyHistogram', () => {
+  it('keeps small values exact', () => {
+    const histogram = histogramOf([1, 2, 3, 4, 100]);
+
+    expect(histogram.valueAt(50)).toBe(3);
+    expect(histogram.valueAt(100)).toBe(100);
+    expect(histogram).toMatchObject({ count: 5, min: 1, max: 100 });
+  });
+
+  it('keeps percentiles within half a percent', () => {
+    // 1 ms to 10 s, spread evenly on a log scale
+    const values = Array.from({ length: 10000 }, (_, i) => Math.round(1e6 * 10 ** (i / 2500)));
+    const histogram = histogramOf(values);
+
+    for (const p of [10, 50, 90, 99, 99.9]) {
+      const exact = values[Math.ceil((p / 100) * values.length) - 1];
+      expect(Math.abs(histogram.valueAt(p) - exact) / exact).toBeLessThan(0.005);
+    }
+  });
+
+  it('uses memory by bucket, not by call', () => {
+    const histogram = histogramOf(Array.from({ length: 100000 }, () => 5e6 + Math.floor(Math.random() * 1e6)));
+
+    expect(histogram.buckets().length).toBeLessThan(100);
+    expect(histogram.buckets().reduce((sum, b) => sum + b.count, 0)).toBe(100000);
+  });
+
+  it('merges into the histogram of both sets of calls', () => {
+    const a = histogramOf([1e6, 2e6, 3e6]);
+    a.merge(histogramOf([4e6, 5e6]));
+
+    expect(a.buckets()).toEqual(histogramOf([1e6, 2e6, 3e6, 4e6, 5e6]).buckets());
+    expect(a).toMatchObject({ count: 5, min: 1e6, max: 5e6 });
+  });
+
+  it('reads back its JSON', () => {
+    const histogram = histogramOf([5, 1e6, 2.5e6, 2.5e6]);
+    const copy = LatencyHistogram.fromJSON(JSON.parse(JSON.stringify(histogram)));
+
+    expect(copy.buckets()).toEqual(histogram.buckets());
+    expect(copy).toMatchObject({ count: 4, min: 5, max: 2.5e6 });
+    expect(LatencyHistogram.fromJSON(JSON.parse(JSON.stringify(new LatencyHistogram())))).toMatchObject({ count: 0, min: Infinity });
+  });
+
+  it('is 0 when empty', () => {
+    expect(new LatencyHistogram().valueAt(50)).toBe(0);
+  });
+});
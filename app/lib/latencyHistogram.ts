@@ -0,0 +1,90 @@
+// HDR-style latency histogram: log-linear buckets keep percentiles within
+// about 0.4% of the true value in memory that does not grow with the call count
+
+// Each power of two is split into this many buckets; values below it are exact
+const SUB_BUCKET_BITS = 7;
+const SUB_BUCKETS = 2 ** SUB_BUCKET_BITS;
+
+function bucketIndex(value: number): number {
+  const v = Math.max(0, Math.floor(value));
+  if (v < SUB_BUCKETS) return v;
+  let exponent = Math.floor(Math.log2(v));
+  // log2 can round up just below a power of two
+  if (2 ** exponent > v) exponent--;
+  const shift = exponent - SUB_BUCKET_BITS;
+  return (shift + 1) * SUB_BUCKETS + Math.floor(v / 2 ** shift) - SUB_BUCKETS;
+}
+
+// Lowest value and width of a bucket
+function bucketRange(index: number): [number, number] {
+  if (index < SUB_BUCKETS) return [index, 1];
+  const shift = Math.floor(index / SUB_BUCKETS) - 1;
+  const sub = (index % SUB_BUCKETS) + SUB_BUCKETS;
+  return [sub * 2 ** shift, 2 ** shift];
+}
+
+// A histogram as JSON, for runs merged from several instances
+export interface LatencyHistogramData {
+  counts: [number, number][]; // bucket index and count
+  min?: number; // left out when nothing was recorded
+  max: number;
+}
+
+export class LatencyHistogram {
+  private counts = new Map<number, number>();
+  count = 0;
+  min = Infinity;
+  max = 0;
+
+  record(ns: number) {
+    const index = bucketIndex(ns);
+    this.counts.set(index, (this.counts.get(index) || 0) + 1);
+    this.count++;
+    if (ns < this.min) this.min = ns;
+    if (ns > this.max) this.max = ns;
+  }
+
+  merge(other: LatencyHistogram) {
+    for (const [index, count] of other.counts) this.counts.set(index, (this.counts.get(index) || 0) + count);
+    this.count += other.count;
+    if (other.min < this.min) this.min = other.min;
+    if (other.max > this.max) this.max = other.max;
+  }
+
+  toJSON(): LatencyHistogramData {
+    return { counts: [...this.counts.entries()], ...(this.count > 0 && { min: this.min }), max: this.max };
+  }
+
+  static fromJSON(data: LatencyHistogramData): LatencyHistogram {
+    const histogram = new LatencyHistogram();
+    for (const [index, count] of data.counts) {
+      histogram.counts.set(index, count);
+      histogram.count += count;
+    }
+    histogram.min = data.min ?? Infinity;
+    histogram.max = data.max;
+    return histogram;
+  }
+
+  // Buckets in value order, each as its middle value and count
+  buckets(): { value: number; count: number }[] {
+    return [...this.counts.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, count]) => {
+        const [low, width] = bucketRange(index);
+        return { value: Math.min(this.max, Math.max(this.min, Math.round(low + (width - 1) / 2))), count };
+      });
+  }
+
+  // Latency at a percentile (0-100), or 0 when nothing was recorded
+  valueAt(percentile: number): number {
+    if (this.count === 0) return 0;
+    const target = Math.max(1, Math.ceil((percentile / 100) * this.count));
+    let seen = 0;
+    for (const bucket of this.buckets()) {
+      seen += bucket.count;
+      if (seen >= target) return bucket.value;
+    }
+    return this.max;
+  }
+}
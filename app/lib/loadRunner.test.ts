@@ -0,0 +1,317 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { prepareLoadTest, RunProgress, RunRequest, RunRequestError } from './loadRunner';
+
+const PROTO = `
+syntax = "proto3";
+package test.v1;
+message Ping { string message = 1; }
+service Echo {
+  rpc Say (Ping) returns (Ping);
+  rpc Slow (Ping) returns (Ping);
+  rpc Missing (Ping) returns (Ping);
+}
+`;
+
+const passThrough = (bytes: Buffer) => bytes;
+const unary = (path: string) => ({
+  path,
+  requestStream: false,
+  responseStream: false,
+  requestSerialize: passThrough,
+  requestDeserialize: passThrough,
+  responseSerialize: passThrough,
+  responseDeserialize: passThrough,
+});
+
+let server: grpc.Server;
+let address: string;
+// x-id metadata and messages of the calls Say answered
+const seenIds: string[] = [];
+const seenMessages: string[] = [];
+
+beforeAll(async () => {
+  server = new grpc.Server();
+  server.addService({ Say: unary('/test.v1.Echo/Say'), Slow: unary('/test.v1.Echo/Slow') }, {
+    Say: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+      const [id] = call.metadata.get('x-id');
+      if (id) seenIds.push(String(id));
+      seenMessages.push(call.request.toString());
+      callback(null, call.request);
+    },
+    Slow: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+      setTimeout(() => callback(null, call.request), 5000);
+    },
+  });
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, port) => (error ? reject(error) : resolve(port)));
+  });
+  address = `127.0.0.1:${port}`;
+});
+
+afterAll(() => {
+  server.forceShutdown();
+});
+
+const request = (config: RunRequest['config'], method = 'Say'): RunRequest => ({
+  protoContent: PROTO,
+  service: 'test.v1.Echo',
+  method,
+  address,
+  config: { data: { message: 'hi' }, ...config },
+});
+
+describe('reports', () => {
+  it('echo the run options as ghz names them', async () => {
+    const run = await prepareLoadTest(request({ c: 2, n: 4, rps: 100 }));
+    const report = await run.execute();
+
+    expect(report.options).toEqual({ call: 'test.v1.Echo.Say', host: address, concurrency: 2, total: 4, rps: 100 });
+  });
+});
+
+describe('time series', () => {
+  it('chart the calls from their start offsets', async () => {
+    const run = await prepareLoadTest(request({ c: 2, n: 10 }));
+    const report = await run.execute();
+
+    const points = report.timeSeries!.points;
+    expect(points.length).toBeGreaterThan(0);
+    expect(points.some(p => p.rps > 0 && p.p50 !== null)).toBe(true);
+    expect(points.every(p => p.errors === 0)).toBe(true);
+  });
+});
+
+describe('call details', () => {
+  it('are left out unless asked for', async () => {
+    const report = await (await prepareLoadTest(request({ c: 2, n: 10 }))).execute();
+
+    expect(report.details).toEqual([]);
+    expect(report.latencyDistribution).toHaveLength(7);
+  });
+
+  it('list every call with its start offset when kept', async () => {
+    const report = await (await prepareLoadTest(request({ c: 2, n: 10, details: true }))).execute();
+
+    expect(report.details).toHaveLength(10);
+    expect(report.details.every(d => typeof d.offset === 'number' && d.timestamp && d.status === 'OK')).toBe(true);
+  });
+
+  it('keep a sample of the failed calls when left out', async () => {
+    const report = await (await prepareLoadTest(request({ c: 1, n: 5 }, 'Missing'))).execute();
+
+    expect(report.errorSamples).toHaveLength(5);
+    expect(report.errorSamples!.every(d => d.status === 'UNIMPLEMENTED')).toBe(true);
+  });
+});
+
+describe('progress', () => {
+  it('is reported while the run goes on', async () => {
+    const run = await prepareLoadTest(request({ c: 2, n: 30, rps: 30 }));
+    const progress: RunProgress[] = [];
+    const report = await run.execute({ onProgress: p => progress.push(p), progressIntervalMs: 100 });
+
+    expect(report.count).toBe(30);
+    expect(progress.length).toBeGreaterThan(3);
+    expect(progress.every(p => p.total === 30 && p.duration === null)).toBe(true);
+    const completed = progress.map(p => p.completed);
+    expect(completed).toEqual([...completed].sort((a, b) => a - b));
+    expect(completed[completed.length - 1]).toBeLessThanOrEqual(30);
+  });
+});
+
+describe('rate-limited runs', () => {
+  it('end at the duration deadline', async () => {
+    const run = await prepareLoadTest(request({ c: 50, z: '1s', rps: 10 }));
+    const started = Date.now();
+    const report = await run.execute();
+
+    expect(Date.now() - started).toBeLessThan(1800);
+    expect(report.endReason).toBe('timeout');
+    expect(report.count).toBeLessThanOrEqual(10);
+  });
+
+  it('end with their last request', async () => {
+    const run = await prepareLoadTest(request({ c: 10, n: 20, rps: 20 }));
+    const started = Date.now();
+    const report = await run.execute();
+
+    // 20 slots 50 ms apart; no worker waits on a slot past the last request
+    expect(Date.now() - started).toBeLessThan(1350);
+    expect(report.endReason).toBe('normal');
+    expect(report.count).toBe(20);
+  });
+
+  it('stop promptly when cancelled', async () => {
+    const run = await prepareLoadTest(request({ c: 50, n: 1000, rps: 10 }));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 500);
+    const started = Date.now();
+    const report = await run.execute({ signal: controller.signal });
+
+    expect(Date.now() - started).toBeLessThan(1500);
+    expect(report.endReason).toBe('cancel');
+    expect(report.count).toBeGreaterThan(0);
+    expect(report.count).toBeLessThan(20);
+  });
+});
+
+describe('cancelled runs', () => {
+  it('cut short the calls in flight and leave them out', async () => {
+    const run = await prepareLoadTest(request({ c: 3, n: 10 }, 'Slow'));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 300);
+    const started = Date.now();
+    const report = await run.execute({ signal: controller.signal });
+
+    expect(Date.now() - started).toBeLessThan(1500);
+    expect(report).toMatchObject({ endReason: 'cancel', cancelled: true, cancelledInFlight: 3, count: 0 });
+  });
+
+  it('make no call when cancelled before they start', async () => {
+    const run = await prepareLoadTest(request({ c: 5, n: 100 }));
+    const report = await run.execute({ signal: AbortSignal.abort() });
+
+    expect(report).toMatchObject({ endReason: 'cancel', count: 0 });
+  });
+});
+
+describe('duration runs', () => {
+  it('cut short the calls in flight at the deadline', async () => {
+    const run = await prepareLoadTest(request({ c: 2, z: '500ms' }, 'Slow'));
+    const started = Date.now();
+    const report = await run.execute();
+
+    expect(Date.now() - started).toBeLessThan(1500);
+    expect(report.endReason).toBe('timeout');
+    expect(report.count).toBe(0);
+  });
+});
+
+describe('templates', () => {
+  it('render the metadata per call', async () => {
+    const run = await prepareLoadTest({ ...request({ c: 1, n: 3 }), metadata: { 'x-id': 'call-{{.RequestNumber}}' } });
+    const report = await run.execute();
+
+    expect(report.count).toBe(3);
+    expect(seenIds).toEqual(['call-0', 'call-1', 'call-2']);
+  });
+});
+
+describe('failed renders', () => {
+  const proto = `
+    syntax = "proto3";
+    package test.v1;
+    import "google/protobuf/timestamp.proto";
+    message Ping { google.protobuf.Timestamp at = 1; }
+    service Echo { rpc Say (Ping) returns (Ping); }
+  `;
+
+  it('count as errors without a latency sample', async () => {
+    // "0", "1", ... are not RFC 3339 timestamps
+    const run = await prepareLoadTest({ ...request({ c: 1, n: 3, data: { at: '{{.RequestNumber}}' } }), protoContent: proto });
+    const report = await run.execute();
+
+    expect(report.count).toBe(3);
+    expect(report.statusCodeDistribution).toEqual({ INVALID_ARGUMENT: 3 });
+    expect(Object.keys(report.errorDist)[0]).toMatch(/^Invalid google.protobuf.Timestamp/);
+    expect(report).toMatchObject({ average: 0, fastest: 0, slowest: 0, latencyDistribution: [], histogram: [] });
+  });
+
+  it('count the same on worker threads', async () => {
+    const run = await prepareLoadTest({ ...request({ c: 2, n: 4, threads: 2, data: { at: '{{.RequestNumber}}' } }), protoContent: proto });
+    const report = await run.execute();
+
+    expect(report.statusCodeDistribution).toEqual({ INVALID_ARGUMENT: 4 });
+    expect(report).toMatchObject({ average: 0, fastest: 0, slowest: 0, latencyDistribution: [] });
+  });
+});
+
+describe('data sets', () => {
+  it('send their messages in turn', async () => {
+    seenMessages.length = 0;
+    const run = await prepareLoadTest(request({ c: 1, n: 4, dataSet: [{ message: 'a' }, { message: 'b' }, { message: 'c' }] }));
+    const report = await run.execute();
+
+    expect(report.count).toBe(4);
+    expect(seenMessages.map(bytes => bytes.slice(2))).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('must not be empty', async () => {
+    await expect(prepareLoadTest(request({ dataSet: [] }))).rejects.toThrow('Data set contains no messages');
+  });
+});
+
+describe('worker threads', () => {
+  it('report the connections they open', async () => {
+    const run = await prepareLoadTest(request({ c: 4, n: 40, threads: 2 }));
+    const report = await run.execute();
+
+    expect(report.count).toBe(40);
+    expect(report.errorDist).toEqual({});
+    expect(report.options).toMatchObject({ connections: 2, threads: 2 });
+  });
+
+  it('cut short their calls in flight at the deadline', async () => {
+    const run = await prepareLoadTest(request({ c: 2, z: '500ms', threads: 2 }, 'Slow'));
+    const started = Date.now();
+    const report = await run.execute();
+
+    expect(Date.now() - started).toBeLessThan(2500);
+    expect(report).toMatchObject({ endReason: 'timeout', count: 0 });
+  });
+
+  it('cut short their calls in flight when cancelled', async () => {
+    const run = await prepareLoadTest(request({ c: 2, n: 10, threads: 2 }, 'Slow'));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 500);
+    const report = await run.execute({ signal: controller.signal });
+
+    expect(report).toMatchObject({ endReason: 'cancel', cancelledInFlight: 2, count: 0 });
+  });
+});
+
+describe('connections', () => {
+  it('spread the workers over separate channels', async () => {
+    const report = await (await prepareLoadTest(request({ c: 4, n: 8, connections: 2 }))).execute();
+
+    expect(report.count).toBe(8);
+    expect(report.options).toMatchObject({ connections: 2 });
+  });
+
+  it('cannot exceed the concurrency', async () => {
+    await expect(prepareLoadTest(request({ c: 2, n: 8, connections: 3 }))).rejects.toThrow('Connections (3) cannot exceed concurrency (2)');
+  });
+});
+
+describe('prepareLoadTest', () => {
+  it('rejects a corrupt descriptor set as a bad request', async () => {
+    const corrupt = Buffer.from([0x0a, 0xff, 0xff, 0xff, 0x0f, 0x01, 0x02]).toString('base64');
+    const prepared = prepareLoadTest({ ...request({}), protoContent: '', descriptorSet: corrupt });
+
+    await expect(prepared).rejects.toBeInstanceOf(RunRequestError);
+    await expect(prepared).rejects.toThrow(/descriptor set/);
+  });
+
+  it('loads a bundle whose imports resolve against the include-path root', async () => {
+    const run = await prepareLoadTest({
+      ...request({ c: 1, n: 2 }),
+      protoContent: '',
+      includeRoot: 'proto',
+      protoFiles: [
+        { name: 'proto/test/ping.proto', content: 'syntax = "proto3"; package test.v1; message Ping { string message = 1; }' },
+        {
+          name: 'proto/test/echo.proto',
+          content: 'syntax = "proto3"; package test.v1; import "test/ping.proto"; service Echo { rpc Say (Ping) returns (Ping); }',
+        },
+      ],
+    });
+    expect((await run.execute()).count).toBe(2);
+  });
+
+  it('rejects bundle paths outside the bundle', async () => {
+    const prepared = prepareLoadTest({ ...request({}), protoContent: '', protoFiles: [{ name: '../echo.proto', content: PROTO }] });
+
+    await expect(prepared).rejects.toThrow('Invalid proto file path "../echo.proto"');
+  });
+});
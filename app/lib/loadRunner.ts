@@ -0,0 +1,661 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { setMaxListeners } from 'events';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import type protobuf from 'protobufjs';
+import { buildProtoRoot, descriptorSetRoot, getMethodKind, MethodKind } from './protoParser';
+import { buildChannelSetup, channelParams } from './grpcCredentials';
+import type { ConnectionSecurity } from './connectionSecurity';
+import { parseDuration } from './duration';
+import { LoadSchedule, RatePacer, isRateLimited, averageScheduledRps } from './loadSchedule';
+import { CallResult, DynamicClient, hrtimeToNs, makeCall, streamMessages } from './grpcCalls';
+import { CallThreads } from './callThreads';
+import { compilePayload, TemplateContext } from './template';
+import { createPayloadPicker, DataOrder } from './payloads';
+import { normalizeBundlePath, ProtoFile } from './protoBundle';
+import { fromProto3Json } from './protoJson';
+import { GOOGLE_API_PROTOS } from './wellKnownTypes';
+import { Assertion, AssertionResult, evaluateAssertions } from './assertions';
+import type { TimeSeries } from './timeSeries';
+import { LatencyHistogram } from './latencyHistogram';
+import { RunStats, RunStatsData } from './runStats';
+import type { AgentResult, AgentShare } from './distributedRun';
+
+export interface RunConfig extends LoadSchedule {
+  c?: number;
+  n?: number;
+  z?: string;
+  data?: object; // one message, or an array (data set for unary/server-stream, stream messages otherwise)
+  dataSet?: object[]; // messages from an uploaded file, one picked per call
+  dataOrder?: DataOrder;
+  streamCount?: number;
+  connections?: number; // separate connections the workers are spread over (ghz --connections)
+  threads?: number; // worker threads making the calls; 1 = this thread
+  assertions?: Assertion[]; // checked against the report, results in report.assertions
+  details?: boolean; // keep every call in report.details (memory grows with the call count)
+  distributed?: boolean; // split the run across the agent instances in GHZ_AGENTS
+}
+
+// Body of POST /api/ghz/run
+export interface RunRequest {
+  runId?: string; // lets DELETE /api/ghz/run?runId= cancel the run
+  protoContent?: string;
+  protoFiles?: ProtoFile[]; // multi-file bundle, instead of protoContent
+  includeRoot?: string; // bundle directory imports are resolved against
+  descriptorSet?: string; // base64 FileDescriptorSet from server reflection, instead of protoContent
+  service: string;
+  method: string;
+  address: string;
+  config?: RunConfig;
+  metadata?: Record<string, unknown> | null;
+  security?: ConnectionSecurity | null;
+  agent?: AgentShare; // set by the coordinator of a distributed run
+}
+
+// Thrown for requests that cannot be run as given; the route answers with a 400
+export class RunRequestError extends Error {
+  constructor(message: string, public readonly missing?: string[]) {
+    super(message);
+    this.name = 'RunRequestError';
+  }
+}
+
+export interface RunProgress {
+  completed: number;
+  total: number | null; // request count (or cap), null when only the duration bounds the run
+  elapsed: number; // ns since the run started
+  duration: number | null; // ns, duration mode only
+  currentRps: number; // over the last progress interval
+  p50: number; // ns, over the last progress interval
+  p99: number;
+  errors: number;
+}
+
+export interface RunHooks {
+  onProgress?: (progress: RunProgress) => void;
+  progressIntervalMs?: number;
+  // Aborting stops dispatching, cancels in-flight calls and reports partial stats
+  signal?: AbortSignal;
+}
+
+// Run settings echoed in the report, named as in ghz's report options
+export interface RunOptions {
+  call: string; // e.g. "mypackage.MyService.MyMethod"
+  host: string;
+  concurrency: number;
+  total: number; // request count, or the cap in duration mode (0 = none)
+  duration?: number; // ns, duration mode only
+  rps?: number;
+  loadSchedule?: string;
+  connections?: number; // as opened, which worker threads may raise above the setting
+  threads?: number;
+}
+
+export interface RunReport {
+  date: string;
+  importedFrom?: string; // file name of a ghz CLI report this was imported from
+  options?: RunOptions;
+  endReason: string; // normal, timeout or cancel (as in ghz)
+  cancelled?: boolean;
+  cancelledInFlight?: number; // calls cut short by the cancel, left out of the stats
+  count: number;
+  total: number; // run duration in ns, as in ghz
+  average: number;
+  stddev?: number;
+  fastest: number;
+  slowest: number;
+  rps: number;
+  callType: MethodKind;
+  streamStats?: {
+    messagesSent: number;
+    messagesReceived: number;
+    avgSentPerStream: number;
+    avgReceivedPerStream: number;
+  };
+  loadSchedule?: {
+    type: string;
+    scheduledRps: number;
+    achievedRps: number;
+  };
+  errorDist: { [key: string]: number };
+  statusCodeDistribution: { [key: string]: number };
+  latencyDistribution: { percentage: number; latency: number }[];
+  histogram: { mark: number; count: number; frequency: number }[];
+  assertions?: AssertionResult[]; // only when the step has assertions
+  timeSeries?: TimeSeries; // only when the calls have start times
+  agents?: AgentResult[]; // per-agent breakdown of a distributed run
+  agentStats?: RunStatsData; // an agent's statistics, merged by the coordinator
+  errorSamples?: RunReport['details']; // some of the failed calls, when details were not kept
+  details: {
+    timestamp?: string; // when the call ended, as in ghz
+    offset?: number; // ns after the run started that the call started
+    latency: number;
+    error: string;
+    status: string;
+    sent?: number;
+    received?: number;
+  }[];
+}
+
+// A validated run with its client connected, ready to execute
+export interface PreparedRun {
+  kind: MethodKind;
+  execute(hooks?: RunHooks): Promise<RunReport>;
+}
+
+function toGrpcMetadata(values: Record<string, string>): grpc.Metadata {
+  const grpcMetadata = new grpc.Metadata();
+  for (const [key, value] of Object.entries(values)) {
+    grpcMetadata.add(key, value);
+  }
+  return grpcMetadata;
+}
+
+// Resolves at a wall clock time (ms), or as soon as the run is aborted
+function waitUntil(time: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, Math.max(0, time - Date.now()));
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+// Write the proto files to a temp dir for proto-loader, keeping their bundle
+// paths so imports resolve against the include root (or the bundle root)
+async function loadProtoFiles(
+  files: ProtoFile[],
+  includeRoot: string | undefined,
+  options: protoLoader.Options
+): Promise<protoLoader.PackageDefinition> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghz-'));
+  try {
+    const protoPaths: string[] = [];
+    for (const file of files) {
+      const name = normalizeBundlePath(file.name);
+      if (!name) throw new RunRequestError(`Invalid proto file path "${file.name}"`);
+      const protoPath = path.join(tempDir, name);
+      await fs.mkdir(path.dirname(protoPath), { recursive: true });
+      await fs.writeFile(protoPath, file.content);
+      protoPaths.push(protoPath);
+    }
+
+    const includeDirs = [tempDir];
+    if (includeRoot) {
+      const root = normalizeBundlePath(includeRoot);
+      if (!root) throw new RunRequestError(`Invalid include path root "${includeRoot}"`);
+      includeDirs.unshift(path.join(tempDir, root));
+    }
+
+    // Bundled google/api and google/rpc files, used when the bundle lacks them
+    // (proto-loader provides google/protobuf itself)
+    const wellKnownDir = path.join(tempDir, '.well-known');
+    for (const [name, content] of Object.entries(GOOGLE_API_PROTOS)) {
+      await fs.mkdir(path.dirname(path.join(wellKnownDir, name)), { recursive: true });
+      await fs.writeFile(path.join(wellKnownDir, name), content);
+    }
+    includeDirs.push(wellKnownDir);
+
+    try {
+      return await protoLoader.load(protoPaths, { ...options, includeDirs });
+    } catch (e) {
+      // Unresolved imports and syntax errors are problems with the uploaded bundle
+      throw new RunRequestError(`Failed to load proto: ${(e as Error).message.replaceAll(tempDir + path.sep, '')}`);
+    }
+  } finally {
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    } catch (e) {
+      console.error('Failed to clean up temp dir: - loadRunner.ts', e);
+    }
+  }
+}
+
+// What a report says about a run besides its call statistics
+export interface RunOutcome {
+  options: RunOptions;
+  callType: MethodKind;
+  endReason: string;
+  cancelledInFlight: number;
+  total: number; // run duration in ns
+  loadSchedule?: { type: string; scheduledRps: number }; // rate-limited runs only
+  assertions?: Assertion[];
+}
+
+// Build the report in ghz-compatible format
+export function buildRunReport(stats: RunStats, outcome: RunOutcome): RunReport {
+  const { count } = stats;
+  const rps = outcome.total > 0 ? (count / (outcome.total / 1e9)) : 0;
+
+  const report: RunReport = {
+    date: new Date().toISOString(),
+    options: outcome.options,
+    endReason: outcome.endReason,
+    ...(outcome.endReason === 'cancel' && { cancelled: true, cancelledInFlight: outcome.cancelledInFlight }),
+    count,
+    total: outcome.total,
+    average: stats.average,
+    stddev: stats.stddev,
+    fastest: stats.latencies.count > 0 ? stats.latencies.min : 0,
+    slowest: stats.latencies.max,
+    rps,
+    callType: outcome.callType,
+    // Message totals for streaming calls
+    streamStats: outcome.callType !== 'unary' ? {
+      messagesSent: stats.messagesSent,
+      messagesReceived: stats.messagesReceived,
+      avgSentPerStream: count > 0 ? stats.messagesSent / count : 0,
+      avgReceivedPerStream: count > 0 ? stats.messagesReceived / count : 0,
+    } : undefined,
+    // Scheduled vs achieved throughput for rate-limited runs
+    loadSchedule: outcome.loadSchedule && { ...outcome.loadSchedule, achievedRps: rps },
+    errorDist: stats.errors,
+    statusCodeDistribution: stats.statusCodes,
+    latencyDistribution: stats.latencyDistribution(),
+    histogram: stats.histogram(),
+    details: stats.details ?? [],
+  };
+  if (!stats.details && stats.errorSamples.length > 0) report.errorSamples = stats.errorSamples;
+  const timeSeries = stats.timeSeries.build();
+  if (timeSeries) report.timeSeries = timeSeries;
+  if (outcome.assertions?.length) {
+    report.assertions = evaluateAssertions(report, outcome.assertions, (p) => stats.latencies.valueAt(p));
+  }
+  return report;
+}
+
+// Validate a run request, load its proto and create the client. Throws
+// RunRequestError for bad input so callers can reject before streaming.
+export async function prepareLoadTest(request: RunRequest): Promise<PreparedRun> {
+  const { protoContent, protoFiles, includeRoot, descriptorSet, service, method, address, config, metadata, security, agent } = request;
+
+  const hasProto = !!protoContent || !!protoFiles?.length || !!descriptorSet;
+  if (!hasProto || !service || !method || !address) {
+    const missing = [];
+    if (!hasProto) missing.push('protoContent');
+    if (!service) missing.push('service');
+    if (!method) missing.push('method');
+    if (!address) missing.push('address');
+    throw new RunRequestError('Missing required fields', missing);
+  }
+
+  let channelSetup;
+  try {
+    channelSetup = buildChannelSetup(security);
+  } catch (e) {
+    throw new RunRequestError((e as Error).message);
+  }
+
+  // Duration mode (-z): run until the deadline, with `n` as an optional cap (0 = none)
+  let durationMs: number | null = null;
+  if (config?.z) {
+    durationMs = parseDuration(String(config.z));
+    if (!durationMs) {
+      throw new RunRequestError(`Invalid duration "${config.z}"`);
+    }
+  }
+
+  // Rate limiting (-r or --load-schedule); unlimited when not configured
+  const schedule: LoadSchedule = {
+    loadSchedule: config?.loadSchedule,
+    rps: config?.rps,
+    loadStart: config?.loadStart,
+    loadStep: config?.loadStep,
+    loadEnd: config?.loadEnd,
+    loadStepDuration: config?.loadStepDuration,
+  };
+  if (schedule.loadSchedule === 'step' && schedule.loadStepDuration && !parseDuration(schedule.loadStepDuration)) {
+    throw new RunRequestError(`Invalid load step duration "${schedule.loadStepDuration}"`);
+  }
+
+  const concurrency = config?.c || 10;
+  const totalRequests = durationMs ? (config?.n || 0) : (config?.n || 100);
+
+  // Like ghz, every connection and thread needs at least one worker
+  const connections = config?.connections || 1;
+  const threads = config?.threads || 1;
+  for (const [label, value] of [['Connections', connections], ['Threads', threads]] as const) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new RunRequestError(`${label} must be a whole number of at least 1`);
+    }
+    if (value > concurrency) {
+      throw new RunRequestError(`${label} (${value}) cannot exceed concurrency (${concurrency})`);
+    }
+  }
+  // Each worker thread needs a connection of its own, so there are at least as many as threads
+  const openConnections = threads > 1 ? Math.max(connections, threads) : connections;
+  const requestData = config?.data || {};
+  const streamCount = Math.max(1, config?.streamCount || 1);
+
+  const loaderOptions: protoLoader.Options = {
+    keepCase: true,
+    longs: String,
+    enums: String,
+    defaults: true,
+    oneofs: true,
+  };
+  const bundle = protoFiles?.length ? protoFiles : [{ name: 'service.proto', content: protoContent! }];
+  let packageDefinition: protoLoader.PackageDefinition;
+  if (descriptorSet) {
+    try {
+      packageDefinition = protoLoader.loadFileDescriptorSetFromBuffer(Buffer.from(descriptorSet, 'base64'), loaderOptions);
+    } catch (e) {
+      // Not a FileDescriptorSet, or one whose files do not resolve
+      throw new RunRequestError(`Failed to load descriptor set: ${(e as Error).message}`);
+    }
+  } else {
+    packageDefinition = await loadProtoFiles(bundle, includeRoot, loaderOptions);
+  }
+
+  // Same definitions as a protobufjs root, to read request data in the proto3 JSON mapping
+  let protoRoot: protobuf.Root;
+  try {
+    protoRoot = descriptorSet
+      ? descriptorSetRoot(Buffer.from(descriptorSet, 'base64'))
+      : buildProtoRoot(bundle, includeRoot, { keepCase: true });
+  } catch (e) {
+    throw new RunRequestError(`Failed to load proto: ${(e as Error).message}`);
+  }
+
+  const proto = grpc.loadPackageDefinition(packageDefinition);
+
+  // Navigate to the service (e.g. "mypackage.MyService")
+  let ServiceConstructor = proto as unknown as grpc.ServiceClientConstructor | undefined;
+  for (const part of service.split('.')) {
+    ServiceConstructor = (ServiceConstructor as unknown as Record<string, grpc.ServiceClientConstructor> | undefined)?.[part];
+  }
+
+  if (!ServiceConstructor) {
+    throw new RunRequestError(`Service "${service}" not found in proto definition`);
+  }
+
+  // Prepare metadata
+  const metadataValues: Record<string, string> = {};
+  if (metadata && typeof metadata === 'object') {
+    for (const [key, value] of Object.entries(metadata)) {
+      metadataValues[key] = String(value);
+    }
+  }
+  const grpcMetadata = toGrpcMetadata(metadataValues);
+
+  // Detect unary vs streaming from the loaded service definition
+  const serviceDef: grpc.ServiceDefinition = ServiceConstructor.service || {};
+  const [originalMethodName, methodDef] = Object.entries(serviceDef).find(
+    ([name]) => name.toLowerCase() === method.toLowerCase()
+  ) || [];
+  if (!originalMethodName || !methodDef) {
+    throw new RunRequestError(`Method "${method}" not found in service "${service}"`);
+  }
+  const kind = getMethodKind(methodDef);
+  const requestMessage = protoRoot.lookupService(service).methods[originalMethodName].resolvedRequestType!;
+  // Stream messages of client/bidi calls are given as an array
+  const toRequestData = (data: object) => (
+    methodDef.requestStream && Array.isArray(data)
+      ? data.map(message => fromProto3Json(requestMessage, message))
+      : fromProto3Json(requestMessage, data)
+  ) as object;
+
+  // Data set: an uploaded file, or an array payload for methods that send a
+  // single request (client/bidi streams send the array as stream messages)
+  const dataSet = Array.isArray(config?.dataSet)
+    ? config.dataSet
+    : Array.isArray(requestData) && !methodDef.requestStream ? requestData : null;
+  if (dataSet && dataSet.length === 0) {
+    throw new RunRequestError('Data set contains no messages');
+  }
+  const payloads: object[] = dataSet ?? [requestData];
+  const pickPayload = createPayloadPicker(payloads.length, config?.dataOrder);
+
+  // Per-call templates ({{.RequestNumber}}, {{.UUID}}, ...) in data and metadata values
+  let payloadRenderers: (((ctx: TemplateContext) => object) | null)[];
+  let renderMetadata: ((ctx: TemplateContext) => Record<string, string>) | null;
+  try {
+    payloadRenderers = payloads.map(payload => compilePayload(payload));
+    renderMetadata = compilePayload(metadataValues);
+  } catch (e) {
+    throw new RunRequestError((e as Error).message);
+  }
+  const hasTemplates = !!renderMetadata || payloadRenderers.some(Boolean);
+
+  // Payloads without templates are converted once, templated ones after each render
+  let requestPayloads: object[];
+  try {
+    requestPayloads = payloads.map((payload, i) => payloadRenderers[i] ? payload : toRequestData(payload));
+  } catch (e) {
+    throw new RunRequestError((e as Error).message);
+  }
+  const { requestType, responseType } = methodDef as unknown as protoLoader.MethodDefinition<object, object>;
+  const templateBase = {
+    fullyQualifiedName: `${service}.${originalMethodName}`,
+    methodName: originalMethodName,
+    serviceName: service,
+    inputName: (requestType?.type as { name?: string } | undefined)?.name || '',
+    outputName: (responseType?.type as { name?: string } | undefined)?.name || '',
+    isClientStreaming: !!methodDef.requestStream,
+    isServerStreaming: !!methodDef.responseStream,
+  };
+
+  const Constructor = ServiceConstructor;
+
+  // Calls on worker threads get their request already serialized
+  const serializeRequest = (data: object): Uint8Array | Uint8Array[] => (methodDef.requestStream
+    ? streamMessages(data, streamCount).map(message => methodDef.requestSerialize(message))
+    : methodDef.requestSerialize(data));
+
+  const execute = async (hooks: RunHooks = {}): Promise<RunReport> => {
+    // Create the clients: one per connection, each with its own subchannel
+    // pool so they do not share a connection, or worker threads holding them
+    let clients: (DynamicClient & grpc.Client)[] = [];
+    let callThreads: CallThreads | null = null;
+    if (threads > 1) {
+      callThreads = await CallThreads.start({
+        threads,
+        connections: openConnections,
+        address,
+        channel: channelParams(security),
+        path: methodDef.path,
+        kind,
+      });
+    } else {
+      const options = connections > 1
+        ? { ...channelSetup.options, 'grpc.use_local_subchannel_pool': 1 }
+        : channelSetup.options;
+      clients = Array.from({ length: connections }, () => new Constructor(
+        address,
+        channelSetup.credentials,
+        options
+      ) as unknown as DynamicClient & grpc.Client);
+    }
+
+    // Find the correct method name (case-insensitive match for camelCase)
+    const clientMethods = Object.keys(Constructor.prototype).filter(k => !k.startsWith('$'));
+    const methodName = clientMethods.find(
+      m => m.toLowerCase() === method.toLowerCase()
+    ) || method;
+
+    // Agents of a distributed run start at the same moment
+    if (agent) await waitUntil(agent.startAt, hooks.signal);
+
+    // Run load test with concurrency
+    const overallStart = process.hrtime();
+    const stats = new RunStats(Date.now(), !!config?.details, kind !== 'unary');
+
+    // Deadline first, so the pacer's slots never reach past it
+    const deadline = durationMs ? Date.now() + durationMs : null;
+    const pacer = isRateLimited(schedule) ? new RatePacer(schedule, totalRequests) : null;
+    let endReason = 'normal';
+
+    // Latencies finished since the last progress event
+    let windowLatencies = new LatencyHistogram();
+    let windowStart = process.hrtime();
+    let errorCount = 0;
+    const { onProgress } = hooks;
+    const ticker = onProgress ? setInterval(() => {
+      const windowSec = hrtimeToNs(process.hrtime(windowStart)) / 1e9;
+      onProgress({
+        completed: stats.count,
+        total: totalRequests > 0 ? totalRequests : null,
+        elapsed: hrtimeToNs(process.hrtime(overallStart)),
+        duration: durationMs ? durationMs * 1e6 : null,
+        currentRps: windowSec > 0 ? windowLatencies.count / windowSec : 0,
+        p50: windowLatencies.valueAt(50),
+        p99: windowLatencies.valueAt(99),
+        errors: errorCount,
+      });
+      windowLatencies = new LatencyHistogram();
+      windowStart = process.hrtime();
+    }, hooks.progressIntervalMs || 500) : null;
+
+    const { signal } = hooks;
+    let cancelledInFlight = 0;
+    // Cuts short the calls in flight on cancel and at the deadline, and the pacer's wait
+    const stopSignals = [signal, durationMs ? AbortSignal.timeout(durationMs) : undefined];
+    const callSignal = AbortSignal.any(stopSignals.filter((s): s is AbortSignal => s !== undefined));
+    // Every call in flight listens on it
+    setMaxListeners(0, callSignal);
+    const cancelThreads = () => callThreads?.cancel();
+    callSignal.addEventListener('abort', cancelThreads, { once: true });
+
+    // Checked before each dispatch: cancel or duration deadline
+    const shouldStop = () => {
+      if (signal?.aborted) {
+        endReason = 'cancel';
+        return true;
+      }
+      if (deadline && Date.now() >= deadline) {
+        endReason = 'timeout';
+        return true;
+      }
+      return false;
+    };
+
+    let completed = 0;
+    // Worker i sends its calls over connection i, modulo the connection count
+    const runWorker = async (connection: number) => {
+      while (totalRequests === 0 || completed < totalRequests) {
+        if (shouldStop()) break;
+        // A request is only counted once the pacer grants its slot
+        if (pacer && !(await pacer.next(callSignal, deadline))) {
+          if (signal?.aborted) endReason = 'cancel';
+          else if (!pacer.exhausted) endReason = 'timeout';
+          break;
+        }
+        const idx = completed++;
+        if (totalRequests > 0 && idx >= totalRequests) break;
+        // Agents take every agent.count-th request number, so the numbers
+        // and data set positions of a distributed run do not repeat
+        const requestNumber = agent ? idx * agent.count + agent.index : idx;
+        const payloadIdx = pickPayload(requestNumber);
+        const renderData = payloadRenderers[payloadIdx];
+        let callData = requestPayloads[payloadIdx];
+        let callMetadata = grpcMetadata;
+        let callMetadataValues = metadataValues;
+        let renderError: string | null = null;
+        if (hasTemplates) {
+          const ctx: TemplateContext = {
+            ...templateBase,
+            requestNumber,
+            timestamp: new Date(),
+            uuid: crypto.randomUUID(),
+          };
+          try {
+            if (renderData) callData = toRequestData(renderData(ctx));
+            if (renderMetadata) {
+              callMetadataValues = renderMetadata(ctx);
+              callMetadata = toGrpcMetadata(callMetadataValues);
+            }
+          } catch (e) {
+            // A template that fails to render, or renders a value that is not
+            // valid proto3 JSON, fails this call only
+            renderError = (e as Error).message;
+          }
+        }
+
+        const start = hrtimeToNs(process.hrtime(overallStart));
+        let result: CallResult;
+        if (renderError) {
+          result = { latency: 0, unsent: true, error: renderError, statusCode: 'INVALID_ARGUMENT' };
+        } else if (callThreads) {
+          let request: Uint8Array | Uint8Array[] | null = null;
+          let serializeError = '';
+          try {
+            request = serializeRequest(callData);
+          } catch (e) {
+            serializeError = (e as Error).message;
+          }
+          result = request
+            ? await callThreads.call(connection % openConnections, request, callMetadataValues)
+            : { latency: 0, unsent: true, error: serializeError, statusCode: 'INTERNAL' };
+        } else {
+          result = await makeCall(kind, clients[connection % connections], methodName, callData, streamCount, callMetadata, callSignal);
+        }
+        result.start = start;
+        // A call the cancel or the deadline cut short is left out, as ghz --duration-stop=ignore does
+        if (callSignal.aborted && result.statusCode === 'CANCELLED') {
+          if (signal?.aborted) cancelledInFlight++;
+          continue;
+        }
+        stats.record(result);
+        if (ticker) {
+          if (!result.unsent) windowLatencies.record(result.latency);
+          if (result.error) errorCount++;
+        }
+      }
+    };
+
+    // Launch concurrent workers
+    const workers = [];
+    const workerCount = totalRequests > 0 ? Math.min(concurrency, totalRequests) : concurrency;
+    try {
+      for (let i = 0; i < workerCount; i++) {
+        workers.push(runWorker(i));
+      }
+      await Promise.all(workers);
+    } finally {
+      if (ticker) clearInterval(ticker);
+      callSignal.removeEventListener('abort', cancelThreads);
+      // Close clients
+      for (const client of clients) client.close();
+      await callThreads?.close();
+    }
+
+    const overallElapsed = process.hrtime(overallStart);
+    const totalDurationNs = hrtimeToNs(overallElapsed);
+
+    const report = buildRunReport(stats, {
+      options: {
+        call: `${service}.${originalMethodName}`,
+        host: address,
+        concurrency,
+        total: totalRequests,
+        ...(durationMs && { duration: durationMs * 1e6 }),
+        ...(config?.rps && { rps: config.rps }),
+        ...(schedule.loadSchedule && { loadSchedule: schedule.loadSchedule }),
+        ...(openConnections > 1 && { connections: openConnections }),
+        ...(threads > 1 && { threads }),
+      },
+      callType: kind,
+      endReason,
+      cancelledInFlight,
+      total: totalDurationNs,
+      ...(pacer && {
+        loadSchedule: { type: schedule.loadSchedule || 'const', scheduledRps: averageScheduledRps(schedule, totalDurationNs / 1e6) },
+      }),
+      assertions: config?.assertions,
+    });
+    // Agents hand their statistics to the coordinator to merge; the calls
+    // travel in them only, not twice
+    if (agent) {
+      report.agentStats = stats.toJSON();
+      report.details = [];
+    }
+    return report;
+  };
+
+  return { kind, execute };
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { averageScheduledRps, ghzLoadFlags, isRateLimited, RatePacer, scheduledRps } from './loadSchedule';
+
+describe('scheduledRps', () => {
+  it('keeps a constant rate', () => {
+    expect(scheduledRps({ rps: 50 }, 0)).toBe(50);
+    expect(scheduledRps({ rps: 50 }, 60_000)).toBe(50);
+  });
+
+  it('raises a step schedule once per step duration', () => {
+    const schedule = { loadSchedule: 'step' as const, loadStart: 10, loadStep: 5, loadStepDuration: '2s' };
+    expect(scheduledRps(schedule, 0)).toBe(10);
+    expect(scheduledRps(schedule, 1999)).toBe(10);
+    expect(scheduledRps(schedule, 2000)).toBe(15);
+    expect(scheduledRps(schedule, 4500)).toBe(20);
+  });
+
+  it('ramps a line schedule every second and stops at the end rate', () => {
+    const schedule = { loadSchedule: 'line' as const, loadStart: 10, loadStep: 10, loadEnd: 25 };
+    expect(scheduledRps(schedule, 500)).toBe(15);
+    expect(scheduledRps(schedule, 1000)).toBe(20);
+    expect(scheduledRps(schedule, 5000)).toBe(25);
+  });
+
+  it('never drops below 1 RPS on a decreasing ramp', () => {
+    expect(scheduledRps({ loadSchedule: 'line', loadStart: 5, loadStep: -10 }, 10_000)).toBe(1);
+  });
+});
+
+describe('averageScheduledRps', () => {
+  it('averages a ramp over the run', () => {
+    expect(averageScheduledRps({ loadSchedule: 'line', loadStart: 10, loadStep: 10 }, 2000)).toBeCloseTo(20);
+    expect(averageScheduledRps({ rps: 30 }, 0)).toBe(30);
+  });
+});
+
+describe('isRateLimited and ghzLoadFlags', () => {
+  it('leave unlimited runs alone', () => {
+    expect(isRateLimited({})).toBe(false);
+    expect(ghzLoadFlags({ rps: 0 })).toEqual([]);
+  });
+
+  it('write the matching ghz flags', () => {
+    expect(ghzLoadFlags({ rps: 100 })).toEqual(['-r 100']);
+    expect(ghzLoadFlags({ loadSchedule: 'step', loadStart: 10, loadStep: 5, loadEnd: 50, loadStepDuration: '5s' })).toEqual([
+      '--load-schedule step', '--load-start 10', '--load-step 5', '--load-end 50', '--load-step-duration 5s',
+    ]);
+  });
+});
+
+describe('RatePacer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Wall clock offsets (ms) at which `count` slots are handed out
+  async function slotTimes(pacer: RatePacer, count: number): Promise<number[]> {
+    const startedAt = Date.now();
+    const times: number[] = [];
+    const slots = Array.from({ length: count }, () => pacer.next().then(() => times.push(Date.now() - startedAt)));
+    await vi.runAllTimersAsync();
+    await Promise.all(slots);
+    return times;
+  }
+
+  it('spaces slots evenly at a constant rate', async () => {
+    expect(await slotTimes(new RatePacer({ rps: 10 }), 4)).toEqual([0, 100, 200, 300]);
+  });
+
+  it('speeds up with each step', async () => {
+    const pacer = new RatePacer({ loadSchedule: 'step', loadStart: 5, loadStep: 5, loadStepDuration: '1s' });
+    // 5 RPS for the first second, then 10 RPS
+    expect(await slotTimes(pacer, 8)).toEqual([0, 200, 400, 600, 800, 1000, 1100, 1200]);
+  });
+
+  it('hands out no slot at or past the deadline', async () => {
+    const pacer = new RatePacer({ rps: 10 });
+    const deadline = Date.now() + 250;
+    const granted = [pacer.next(undefined, deadline), pacer.next(undefined, deadline), pacer.next(undefined, deadline)];
+    expect(await pacer.next(undefined, deadline)).toBe(false);
+    await vi.runAllTimersAsync();
+    expect(await Promise.all(granted)).toEqual([true, true, true]);
+  });
+
+  it('stops waiting as soon as the signal aborts', async () => {
+    const pacer = new RatePacer({ rps: 1 });
+    const controller = new AbortController();
+    await pacer.next(controller.signal);
+    const waiting = pacer.next(controller.signal);
+    controller.abort();
+    expect(await waiting).toBe(false);
+    expect(await pacer.next(controller.signal)).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('hands out no more slots than its limit', async () => {
+    const pacer = new RatePacer({ rps: 100 }, 2);
+    const slots = [pacer.next(), pacer.next(), pacer.next()];
+    expect(pacer.exhausted).toBe(true);
+    await vi.runAllTimersAsync();
+    expect(await Promise.all(slots)).toEqual([true, true, false]);
+  });
+});
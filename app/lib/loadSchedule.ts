@@ -0,0 +1,116 @@
+import { parseDuration } from './duration';
+import { shellQuote } from './shell';
+
+export type LoadScheduleType = 'const' | 'step' | 'line';
+
+// Rate limiting options, named after the matching ghz flags
+export interface LoadSchedule {
+  loadSchedule?: LoadScheduleType;
+  rps?: number; // const: target RPS (-r), 0 = unlimited
+  loadStart?: number; // step/line: starting RPS
+  loadStep?: number; // step: RPS change per step, line: RPS change per second
+  loadEnd?: number; // step/line: final RPS, 0 = keep going
+  loadStepDuration?: string; // step: time between steps, e.g. "5s"
+}
+
+export function isRateLimited(schedule: LoadSchedule): boolean {
+  const type = schedule.loadSchedule || 'const';
+  if (type === 'const') return (schedule.rps || 0) > 0;
+  return (schedule.loadStart || 0) > 0 || (schedule.loadStep || 0) > 0;
+}
+
+// Target RPS at a given point of the run
+export function scheduledRps(schedule: LoadSchedule, elapsedMs: number): number {
+  const type = schedule.loadSchedule || 'const';
+  if (type === 'const') return schedule.rps || 0;
+
+  const start = schedule.loadStart || 0;
+  const step = schedule.loadStep || 0;
+  const end = schedule.loadEnd || 0;
+
+  let rate: number;
+  if (type === 'step') {
+    const stepMs = parseDuration(schedule.loadStepDuration || '') || 1000;
+    rate = start + Math.floor(elapsedMs / stepMs) * step;
+  } else {
+    rate = start + (elapsedMs / 1000) * step;
+  }
+
+  if (end > 0) {
+    rate = step >= 0 ? Math.min(rate, end) : Math.max(rate, end);
+  }
+  // Never fully stall the pacer on a decreasing ramp
+  return Math.max(rate, 1);
+}
+
+// Mean target RPS over the first `durationMs` of a run
+export function averageScheduledRps(schedule: LoadSchedule, durationMs: number, samples = 200): number {
+  if (durationMs <= 0) return scheduledRps(schedule, 0);
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    sum += scheduledRps(schedule, ((i + 0.5) / samples) * durationMs);
+  }
+  return sum / samples;
+}
+
+// Hands out request slots at the scheduled rate. Shared by all workers of a
+// run: each call to next() reserves the following slot and waits until it is
+// due. No slot is handed out once the run is aborted or past its deadline,
+// nor past the limit (the run's request count; 0 = none).
+export class RatePacer {
+  private readonly startedAt = Date.now();
+  private nextAtMs = 0;
+  private handedOut = 0;
+
+  constructor(private readonly schedule: LoadSchedule, private readonly limit = 0) {}
+
+  // Whether every slot up to the limit has been handed out
+  get exhausted(): boolean {
+    return this.limit > 0 && this.handedOut >= this.limit;
+  }
+
+  // Resolves true when the slot is due, or false as soon as the signal
+  // aborts, when the slot falls at or after the deadline (wall clock ms) or
+  // when the pacer is exhausted
+  next(signal?: AbortSignal, deadline?: number | null): Promise<boolean> {
+    const dueMs = this.nextAtMs;
+    const dueAt = this.startedAt + dueMs;
+    if (this.exhausted || signal?.aborted || (deadline && dueAt >= deadline)) return Promise.resolve(false);
+    this.handedOut++;
+    this.nextAtMs += 1000 / scheduledRps(this.schedule, dueMs);
+
+    const waitMs = dueAt - Date.now();
+    if (waitMs <= 0) return Promise.resolve(true);
+    return new Promise(resolve => {
+      const done = (due: boolean) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+        resolve(due);
+      };
+      const abort = () => done(false);
+      const timer = setTimeout(() => done(true), waitMs);
+      signal?.addEventListener('abort', abort, { once: true });
+    });
+  }
+}
+
+// Equivalent ghz options (config file keys, also the long flag names)
+export function ghzLoadOptions(schedule: LoadSchedule): Record<string, string | number> {
+  if (!isRateLimited(schedule)) return {};
+  const type = schedule.loadSchedule || 'const';
+  if (type === 'const') return { rps: schedule.rps || 0 };
+
+  const options: Record<string, string | number> = {
+    'load-schedule': type,
+    'load-start': schedule.loadStart || 0,
+    'load-step': schedule.loadStep || 0,
+  };
+  if (schedule.loadEnd) options['load-end'] = schedule.loadEnd;
+  if (type === 'step') options['load-step-duration'] = schedule.loadStepDuration || '1s';
+  return options;
+}
+
+// Equivalent ghz CLI flags for a schedule
+export function ghzLoadFlags(schedule: LoadSchedule): string[] {
+  return Object.entries(ghzLoadOptions(schedule)).map(([name, value]) => (name === 'rps' ? `-r ${shellQuote(value)}` : `--${name} ${shellQuote(value)}`));
+}
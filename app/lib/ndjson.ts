@@ -0,0 +1,40 @@
+import type { RunProgress, RunReport } from './loadRunner';
+import type { PlanResult, PlanStepResult } from './planRunner';
+
+// Events streamed by POST /api/ghz/run when the client accepts application/x-ndjson
+export type RunEvent =
+  | ({ type: 'progress' } & RunProgress)
+  | { type: 'report'; report: RunReport }
+  | { type: 'error'; error: string };
+
+// Events streamed by POST /api/plans/run when the client accepts application/x-ndjson
+export type PlanEvent =
+  | ({ type: 'progress'; step: number } & RunProgress)
+  | { type: 'step'; result: PlanStepResult }
+  | { type: 'done'; result: PlanResult }
+  | { type: 'error'; error: string };
+
+// Read a newline-delimited JSON response body, calling onEvent for each line
+export async function readNdjson<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onEvent(JSON.parse(line) as T);
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer) as T);
+}
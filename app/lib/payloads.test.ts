@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { countPayloadMessages, createPayloadPicker, parsePayloadFile } from './payloads';
+
+describe('parsePayloadFile', () => {
+  it('reads a JSON array of messages', () => {
+    expect(parsePayloadFile('[{"a":1},{"a":2}]')).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('reads a single JSON message', () => {
+    expect(parsePayloadFile('{\n  "a": 1\n}')).toEqual([{ a: 1 }]);
+  });
+
+  it('reads NDJSON, skipping blank lines', () => {
+    expect(parsePayloadFile('{"a":1}\r\n\n{"a":2}\n')).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('names the item or line that is not a message', () => {
+    expect(() => parsePayloadFile('[{"a":1}, 2]')).toThrow('Item 2: expected a JSON object');
+    expect(() => parsePayloadFile('"text"')).toThrow('File: expected a JSON object');
+    expect(() => parsePayloadFile('{"a":1}\n[1]')).toThrow('Line 2: expected a JSON object');
+    expect(() => parsePayloadFile('{"a":1}\n{oops')).toThrow(/^Line 2: /);
+  });
+
+  it('rejects a file without messages', () => {
+    expect(() => parsePayloadFile(' \n\n')).toThrow('File contains no messages');
+  });
+});
+
+describe('countPayloadMessages', () => {
+  it('counts only JSON arrays', () => {
+    expect(countPayloadMessages('[{}, {}, {}]')).toBe(3);
+    expect(countPayloadMessages('{"a":1}')).toBeNull();
+    expect(countPayloadMessages('[{')).toBeNull();
+  });
+});
+
+describe('createPayloadPicker', () => {
+  it('cycles through the messages in order', () => {
+    const pick = createPayloadPicker(3);
+    expect([0, 1, 2, 3, 4, 7].map(pick)).toEqual([0, 1, 2, 0, 1, 1]);
+  });
+
+  it('picks random messages within the set', () => {
+    const pick = createPayloadPicker(4, 'random');
+    const picked = new Set(Array.from({ length: 200 }, (_, i) => pick(i)));
+    expect([...picked].every(i => Number.isInteger(i) && i >= 0 && i < 4)).toBe(true);
+    expect(picked.size).toBeGreaterThan(1);
+  });
+
+  it('always picks the only message', () => {
+    expect(createPayloadPicker(1, 'random')(5)).toBe(0);
+    expect(createPayloadPicker(0)(5)).toBe(0);
+  });
+});
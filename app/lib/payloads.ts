@@ -0,0 +1,61 @@
+import { parseJsonc } from './jsonc';
+
+// Request data sets: several messages per step, cycled through per call
+
+export type DataOrder = 'round-robin' | 'random';
+
+function assertMessage(value: unknown, where: string): object {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where}: expected a JSON object`);
+  }
+  return value;
+}
+
+// Parse an uploaded data file: a JSON array of messages, a single JSON
+// message, or NDJSON (one message per line)
+export function parsePayloadFile(text: string): object[] {
+  let whole: unknown;
+  try {
+    whole = JSON.parse(text);
+  } catch {
+    // Not a single JSON document, try NDJSON below
+  }
+
+  if (Array.isArray(whole)) {
+    return whole.map((item, i) => assertMessage(item, `Item ${i + 1}`));
+  }
+  if (whole !== undefined) {
+    return [assertMessage(whole, 'File')];
+  }
+
+  const messages: object[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (e) {
+      throw new Error(`Line ${i + 1}: ${(e as Error).message}`);
+    }
+    messages.push(assertMessage(value, `Line ${i + 1}`));
+  });
+  if (messages.length === 0) throw new Error('File contains no messages');
+  return messages;
+}
+
+// Number of messages in a step's data text when it holds a JSON array
+export function countPayloadMessages(dataText: string): number | null {
+  try {
+    const parsed = parseJsonc(dataText);
+    return Array.isArray(parsed) ? parsed.length : null;
+  } catch {
+    return null;
+  }
+}
+
+// Index of the message to send for a given request number
+export function createPayloadPicker(count: number, order: DataOrder = 'round-robin'): (requestNumber: number) => number {
+  if (count <= 1) return () => 0;
+  if (order === 'random') return () => Math.floor(Math.random() * count);
+  return requestNumber => requestNumber % count;
+}
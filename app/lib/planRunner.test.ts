@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runPlan } from './planRunner';
+import type { TestPlan } from './testPlan';
+
+const PROTO = `
+syntax = "proto3";
+package test.v1;
+message Ping { string message = 1; }
+service Echo {
+  rpc Say (Ping) returns (Ping);
+  rpc Fail (Ping) returns (Ping);
+}
+`;
+
+const passThrough = (bytes: Buffer) => bytes;
+const unary = (path: string) => ({
+  path,
+  requestStream: false,
+  responseStream: false,
+  requestSerialize: passThrough,
+  requestDeserialize: passThrough,
+  responseSerialize: passThrough,
+  responseDeserialize: passThrough,
+});
+
+let server: grpc.Server;
+let address: string;
+let dataDir: string;
+const previousDataDir = process.env.GHZ_DATA_DIR;
+
+beforeAll(async () => {
+  // Completed steps go to the run history
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghz-plan-'));
+  process.env.GHZ_DATA_DIR = dataDir;
+
+  server = new grpc.Server();
+  server.addService({ Say: unary('/test.v1.Echo/Say'), Fail: unary('/test.v1.Echo/Fail') }, {
+    Say: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => callback(null, call.request),
+    Fail: (_call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+      callback({ code: grpc.status.UNAVAILABLE, details: 'down for maintenance' });
+    },
+  });
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, port) => (error ? reject(error) : resolve(port)));
+  });
+  address = `127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  server.forceShutdown();
+  if (previousDataDir === undefined) delete process.env.GHZ_DATA_DIR;
+  else process.env.GHZ_DATA_DIR = previousDataDir;
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const plan = (method: string, steps: TestPlan['steps']): TestPlan => ({
+  name: 'smoke',
+  protoContent: PROTO,
+  service: 'test.v1.Echo',
+  method,
+  target: address,
+  steps,
+});
+
+describe('runPlan', () => {
+  it('runs every step and writes the report files', async () => {
+    const steps: number[] = [];
+    const result = await runPlan(plan('Say', [{ c: 1, n: 3, data: '{"message": "hi"}' }, { c: 2, n: 4 }]), ['json', 'junit'], {
+      onStep: (step) => steps.push(step.step),
+    });
+
+    expect(result.passed).toBe(true);
+    expect(steps).toEqual([1, 2]);
+    expect(result.steps.map(s => s.report?.count)).toEqual([3, 4]);
+    expect(Object.keys(result.files).sort()).toEqual(['junit.xml', 'step-1.json', 'step-2.json']);
+    expect(result.files['junit.xml']).toContain('<testsuite name="Step 2: test.v1.Echo.Say"');
+  });
+
+  it('fails steps with failed calls', async () => {
+    const result = await runPlan(plan('Fail', [{ c: 1, n: 2 }]), ['junit']);
+
+    expect(result.passed).toBe(false);
+    expect(result.steps[0]).toMatchObject({ passed: false, failures: ['2 of 2 calls failed'] });
+    expect(result.files['junit.xml']).toContain('failures="1"');
+  });
+
+  it('judges steps with assertions by them alone', async () => {
+    const result = await runPlan(plan('Fail', [{ c: 1, n: 2, assertions: ['codes OK,UNAVAILABLE'] }, { c: 1, n: 2, assertions: ['errors < 50%'] }]), ['junit']);
+
+    expect(result.steps.map(s => s.passed)).toEqual([true, false]);
+    expect(result.steps[1].failures).toEqual(['error rate < 50%: 2 of 2 calls failed (100.00%), limit 50%']);
+    expect(result.files['junit.xml']).toContain('<testcase classname="test.v1.Echo.Fail" name="only OK, UNAVAILABLE"');
+  });
+
+  it('reports steps that cannot run and goes on with the rest', async () => {
+    const result = await runPlan(plan('Say', [{ c: 1, n: 1, data: '{oops' }, { c: 1, n: 1 }]), ['junit']);
+
+    expect(result.steps[0].passed).toBe(false);
+    expect(result.steps[0].error).toBeTruthy();
+    expect(result.steps[1].passed).toBe(true);
+    expect(result.files['junit.xml']).toContain('errors="1"');
+  });
+
+  it('skips the steps after a cancel', async () => {
+    const result = await runPlan(plan('Say', [{ c: 1, n: 1 }]), [], { signal: AbortSignal.abort() });
+
+    expect(result).toMatchObject({ passed: false, files: {} });
+    expect(result.steps[0]).toMatchObject({ failures: ['Not run: the plan was cancelled'], error: 'Cancelled' });
+  });
+});
@@ -0,0 +1,99 @@
+import { RunProgress, RunReport, RunRequestError } from './loadRunner';
+import { prepareRun } from './distributedRun';
+import { saveRun } from './runHistory';
+import { planStepRequest, TestPlan } from './testPlan';
+import { EXPORT_FORMATS, ExportFormat, exportReport, toJUnit } from './reportExport';
+
+// Runs a whole test plan on the server, step after step, for CI pipelines
+
+export interface PlanStepResult {
+  step: number; // 1-based, as shown in the UI
+  passed: boolean;
+  failures: string[]; // why the step did not pass
+  report?: RunReport;
+  error?: string; // set when the step could not run at all
+}
+
+export interface PlanResult {
+  name?: string;
+  passed: boolean;
+  steps: PlanStepResult[];
+  files: Record<string, string>; // report files by name, in the requested formats
+}
+
+export interface PlanHooks {
+  signal?: AbortSignal;
+  onProgress?: (step: number, progress: RunProgress) => void;
+  onStep?: (result: PlanStepResult) => void;
+}
+
+// A step fails when it was cut short, an agent of a distributed run failed
+// or it misses one of its assertions; without assertions, when any call failed
+function stepFailures(report: RunReport): string[] {
+  const failures: string[] = [];
+  if (report.endReason === 'cancel') failures.push('Cancelled');
+  for (const agent of report.agents ?? []) {
+    if (agent.error) failures.push(`Agent ${agent.url} failed: ${agent.error}`);
+  }
+  if (report.assertions) {
+    failures.push(...report.assertions.filter(a => !a.passed).map(a => `${a.label}: ${a.reason}`));
+    return failures;
+  }
+  const errors = Object.values(report.errorDist).reduce((sum, n) => sum + n, 0);
+  if (errors > 0) failures.push(`${errors} of ${report.count} calls failed`);
+  return failures;
+}
+
+// Report files for the steps: one per step and format, and a single
+// junit.xml with a test suite per step
+export function planFiles(steps: PlanStepResult[], formats: ExportFormat[], call: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const format of formats) {
+    if (format === 'junit') {
+      files['junit.xml'] = toJUnit(steps.map(({ step, report, error }) => ({ name: `Step ${step}: ${call}`, report, error })));
+      continue;
+    }
+    const { extension } = EXPORT_FORMATS.find(f => f.format === format)!;
+    for (const { step, report } of steps) {
+      if (report) files[`step-${step}.${extension}`] = exportReport(report, format);
+    }
+  }
+  return files;
+}
+
+// Run every step of the plan with the same engine and history as
+// POST /api/ghz/run. Steps that cannot run are reported, not thrown.
+export async function runPlan(plan: TestPlan, formats: ExportFormat[], hooks: PlanHooks = {}): Promise<PlanResult> {
+  const steps: PlanStepResult[] = [];
+  for (let i = 0; i < plan.steps.length; i++) {
+    const step = i + 1;
+    let result: PlanStepResult;
+    if (hooks.signal?.aborted) {
+      result = { step, passed: false, failures: ['Not run: the plan was cancelled'], error: 'Cancelled' };
+    } else {
+      try {
+        const request = planStepRequest(plan, plan.steps[i]);
+        const run = await prepareRun(request);
+        const report = await run.execute({
+          signal: hooks.signal,
+          onProgress: (progress) => hooks.onProgress?.(step, progress),
+        });
+        try {
+          await saveRun(request, report);
+        } catch (error) {
+          console.error('Saving run history failed: - planRunner.ts', error);
+        }
+        const failures = stepFailures(report);
+        result = { step, passed: failures.length === 0, failures, report };
+      } catch (error) {
+        const missing = error instanceof RunRequestError && error.missing ? `: ${error.missing.join(', ')}` : '';
+        const message = `${(error as Error).message || 'Step failed'}${missing}`;
+        result = { step, passed: false, failures: [message], error: message };
+      }
+    }
+    steps.push(result);
+    hooks.onStep?.(result);
+  }
+
+  return { name: plan.name, passed: steps.every(s => s.passed), steps, files: planFiles(steps, formats, `${plan.service}.${plan.method}`) };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { importPathOf, mergeProtoFiles, normalizeBundlePath, readZipProtoFiles } from './protoBundle';
+import { parseProtoBundle } from './protoParser';
+
+// A zip archive with the given entries, deflated unless `stored`
+function zip(entries: { name: string; content: string; stored?: boolean }[]): ArrayBuffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.content);
+    const data = entry.stored ? raw : deflateRawSync(raw);
+    const method = entry.stored ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  const bytes = Buffer.concat([...locals, directory, end]);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+}
+
+describe('normalizeBundlePath', () => {
+  it('uses forward slashes and drops "." segments', () => {
+    expect(normalizeBundlePath('proto\\company/./common.proto')).toBe('proto/company/common.proto');
+    expect(normalizeBundlePath('a/b/../c.proto')).toBe('a/c.proto');
+  });
+
+  it('rejects paths outside the bundle', () => {
+    expect(normalizeBundlePath('../secret.proto')).toBeNull();
+    expect(normalizeBundlePath('/etc/x.proto')).toBeNull();
+    expect(normalizeBundlePath('C:/x.proto')).toBeNull();
+    expect(normalizeBundlePath('./')).toBeNull();
+  });
+});
+
+describe('mergeProtoFiles', () => {
+  it('replaces files with the same path and sorts by path', () => {
+    const merged = mergeProtoFiles(
+      [{ name: 'b.proto', content: 'old' }, { name: 'a.proto', content: 'a' }],
+      [{ name: 'b.proto', content: 'new' }, { name: 'c/d.proto', content: 'd' }]
+    );
+    expect(merged).toEqual([
+      { name: 'a.proto', content: 'a' },
+      { name: 'b.proto', content: 'new' },
+      { name: 'c/d.proto', content: 'd' },
+    ]);
+  });
+});
+
+describe('readZipProtoFiles', () => {
+  it('reads stored and deflated .proto entries and skips the rest', async () => {
+    const files = await readZipProtoFiles(zip([
+      { name: 'proto/a.proto', content: 'syntax = "proto3";', stored: true },
+      { name: 'proto/./b.proto', content: 'message B {}' },
+      { name: 'README.md', content: 'docs' },
+      { name: '__MACOSX/proto/._a.proto', content: 'junk' },
+      { name: '../escape.proto', content: 'nope' },
+    ]));
+    expect(files).toEqual([
+      { name: 'proto/a.proto', content: 'syntax = "proto3";' },
+      { name: 'proto/b.proto', content: 'message B {}' },
+    ]);
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(readZipProtoFiles(new TextEncoder().encode('not a zip at all, just some text').buffer)).rejects.toThrow('Not a zip archive');
+  });
+});
+
+describe('importPathOf', () => {
+  it('strips the include-path root', () => {
+    expect(importPathOf('proto/company/common.proto', 'proto')).toBe('company/common.proto');
+    expect(importPathOf('proto/company/common.proto', './proto/')).toBe('company/common.proto');
+    expect(importPathOf('other/x.proto', 'proto')).toBe('other/x.proto');
+    expect(importPathOf('x.proto', '')).toBe('x.proto');
+  });
+});
+
+describe('parseProtoBundle', () => {
+  it('resolves messages imported from another file', () => {
+    const parsed = parseProtoBundle([
+      {
+        name: 'proto/company/common.proto',
+        content: 'syntax = "proto3"; package company.common; message Id { string value = 1; }',
+      },
+      {
+        name: 'proto/company/users.proto',
+        content: `syntax = "proto3"; package company.users; import "company/common.proto";
+          message GetUser { company.common.Id id = 1; }
+          service Users { rpc Get (GetUser) returns (company.common.Id); }`,
+      },
+    ], 'proto');
+
+    expect(parsed.services.map(s => s.name)).toEqual(['company.users.Users']);
+    expect(parsed.messageDefaults['company.users.GetUser']).toEqual({ id: { value: '' } });
+  });
+
+  it('skips bundled copies of the well-known types', () => {
+    const parsed = parseProtoBundle([
+      { name: 'google/protobuf/empty.proto', content: 'syntax = "proto3"; package google.protobuf; message Empty {}' },
+      {
+        name: 'ping.proto',
+        content: 'syntax = "proto3"; import "google/protobuf/empty.proto"; service Ping { rpc Ping (google.protobuf.Empty) returns (google.protobuf.Empty); }',
+      },
+    ]);
+
+    expect(parsed.services.map(s => s.name)).toEqual(['Ping']);
+  });
+});
@@ -0,0 +1,87 @@
+// A set of .proto files uploaded together, keyed by their path inside the bundle
+export interface ProtoFile {
+  name: string; // e.g. "company/common/types.proto"
+  content: string;
+}
+
+// Normalize a bundle path to forward slashes without "." segments.
+// Returns null for absolute paths or paths escaping the bundle root.
+export function normalizeBundlePath(name: string): string | null {
+  const parts: string[] = [];
+  for (const part of name.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  if (/^[a-zA-Z]:/.test(name) || name.startsWith('/') || parts.length === 0) return null;
+  return parts.join('/');
+}
+
+// Add files to a bundle, replacing existing files with the same path
+export function mergeProtoFiles(existing: ProtoFile[], added: ProtoFile[]): ProtoFile[] {
+  const byName = new Map(existing.map(f => [f.name, f]));
+  for (const file of added) byName.set(file.name, file);
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Read the .proto entries of a zip archive (stored or deflated entries only)
+export async function readZipProtoFiles(buffer: ArrayBuffer): Promise<ProtoFile[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record: last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const files: ProtoFile[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const rawName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const name = normalizeBundlePath(rawName);
+    if (!name || !name.endsWith('.proto') || name.startsWith('__MACOSX/')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    let content: Uint8Array;
+    if (method === 0) {
+      content = data;
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      content = new Uint8Array(await new Response(stream).arrayBuffer());
+    } else {
+      throw new Error(`${name}: unsupported zip compression method ${method}`);
+    }
+    files.push({ name, content: decoder.decode(content) });
+  }
+
+  return files;
+}
+
+// Path of a bundle file relative to the include-path root, as an import
+// statement would name it; files outside the root keep their full path
+export function importPathOf(name: string, includeRoot: string): string {
+  const root = normalizeBundlePath(includeRoot);
+  return root && name.startsWith(root + '/') ? name.slice(root.length + 1) : name;
+}
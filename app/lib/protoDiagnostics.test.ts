@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { diagnosticLocation } from './protoDiagnostics';
+import { parseProtoBundle, parseProtoContent } from './protoParser';
+
+const diagnosticsOf = (content: string) => parseProtoContent(content).diagnostics;
+
+describe('parseProtoBundle diagnostics', () => {
+  it('position syntax errors at the offending token', () => {
+    expect(diagnosticsOf('syntax = "proto3";\nmessage A {\n  string a = 1\n}\n')).toEqual([
+      { severity: 'error', message: "Unexpected '}', expected ';'", file: 'service.proto', line: 4, column: 1 },
+    ]);
+  });
+
+  it('point at the duplicate field number', () => {
+    expect(diagnosticsOf('syntax = "proto3";\nmessage A {\n  string a = 1;\n  int32 b = 1;\n}\n')).toEqual([
+      { severity: 'error', message: 'Duplicate field number 1 in A', file: 'service.proto', line: 4, column: 13 },
+    ]);
+  });
+
+  it('report unresolved field and method types where they are used', () => {
+    const parsed = parseProtoContent('syntax = "proto3";\nmessage A {\n  Missing m = 1;\n}\nservice S {\n  rpc Go (A) returns (Nope);\n}\n');
+
+    expect(parsed.services).toEqual([]);
+    expect(parsed.diagnostics).toEqual([
+      { severity: 'error', message: "Unresolved type 'Missing' for field 'm' in A", file: 'service.proto', line: 3, column: 3 },
+      { severity: 'error', message: "Unresolved type 'Nope' in rpc S.Go", file: 'service.proto', line: 6, column: 23 },
+    ]);
+  });
+
+  it('report imports the bundle cannot satisfy, but not well-known or commented ones', () => {
+    const parsed = parseProtoBundle([{
+      name: 'p/a.proto',
+      content: 'syntax = "proto3";\nimport "b.proto";\nimport "google/protobuf/empty.proto";\n// import "c.proto";\n',
+    }]);
+
+    expect(parsed.diagnostics).toEqual([{
+      severity: 'error',
+      message: 'Import "b.proto" not found. Add it to the bundle or set the include path root',
+      file: 'p/a.proto',
+      line: 2,
+      column: 8,
+    }]);
+  });
+
+  it('resolve imports relative to the importing file or the include-path root', () => {
+    const common = 'syntax = "proto3"; package c; message Id { string v = 1; }';
+    const user = (path: string) => `syntax = "proto3"; import "${path}"; service S { rpc Go (c.Id) returns (c.Id); }`;
+
+    expect(parseProtoBundle([{ name: 'p/c.proto', content: common }, { name: 'p/s.proto', content: user('c.proto') }]).diagnostics).toEqual([]);
+    expect(parseProtoBundle([{ name: 'p/c.proto', content: common }, { name: 's.proto', content: user('c.proto') }], 'p').diagnostics).toEqual([]);
+  });
+
+  it('warn about a missing syntax statement and proto2-only features', () => {
+    const warnings = (content: string) => diagnosticsOf(content).map(d => `${d.severity} ${d.line}:${d.column} ${d.message}`);
+
+    expect(warnings('message A {\n  optional string a = 1;\n}\n')).toEqual([
+      'warning 1:1 No syntax specified, defaulting to proto2. Add `syntax = "proto3";`',
+    ]);
+    expect(warnings('syntax = "proto2";\nmessage A {\n  optional group G = 1 { optional int32 x = 2; }\n  extensions 100 to 200;\n}\nextend A {\n  optional int32 e = 100;\n}\n')).toEqual([
+      'warning 3:12 Group "G" is a deprecated proto2 feature; request data treats it as a nested message',
+      'warning 6:1 Extensions of "A" cannot be set from request data',
+    ]);
+  });
+
+  it('still list services when there are only warnings', () => {
+    const parsed = parseProtoContent('message A {\n  optional string a = 1;\n}\nservice S {\n  rpc Go (A) returns (A);\n}\n');
+
+    expect(parsed.diagnostics.map(d => d.severity)).toEqual(['warning']);
+    expect(parsed.services.map(s => s.name)).toEqual(['S']);
+  });
+});
+
+describe('diagnosticLocation', () => {
+  it('labels a position as file:line:column', () => {
+    expect(diagnosticLocation({ severity: 'error', message: '', file: 'a.proto', line: 3, column: 5 })).toBe('a.proto:3:5');
+    expect(diagnosticLocation({ severity: 'error', message: '', file: 'a.proto', line: 0, column: 0 })).toBe('a.proto');
+  });
+});
@@ -0,0 +1,166 @@
+import protobuf from 'protobufjs';
+import { normalizeBundlePath, ProtoFile } from './protoBundle';
+import { isWellKnownProto } from './wellKnownTypes';
+import { stripComments } from './jsonc';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ProtoDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file: string;
+  line: number; // 1-based; 0 when the position is unknown
+  column: number; // 1-based; 0 when the position is unknown
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Position of `token` in the first (or last) line matching `pattern`
+function locate(lines: string[], pattern: RegExp, token: string, last = false, fromLine = 0) {
+  const order = lines.map((_, i) => i).slice(fromLine);
+  if (last) order.reverse();
+  for (const i of order) {
+    const match = pattern.exec(lines[i]);
+    if (match) {
+      const offset = match[0].indexOf(token);
+      return { line: i + 1, column: match.index + Math.max(offset, 0) + 1 };
+    }
+  }
+  return { line: 0, column: 0 };
+}
+
+// Checks that need only the source text: missing syntax statement, imports
+// the bundle cannot satisfy, and features request data cannot express
+export function scanProtoSource(file: ProtoFile, bundleNames: Set<string>, includeRoot: string): ProtoDiagnostic[] {
+  const diagnostics: ProtoDiagnostic[] = [];
+  const lines = stripComments(file.content).split('\n');
+  const add = (severity: DiagnosticSeverity, message: string, line: number, column: number) =>
+    diagnostics.push({ severity, message, file: file.name, line, column });
+
+  if (!lines.some(line => /^\s*(syntax|edition)\s*=/.test(line))) {
+    add('warning', 'No syntax specified, defaulting to proto2. Add `syntax = "proto3";`', 1, 1);
+  }
+
+  const root = normalizeBundlePath(includeRoot);
+  const dir = file.name.includes('/') ? file.name.slice(0, file.name.lastIndexOf('/') + 1) : '';
+  lines.forEach((line, i) => {
+    const importMatch = /^\s*import\s+(?:public\s+|weak\s+)?"([^"]+)"/.exec(line);
+    if (importMatch) {
+      const target = importMatch[1];
+      const candidates = [target, dir + target, root ? `${root}/${target}` : target];
+      if (!isWellKnownProto(target) && !candidates.some(name => bundleNames.has(normalizeBundlePath(name) || ''))) {
+        add('error', `Import "${target}" not found. Add it to the bundle or set the include path root`, i + 1, line.indexOf('"') + 1);
+      }
+    }
+
+    const groupMatch = /\b(?:optional|required|repeated)\s+group\s+(\w+)/.exec(line);
+    if (groupMatch) {
+      add('warning', `Group "${groupMatch[1]}" is a deprecated proto2 feature; request data treats it as a nested message`, i + 1, line.indexOf('group') + 1);
+    }
+
+    const extendMatch = /^\s*extend\s+\.?([\w.]+)/.exec(line);
+    if (extendMatch && !extendMatch[1].startsWith('google.protobuf.')) {
+      add('warning', `Extensions of "${extendMatch[1]}" cannot be set from request data`, i + 1, line.indexOf('extend') + 1);
+    }
+  });
+
+  return diagnostics;
+}
+
+// Turn an error thrown by protobuf.parse into a positioned diagnostic
+export function parseErrorDiagnostic(error: Error, file: ProtoFile): ProtoDiagnostic {
+  const lines = stripComments(file.content).split('\n');
+  const diagnostic = (message: string, position: { line: number; column: number }): ProtoDiagnostic =>
+    ({ severity: 'error', message, file: file.name, ...position });
+
+  // e.g. "illegal token '}', ';' expected (service.proto, line 5)"
+  const illegal = /^illegal (\w+)(?: '(.*?)')?(?:, '(.*)' expected)? \((?:.*, )?line (\d+)\)$/.exec(error.message);
+  if (illegal) {
+    const [, kind, token = '', expected, lineText] = illegal;
+    const line = Number(lineText);
+    const column = token ? (lines[line - 1] ?? '').indexOf(token) + 1 : 0;
+    let message = kind === 'token' ? `Unexpected '${token}'` : `Invalid ${kind}${token && ` '${token}'`}`;
+    if (expected) message += `, expected '${expected}'`;
+    return diagnostic(message, { line, column: Math.max(column, 1) });
+  }
+
+  const duplicateName = /^duplicate name '(\w+)' in (.*)$/.exec(error.message);
+  if (duplicateName) {
+    const [, name, scope] = duplicateName;
+    const definition = new RegExp(`\\b(?:message|enum|service|rpc)\\s+${name}\\b`);
+    const field = new RegExp(`\\b${name}\\s*=\\s*-?\\d`);
+    let position = locate(lines, definition, name, true);
+    if (!position.line) position = locate(lines, field, name, true);
+    return diagnostic(`Duplicate name '${name}' in ${scope.replace(/^\w+ \.?/, '')}`, position);
+  }
+
+  const duplicateId = /^(duplicate id|id) (\d+) (?:is reserved )?in (.*)$/.exec(error.message);
+  if (duplicateId) {
+    const [, kind, id, scope] = duplicateId;
+    const position = locate(lines, new RegExp(`=\\s*${id}\\s*[;\\[]`), id, true);
+    const message = kind === 'id' ? `Field number ${id} is reserved` : `Duplicate field number ${id}`;
+    return diagnostic(`${message} in ${scope.replace(/^\w+ \.?/, '')}`, position);
+  }
+
+  const reservedName = /^name '(\w+)' is reserved in (.*)$/.exec(error.message);
+  if (reservedName) {
+    const [, name, scope] = reservedName;
+    const position = locate(lines, new RegExp(`\\b${name}\\s*=\\s*\\d`), name, true);
+    return diagnostic(`Field name '${name}' is reserved in ${scope.replace(/^\w+ \.?/, '')}`, position);
+  }
+
+  return diagnostic(error.message, { line: 0, column: 0 });
+}
+
+// Field and method types that do not resolve, positioned in their source file
+export function unresolvedTypeDiagnostics(root: protobuf.Root, files: ProtoFile[]): ProtoDiagnostic[] {
+  const diagnostics: ProtoDiagnostic[] = [];
+  const sources = new Map(files.map(file => [file.name, stripComments(file.content).split('\n')]));
+
+  const report = (filename: string | null, typeName: string, message: string, anchor: RegExp) => {
+    const lines = filename ? sources.get(filename) : undefined;
+    let position = { line: 0, column: 0 };
+    if (lines) {
+      const start = locate(lines, anchor, '');
+      position = locate(lines, new RegExp(`(?:^|[\\s<,(])(${escapeRegExp(typeName)})\\b`), typeName, false, Math.max(start.line - 1, 0));
+      if (!position.line) position = start;
+    }
+    diagnostics.push({ severity: 'error', message, file: filename || '', ...position });
+  };
+
+  const visit = (namespace: protobuf.NamespaceBase) => {
+    for (const node of namespace.nestedArray) {
+      if (node instanceof protobuf.Type) {
+        for (const field of node.fieldsArray) {
+          try {
+            field.resolve();
+          } catch {
+            report(field.filename, field.type, `Unresolved type '${field.type}' for field '${field.name}' in ${node.fullName.slice(1)}`,
+              new RegExp(`\\b${field.name}\\s*=\\s*\\d`));
+          }
+        }
+      } else if (node instanceof protobuf.Service) {
+        for (const method of node.methodsArray) {
+          for (const typeName of [method.requestType, method.responseType]) {
+            try {
+              node.lookupType(typeName);
+            } catch {
+              report(method.filename || node.filename, typeName, `Unresolved type '${typeName}' in rpc ${node.fullName.slice(1)}.${method.name}`,
+                new RegExp(`\\brpc\\s+${escapeRegExp(method.name)}\\b`));
+            }
+          }
+        }
+      }
+      if (node instanceof protobuf.Namespace) visit(node);
+    }
+  };
+  visit(root);
+
+  return diagnostics;
+}
+
+// Label for a diagnostic position, e.g. "types.proto:12:5"
+export function diagnosticLocation(diagnostic: ProtoDiagnostic): string {
+  if (!diagnostic.line) return diagnostic.file;
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { fromProto3Json } from './protoJson';
+import { buildProtoRoot } from './protoParser';
+
+const root = buildProtoRoot([{
+  name: 'demo.proto',
+  content: `
+    syntax = "proto3";
+    package demo.v1;
+    import "google/protobuf/any.proto";
+    import "google/protobuf/duration.proto";
+    import "google/protobuf/field_mask.proto";
+    import "google/protobuf/struct.proto";
+    import "google/protobuf/timestamp.proto";
+    import "google/protobuf/wrappers.proto";
+
+    message Item { string item_id = 1; google.protobuf.Timestamp added_at = 2; }
+    message Request {
+      google.protobuf.Timestamp created_at = 1;
+      google.protobuf.Duration timeout = 2;
+      google.protobuf.Int64Value limit = 3;
+      google.protobuf.StringValue note = 4;
+      google.protobuf.Struct attributes = 5;
+      google.protobuf.FieldMask update_mask = 6;
+      google.protobuf.Any detail = 7;
+      repeated Item items = 8;
+      map<string, Item> by_id = 9;
+    }
+  `,
+}], '', { keepCase: true });
+const Request = root.lookupType('demo.v1.Request');
+
+describe('fromProto3Json', () => {
+  it('converts timestamps and durations', () => {
+    expect(fromProto3Json(Request, { createdAt: '2024-01-02T15:04:05.5+01:00', timeout: '-1.25s' })).toEqual({
+      created_at: { seconds: '1704204245', nanos: 500000000 },
+      timeout: { seconds: '-1', nanos: -250000000 },
+    });
+  });
+
+  it('unwraps wrapper values and maps lowerCamelCase names', () => {
+    expect(fromProto3Json(Request, { limit: '10', note: 'hi', update_mask: 'itemId,addedAt' })).toEqual({
+      limit: { value: '10' },
+      note: { value: 'hi' },
+      update_mask: { paths: ['item_id', 'added_at'] },
+    });
+  });
+
+  it('converts Struct values as plain JSON', () => {
+    // Field names come from the predefined Struct type, whatever the casing option
+    expect(fromProto3Json(Request, { attributes: { a: 1, b: [true, null], c: { d: 'x' } } })).toEqual({
+      attributes: {
+        fields: {
+          a: { numberValue: 1 },
+          b: { listValue: { values: [{ boolValue: true }, { nullValue: 'NULL_VALUE' }] } },
+          c: { structValue: { fields: { d: { stringValue: 'x' } } } },
+        },
+      },
+    });
+  });
+
+  it('converts messages packed in Any, including well-known types', () => {
+    expect(fromProto3Json(Request, { detail: { '@type': 'type.googleapis.com/demo.v1.Item', itemId: 'a' } })).toEqual({
+      detail: { '@type': 'type.googleapis.com/demo.v1.Item', item_id: 'a' },
+    });
+    expect(fromProto3Json(Request, { detail: { '@type': 'type.googleapis.com/google.protobuf.Duration', value: '2s' } })).toEqual({
+      detail: { '@type': 'type.googleapis.com/google.protobuf.Duration', seconds: '2', nanos: 0 },
+    });
+  });
+
+  it('converts repeated and map fields per message', () => {
+    const at = '2024-01-02T00:00:00Z';
+    expect(fromProto3Json(Request, { items: [{ addedAt: at }], byId: { a: { addedAt: at } } })).toEqual({
+      items: [{ added_at: { seconds: '1704153600', nanos: 0 } }],
+      by_id: { a: { added_at: { seconds: '1704153600', nanos: 0 } } },
+    });
+  });
+
+  it('passes unknown fields and object forms through', () => {
+    const value = { createdAt: { seconds: '1', nanos: 2 }, extra: 1 };
+    expect(fromProto3Json(Request, value)).toEqual({ created_at: { seconds: '1', nanos: 2 }, extra: 1 });
+  });
+
+  it('rejects malformed timestamps and durations', () => {
+    expect(() => fromProto3Json(Request, { createdAt: '2024-01-02' })).toThrow('Invalid google.protobuf.Timestamp "2024-01-02"');
+    expect(() => fromProto3Json(Request, { timeout: '5m' })).toThrow('Invalid google.protobuf.Duration "5m"');
+  });
+});
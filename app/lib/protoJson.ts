@@ -0,0 +1,120 @@
+import protobuf from 'protobufjs';
+
+// Converts request data written in the proto3 JSON mapping into the object
+// form proto-loader serializes: RFC 3339 timestamps, "1.5s" durations,
+// unwrapped wrapper values, Struct/Value/ListValue as plain JSON, FieldMask
+// strings and lowerCamelCase field names. protobufjs only understands Any.
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field name by number, so the converter works with either field casing
+const fieldName = (type: protobuf.Type, id: number) => type.fieldsById[id].name;
+
+const TIMESTAMP_PATTERN = /^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d)(?:\.(\d{1,9}))?(Z|[+-]\d\d:\d\d)$/i;
+const DURATION_PATTERN = /^(-)?(\d+)(?:\.(\d{1,9}))?s$/;
+
+const nanosOf = (fraction: string | undefined) => Number((fraction || '').padEnd(9, '0'));
+
+function toValue(type: protobuf.Type, value: unknown): JsonObject {
+  const structType = type.fieldsById[5].resolvedType as protobuf.Type;
+  const listType = type.fieldsById[6].resolvedType as protobuf.Type;
+  if (value === null) return { [fieldName(type, 1)]: 'NULL_VALUE' };
+  if (typeof value === 'number') return { [fieldName(type, 2)]: value };
+  if (typeof value === 'string') return { [fieldName(type, 3)]: value };
+  if (typeof value === 'boolean') return { [fieldName(type, 4)]: value };
+  if (Array.isArray(value)) return { [fieldName(type, 6)]: WELL_KNOWN['.google.protobuf.ListValue'](listType, value) };
+  return { [fieldName(type, 5)]: WELL_KNOWN['.google.protobuf.Struct'](structType, value) };
+}
+
+const unwrap = (type: protobuf.Type, value: unknown) =>
+  isObject(value) ? value : { [fieldName(type, 1)]: value };
+
+const WELL_KNOWN: Record<string, (type: protobuf.Type, value: unknown) => unknown> = {
+  '.google.protobuf.Timestamp': (type, value) => {
+    if (typeof value !== 'string') return value;
+    const match = TIMESTAMP_PATTERN.exec(value);
+    const millis = match ? Date.parse(match[1] + match[3].toUpperCase()) : NaN;
+    if (isNaN(millis)) throw new Error(`Invalid google.protobuf.Timestamp "${value}", expected RFC 3339 such as "2024-01-02T15:04:05Z"`);
+    return { [fieldName(type, 1)]: String(millis / 1000), [fieldName(type, 2)]: nanosOf(match![2]) };
+  },
+  '.google.protobuf.Duration': (type, value) => {
+    if (typeof value !== 'string') return value;
+    const match = DURATION_PATTERN.exec(value);
+    if (!match) throw new Error(`Invalid google.protobuf.Duration "${value}", expected seconds such as "1.5s"`);
+    const sign = match[1] ? -1 : 1;
+    return { [fieldName(type, 1)]: String(sign * Number(match[2])), [fieldName(type, 2)]: sign * nanosOf(match[3]) };
+  },
+  '.google.protobuf.FieldMask': (type, value) => {
+    if (typeof value !== 'string') return value;
+    const paths = value.split(',').filter(Boolean).map(p => p.replace(/[A-Z]/g, c => '_' + c.toLowerCase()));
+    return { [fieldName(type, 1)]: paths };
+  },
+  '.google.protobuf.Struct': (type, value) => {
+    if (!isObject(value)) return value;
+    const valueType = type.fieldsById[1].resolvedType as protobuf.Type;
+    const fields: JsonObject = {};
+    for (const [key, item] of Object.entries(value)) fields[key] = toValue(valueType, item);
+    return { [fieldName(type, 1)]: fields };
+  },
+  '.google.protobuf.Value': toValue,
+  '.google.protobuf.ListValue': (type, value) => {
+    if (!Array.isArray(value)) return value;
+    const valueType = type.fieldsById[1].resolvedType as protobuf.Type;
+    return { [fieldName(type, 1)]: value.map(item => toValue(valueType, item)) };
+  },
+  '.google.protobuf.Any': (type, value) => {
+    if (!isObject(value) || typeof value['@type'] !== 'string') return value;
+    const typeUrl = value['@type'];
+    const packed = type.root.lookup(typeUrl.slice(typeUrl.lastIndexOf('/') + 1));
+    if (!(packed instanceof protobuf.Type)) return value;
+    // Well-known types with a special JSON form are packed as {"@type", "value"}
+    const fields = { ...value };
+    delete fields['@type'];
+    const converted = packed.fullName in WELL_KNOWN
+      ? WELL_KNOWN[packed.fullName](packed, fields.value)
+      : fromProto3Json(packed, fields);
+    return { '@type': typeUrl, ...(converted as JsonObject) };
+  },
+  '.google.protobuf.DoubleValue': unwrap,
+  '.google.protobuf.FloatValue': unwrap,
+  '.google.protobuf.Int64Value': unwrap,
+  '.google.protobuf.UInt64Value': unwrap,
+  '.google.protobuf.Int32Value': unwrap,
+  '.google.protobuf.UInt32Value': unwrap,
+  '.google.protobuf.BoolValue': unwrap,
+  '.google.protobuf.StringValue': unwrap,
+  '.google.protobuf.BytesValue': unwrap,
+};
+
+function convertField(field: protobuf.Field, value: unknown): unknown {
+  const type = field.resolvedType;
+  // null unsets a message field, except for Value where it is a JSON null
+  if (!(type instanceof protobuf.Type) || (value === null && type.fullName !== '.google.protobuf.Value')) return value;
+  if (field.map && isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromProto3Json(type, item)]));
+  }
+  if (field.repeated && Array.isArray(value)) {
+    return value.map(item => fromProto3Json(type, item));
+  }
+  return fromProto3Json(type, value);
+}
+
+// Convert one message; unknown fields are passed through untouched
+export function fromProto3Json(type: protobuf.Type, value: unknown): unknown {
+  if (type.fullName in WELL_KNOWN) return WELL_KNOWN[type.fullName](type, value);
+  if (!isObject(value)) return value;
+
+  const message: JsonObject = {};
+  for (const [key, item] of Object.entries(value)) {
+    const field = type.fields[key] ?? type.fieldsArray.find(f => protobuf.util.camelCase(f.name) === key);
+    if (field) {
+      message[field.name] = convertField(field, item);
+    } else {
+      message[key] = item;
+    }
+  }
+  return message;
+}
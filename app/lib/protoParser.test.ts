@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonc } from './jsonc';
+import { parseProtoContent } from './protoParser';
+
+const parsed = parseProtoContent(`
+syntax = "proto3";
+package demo.v1;
+message Node { string id = 1; Node parent = 2; repeated Node children = 3; }
+message Req {
+  oneof target { string name = 1; int64 id = 2; }
+  optional string note = 3;
+  map<string, int32> counts = 4;
+  Node root = 5;
+  Kind kind = 6;
+}
+enum Kind { KIND_UNSPECIFIED = 0; KIND_A = 1; }
+message Other { message Req { bool x = 1; } }
+service S { rpc Go (Req) returns (Other.Req); }
+`);
+
+describe('parseProtoContent request templates', () => {
+  it('name request types by their full name', () => {
+    expect(parsed.services).toEqual([{
+      name: 'demo.v1.S',
+      methods: [{ name: 'Go', requestType: 'demo.v1.Req', requestStream: false, responseStream: false }],
+    }]);
+  });
+
+  it('key defaults by full name so same-named messages do not collide', () => {
+    expect(parsed.messageDefaults['demo.v1.Other.Req']).toEqual({ x: false });
+    expect(parsed.messageDefaults['demo.v1.Req']).toHaveProperty('kind', 'KIND_UNSPECIFIED');
+  });
+
+  it('fill in one member per oneof, empty maps and one level of recursion', () => {
+    expect(parsed.messageDefaults['demo.v1.Req']).toEqual({
+      name: '',
+      note: '',
+      counts: {},
+      root: { id: '', parent: null, children: [] },
+      kind: 'KIND_UNSPECIFIED',
+    });
+  });
+
+  it('explain oneofs and recursion in comments that parse away', () => {
+    const template = parsed.messageTemplates['demo.v1.Req'];
+
+    expect(template).toContain('  // oneof target: set only one of name, id\n  "name": ""');
+    expect(template).toContain('    // Node is recursive: replace null with an object to nest another level\n    "parent": null');
+    expect(parseJsonc(template)).toEqual(parsed.messageDefaults['demo.v1.Req']);
+  });
+
+  it('do not share well-known defaults between messages', () => {
+    const { messageDefaults } = parseProtoContent(`
+      syntax = "proto3";
+      import "google/protobuf/struct.proto";
+      message A { google.protobuf.Struct s = 1; }
+      message B { google.protobuf.Struct s = 1; }
+    `);
+
+    expect(messageDefaults.A.s).not.toBe(messageDefaults.B.s);
+  });
+});
@@ -1,9 +1,26 @@
 
 import protobuf from 'protobufjs';
+import * as descriptor from 'protobufjs/ext/descriptor';
+import { importPathOf, ProtoFile } from './protoBundle';
+import { createWellKnownRoot, isWellKnownProto } from './wellKnownTypes';
+import { parseErrorDiagnostic, ProtoDiagnostic, scanProtoSource, unresolvedTypeDiagnostics } from './protoDiagnostics';
+import { describeSchema, EMPTY_SCHEMA, ProtoSchema } from './protoSchema';
 
 export interface MethodDefinition {
   name: string;
-  requestType: string;
+  requestType: string; // fully qualified, e.g. "mypackage.MyRequest"
+  requestStream: boolean;
+  responseStream: boolean;
+}
+
+export type MethodKind = 'unary' | 'server-stream' | 'client-stream' | 'bidi-stream';
+
+// Derive the gRPC call kind from the stream flags of a method
+export function getMethodKind(method: { requestStream?: boolean; responseStream?: boolean }): MethodKind {
+  if (method.requestStream && method.responseStream) return 'bidi-stream';
+  if (method.requestStream) return 'client-stream';
+  if (method.responseStream) return 'server-stream';
+  return 'unary';
 }
 
 export interface ServiceDefinition {
@@ -13,122 +30,228 @@ export interface ServiceDefinition {
 
 export interface ParsedProto {
   services: ServiceDefinition[];
-  messageDefaults: Record<string, any>;
+  messageDefaults: Record<string, any>; // keyed by fully qualified name
+  messageTemplates: Record<string, string>; // messageDefaults as commented JSON for the data editor
+  schema: ProtoSchema; // field types, for checking request data
+  diagnostics: ProtoDiagnostic[];
 }
 
+// Proto3 JSON defaults for scalars; 64-bit integers are strings and bytes base64
+function scalarDefault(type: string): string | number | boolean | null {
+  switch (type) {
+    case 'string':
+    case 'bytes': return "";
+    case 'bool': return false;
+    case 'double':
+    case 'float':
+    case 'int32':
+    case 'uint32':
+    case 'sint32':
+    case 'fixed32':
+    case 'sfixed32': return 0;
+    case 'int64':
+    case 'uint64':
+    case 'sint64':
+    case 'fixed64':
+    case 'sfixed64': return "0";
+    default: return null;
+  }
+}
+
+// Well-known types with a special proto3 JSON representation
+const WELL_KNOWN_JSON_DEFAULTS: Record<string, unknown> = {
+  '.google.protobuf.Timestamp': '1970-01-01T00:00:00Z',
+  '.google.protobuf.Duration': '0s',
+  '.google.protobuf.FieldMask': '',
+  '.google.protobuf.Empty': {},
+  '.google.protobuf.Struct': {},
+  '.google.protobuf.Value': null,
+  '.google.protobuf.ListValue': [],
+  '.google.protobuf.Any': {},
+  '.google.protobuf.DoubleValue': scalarDefault('double'),
+  '.google.protobuf.FloatValue': scalarDefault('float'),
+  '.google.protobuf.Int64Value': scalarDefault('int64'),
+  '.google.protobuf.UInt64Value': scalarDefault('uint64'),
+  '.google.protobuf.Int32Value': scalarDefault('int32'),
+  '.google.protobuf.UInt32Value': scalarDefault('uint32'),
+  '.google.protobuf.BoolValue': scalarDefault('bool'),
+  '.google.protobuf.StringValue': scalarDefault('string'),
+  '.google.protobuf.BytesValue': scalarDefault('bytes'),
+};
+
 export function parseProtoContent(content: string): ParsedProto {
-  try {
-    const root = new protobuf.Root();
-
-    // Pre-define common google types using a string parse to avoid object construction issues
-    const commonProto = `
-      syntax = "proto3";
-      package google.protobuf;
-      message Empty {}
-      message Timestamp { int64 seconds = 1; int32 nanos = 2; }
-      message Duration { int64 seconds = 1; int32 nanos = 2; }
-      message DoubleValue { double value = 1; }
-      message FloatValue { float value = 1; }
-      message Int64Value { int64 value = 1; }
-      message UInt64Value { uint64 value = 1; }
-      message Int32Value { int32 value = 1; }
-      message UInt32Value { uint32 value = 1; }
-      message BoolValue { bool value = 1; }
-      message StringValue { string value = 1; }
-      message BytesValue { bytes value = 1; }
-    `;
-
-    protobuf.parse(commonProto, root);
-
-    // Parse with the pre-filled root
-    // options: { keepCase: true } ?
-    protobuf.parse(content, root);
-
-    const services: ServiceDefinition[] = [];
-    const messageDefaults: Record<string, any> = {};
-
-    // Helper to generate default values for a message type
-    function getMessageDefaults(type: protobuf.Type): any {
-      const defaults: any = {};
-      type.fieldsArray.forEach(field => {
-        if (field.repeated) {
-          defaults[field.name] = [];
-        } else if (field.resolvedType instanceof protobuf.Type) {
-          // Nested message
-          defaults[field.name] = getMessageDefaults(field.resolvedType);
-        } else if (field.resolvedType instanceof protobuf.Enum) {
-          // Enum default
-          const keys = Object.keys(field.resolvedType.values);
-          // Usually first is default, or 0
-          defaults[field.name] = keys.length > 0 ? keys[0] : 0;
-        } else {
-          // Scalar types
-          switch (field.type) {
-            case 'string': defaults[field.name] = ""; break;
-            case 'bool': defaults[field.name] = false; break;
-            case 'double':
-            case 'float':
-            case 'int32':
-            case 'uint32':
-            case 'sint32':
-            case 'fixed32':
-            case 'sfixed32':
-            case 'int64':
-            case 'uint64':
-            case 'sint64':
-            case 'fixed64':
-            case 'sfixed64': defaults[field.name] = 0; break;
-            default: defaults[field.name] = null; break;
-          }
-        }
-      });
-      return defaults;
+  return parseProtoBundle([{ name: 'service.proto', content }]);
+}
+
+// Parse several files into one root so imports between them resolve.
+// Problems are reported as diagnostics; services are only listed without errors.
+export function parseProtoBundle(files: ProtoFile[], includeRoot = ''): ParsedProto {
+  const userFiles = files.filter(file => !isWellKnownProto(importPathOf(file.name, includeRoot)));
+  const bundleNames = new Set(files.map(file => file.name));
+  const diagnostics = userFiles.flatMap(file => scanProtoSource(file, bundleNames, includeRoot));
+  const failed = () => ({ services: [], messageDefaults: {}, messageTemplates: {}, schema: EMPTY_SCHEMA, diagnostics });
+
+  // Field names stay as declared, the way the runner loads them
+  const root = createWellKnownRoot({ keepCase: true });
+  for (const file of userFiles) {
+    // Tags parsed objects with their file; protobufjs resets it after each parse
+    (protobuf.parse as typeof protobuf.parse & { filename: string | null }).filename = file.name;
+    try {
+      protobuf.parse(file.content, root, { keepCase: true });
+    } catch (e) {
+      diagnostics.push(parseErrorDiagnostic(e as Error, file));
     }
+  }
+  if (diagnostics.some(d => d.severity === 'error')) return failed();
+
+  diagnostics.push(...unresolvedTypeDiagnostics(root, userFiles));
+  if (diagnostics.some(d => d.severity === 'error')) return failed();
 
-    // First pass mainly to resolve types if needed, but protobufjs does it internally usually if we call resolveAll
+  try {
     root.resolveAll();
+    return { ...describeRoot(root), diagnostics };
+  } catch (e) {
+    diagnostics.push({ severity: 'error', message: (e as Error).message, file: '', line: 0, column: 0 });
+    return failed();
+  }
+}
 
-    function visit(node: any, path: string) {
-      if (node instanceof protobuf.Service) {
-        services.push({
-          name: path.slice(0, -1),
-          methods: node.methodsArray.map((m: any) => ({
-            name: m.name,
-            requestType: m.requestType
-          }))
-        });
-      } else if (node.nested) {
-        Object.keys(node.nested).forEach(key => {
-          visit(node.nested[key], path + key + ".");
-        });
-      }
-    }
+// Same as parseProtoContent, for a base64 FileDescriptorSet fetched via server reflection
+export function parseDescriptorSet(base64: string): ParsedProto {
+  try {
+    return { ...describeRoot(descriptorSetRoot(Uint8Array.from(atob(base64), c => c.charCodeAt(0)))), diagnostics: [] };
+  } catch (e) {
+    const diagnostic: ProtoDiagnostic = { severity: 'error', message: (e as Error).message, file: 'reflection', line: 0, column: 0 };
+    return { services: [], messageDefaults: {}, messageTemplates: {}, schema: EMPTY_SCHEMA, diagnostics: [diagnostic] };
+  }
+}
+
+// Resolved root for a bundle of proto files. Throws on syntax errors and unresolved types.
+export function buildProtoRoot(files: ProtoFile[], includeRoot = '', options?: protobuf.IParseOptions): protobuf.Root {
+  // Well-known google/protobuf, google/api and google/rpc types are predefined
+  const root = createWellKnownRoot(options);
+
+  // Parse with the pre-filled root
+  for (const file of files) {
+    if (isWellKnownProto(importPathOf(file.name, includeRoot))) continue;
+    protobuf.parse(file.content, root, options);
+  }
+  root.resolveAll();
+  return root;
+}
+
+// Resolved root for an encoded google.protobuf.FileDescriptorSet
+export function descriptorSetRoot(bytes: Uint8Array): protobuf.Root {
+  // fromDescriptor is installed by protobufjs/ext/descriptor but missing from its typings
+  const root = (protobuf.Root as unknown as { fromDescriptor(set: unknown): protobuf.Root })
+    .fromDescriptor(descriptor.FileDescriptorSet.decode(bytes));
+  root.resolveAll();
+  return root;
+}
 
-    visit(root, "");
+function describeRoot(root: protobuf.Root): Omit<ParsedProto, 'diagnostics'> {
+  const services: ServiceDefinition[] = [];
+  const messageDefaults: Record<string, any> = {};
+  const messageTemplates: Record<string, string> = {};
+  // Comments to print above keys of generated default objects
+  const comments = new WeakMap<object, Map<string, string>>();
 
-    // Generate defaults for all types found in services
-    // Better strategy: Just iterate all types in root? Or lazily?
-    // Let's iterate all nested types to build the dictionary
-    function collectTypes(node: any) {
-      if (node instanceof protobuf.Type) {
-        messageDefaults[node.name] = getMessageDefaults(node);
-        // Also store key with full path if needed?
-        // protobufjs .resolveType usage in lookup
+  // Helper to generate default values for a message type, following the
+  // proto3 JSON mapping (64-bit ints as strings, RFC 3339 timestamps, ...)
+  const inProgress = new Set<protobuf.Type>();
+  function getMessageDefaults(type: protobuf.Type): any {
+    if (type.fullName in WELL_KNOWN_JSON_DEFAULTS) {
+      return structuredClone(WELL_KNOWN_JSON_DEFAULTS[type.fullName]);
+    }
+    inProgress.add(type);
+
+    const defaults: any = {};
+    const notes = new Map<string, string>();
+    type.fieldsArray.forEach(field => {
+      // Only the first member of a oneof is filled in; proto3 `optional`
+      // fields sit in a synthetic single-member oneof and are left alone
+      const oneof = field.partOf;
+      if (oneof && oneof.fieldsArray.length > 1) {
+        if (oneof.fieldsArray[0] !== field) return;
+        notes.set(field.name, `oneof ${oneof.name}: set only one of ${oneof.fieldsArray.map(f => f.name).join(', ')}`);
       }
-      if (node.nested) {
-        Object.keys(node.nested).forEach(key => collectTypes(node.nested[key]));
+
+      if (field.map) {
+        defaults[field.name] = {};
+      } else if (field.repeated) {
+        defaults[field.name] = [];
+      } else if (field.resolvedType instanceof protobuf.Type) {
+        if (inProgress.has(field.resolvedType)) {
+          // Recursive message (e.g. a tree node): stop here instead of nesting forever
+          defaults[field.name] = null;
+          notes.set(field.name, `${field.resolvedType.name} is recursive: replace null with an object to nest another level`);
+        } else {
+          // Nested message
+          defaults[field.name] = getMessageDefaults(field.resolvedType);
+        }
+      } else if (field.resolvedType instanceof protobuf.Enum) {
+        // Enum default
+        const keys = Object.keys(field.resolvedType.values);
+        // Usually first is default, or 0
+        defaults[field.name] = keys.length > 0 ? keys[0] : 0;
+      } else {
+        defaults[field.name] = scalarDefault(field.type);
       }
+    });
+
+    inProgress.delete(type);
+    if (notes.size > 0) comments.set(defaults, notes);
+    return defaults;
+  }
+
+  // JSON with `//` comment lines above annotated keys
+  function stringifyTemplate(value: unknown, indent = ''): string {
+    if (value === null || typeof value !== 'object' || Array.isArray(value) || Object.keys(value).length === 0) {
+      return JSON.stringify(value);
     }
-    collectTypes(root);
+    const notes = comments.get(value);
+    const inner = indent + '  ';
+    const entries = Object.entries(value).map(([key, item]) => {
+      const note = notes?.get(key);
+      return (note ? `${inner}// ${note}\n` : '') + `${inner}${JSON.stringify(key)}: ${stringifyTemplate(item, inner)}`;
+    });
+    return `{\n${entries.join(',\n')}\n${indent}}`;
+  }
 
-    // Fallback: Ensure we can lookup by simple name if unique, 
-    // but correctly we should use what the method definition says (usually simple name if in same package, or FQN)
+  function visit(node: any, path: string) {
+    if (node instanceof protobuf.Service) {
+      services.push({
+        name: path.slice(0, -1),
+        methods: node.methodsArray.map((m: protobuf.Method) => ({
+          name: m.name,
+          // Resolved relative to the service's package, without the leading dot
+          requestType: m.resolvedRequestType?.fullName.slice(1) ?? m.requestType,
+          requestStream: !!m.requestStream,
+          responseStream: !!m.responseStream
+        }))
+      });
+    } else if (node.nested) {
+      Object.keys(node.nested).forEach(key => {
+        visit(node.nested[key], path + key + ".");
+      });
+    }
+  }
 
-    // Let's refine the messageDefaults to address FQN
-    // But for now, simple name matching might suffice or we do a lookup when we parse the method.
+  visit(root, "");
 
-    return { services, messageDefaults };
-  } catch {
-    return { services: [], messageDefaults: {} };
+  // Defaults and templates for every message, keyed by fully qualified name
+  // (e.g. "mypackage.MyRequest") so same-named messages do not collide
+  function collectTypes(node: any) {
+    if (node instanceof protobuf.Type) {
+      const name = node.fullName.slice(1);
+      messageDefaults[name] = getMessageDefaults(node);
+      messageTemplates[name] = stringifyTemplate(messageDefaults[name], '');
+    }
+    if (node.nested) {
+      Object.keys(node.nested).forEach(key => collectTypes(node.nested[key]));
+    }
   }
+  collectTypes(root);
+
+  return { services, messageDefaults, messageTemplates, schema: describeSchema(root) };
 }
@@ -0,0 +1,60 @@
+import protobuf from 'protobufjs';
+
+// Plain description of the message types in a proto root, enough to check
+// request data and suggest field names without keeping protobufjs objects around
+
+export interface FieldSchema {
+  name: string; // as declared in the .proto
+  jsonName: string; // lowerCamelCase form, accepted as well
+  kind: 'scalar' | 'enum' | 'message';
+  type: string; // scalar type, or the fully qualified enum/message name
+  repeated: boolean;
+  keyType?: string; // key type of map fields
+  oneof?: string; // oneof the field belongs to (not the synthetic one of proto3 `optional`)
+}
+
+export interface ProtoSchema {
+  messages: Record<string, FieldSchema[]>; // keyed by fully qualified name
+  enums: Record<string, Record<string, number>>; // value numbers by name
+}
+
+export const EMPTY_SCHEMA: ProtoSchema = { messages: {}, enums: {} };
+
+// json_name as protoc derives it: drop underscores, capitalize the next letter
+export const jsonNameOf = (name: string) => name.replace(/_+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''));
+
+// Find a field by its declared or JSON name
+export function findField(fields: FieldSchema[], key: string): FieldSchema | undefined {
+  return fields.find(f => f.name === key) ?? fields.find(f => f.jsonName === key);
+}
+
+function describeField(field: protobuf.Field): FieldSchema {
+  const resolved = field.resolvedType;
+  const oneof = field.partOf;
+  return {
+    name: field.name,
+    jsonName: jsonNameOf(field.name),
+    kind: resolved instanceof protobuf.Type ? 'message' : resolved instanceof protobuf.Enum ? 'enum' : 'scalar',
+    type: resolved ? resolved.fullName.slice(1) : field.type,
+    repeated: field.repeated,
+    ...(field instanceof protobuf.MapField && { keyType: field.keyType }),
+    ...(oneof && oneof.fieldsArray.length > 1 && { oneof: oneof.name }),
+  };
+}
+
+// Schema of every message and enum in a resolved root
+export function describeSchema(root: protobuf.Root): ProtoSchema {
+  const schema: ProtoSchema = { messages: {}, enums: {} };
+  const visit = (namespace: protobuf.NamespaceBase) => {
+    for (const node of namespace.nestedArray) {
+      if (node instanceof protobuf.Type) {
+        schema.messages[node.fullName.slice(1)] = node.fieldsArray.map(describeField);
+      } else if (node instanceof protobuf.Enum) {
+        schema.enums[node.fullName.slice(1)] = { ...node.values };
+      }
+      if (node instanceof protobuf.Namespace) visit(node);
+    }
+  };
+  visit(root);
+  return schema;
+}
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import protobuf from 'protobufjs';
+import * as descriptor from 'protobufjs/ext/descriptor';
+import { buildChannelSetup } from './grpcCredentials';
+import { fetchReflectedDescriptors } from './reflection';
+
+// The reflection messages as the server side sees them
+const root = protobuf.Root.fromJSON({
+  nested: {
+    Request: {
+      fields: {
+        fileByFilename: { type: 'string', id: 3 },
+        fileContainingSymbol: { type: 'string', id: 4 },
+        listServices: { type: 'string', id: 7 },
+      },
+    },
+    Response: {
+      fields: {
+        fileDescriptorResponse: { type: 'FileDescriptorResponse', id: 4 },
+        listServicesResponse: { type: 'ListServiceResponse', id: 6 },
+      },
+    },
+    FileDescriptorResponse: { fields: { fileDescriptorProto: { rule: 'repeated', type: 'bytes', id: 1 } } },
+    ListServiceResponse: { fields: { service: { rule: 'repeated', type: 'ServiceResponse', id: 1 } } },
+    ServiceResponse: { fields: { name: { type: 'string', id: 1 } } },
+  },
+});
+const Request = root.lookupType('Request');
+const Response = root.lookupType('Response');
+
+const fileBytes = (file: object) => descriptor.FileDescriptorProto.encode(file).finish();
+const FILES: Record<string, Uint8Array> = {
+  'echo.proto': fileBytes({
+    name: 'echo.proto',
+    package: 'test.v1',
+    dependency: ['common.proto'],
+    service: [{ name: 'Echo', method: [{ name: 'Say', inputType: '.test.v1.Ping', outputType: '.test.v1.Ping' }] }],
+  }),
+  'common.proto': fileBytes({
+    name: 'common.proto',
+    package: 'test.v1',
+    messageType: [{ name: 'Ping', field: [{ name: 'message', number: 1, type: 9, label: 1 }] }],
+  }),
+};
+
+let server: grpc.Server;
+let address: string;
+// authorization metadata of each reflection stream
+const seenAuth: string[] = [];
+
+beforeAll(async () => {
+  const passThrough = (bytes: Buffer) => bytes;
+  server = new grpc.Server();
+  // Only v1alpha, so the client has to fall back from v1
+  server.addService({
+    Info: {
+      path: '/grpc.reflection.v1alpha.ServerReflection/ServerReflectionInfo',
+      requestStream: true,
+      responseStream: true,
+      requestSerialize: passThrough,
+      requestDeserialize: passThrough,
+      responseSerialize: passThrough,
+      responseDeserialize: passThrough,
+    },
+  }, {
+    Info: (call: grpc.ServerDuplexStream<Buffer, Buffer>) => {
+      seenAuth.push(String(call.metadata.get('authorization')[0] ?? ''));
+      call.on('data', (bytes: Buffer) => {
+        const request = Request.toObject(Request.decode(bytes)) as { listServices?: string; fileByFilename?: string; fileContainingSymbol?: string };
+        let response: object;
+        if (request.listServices !== undefined) {
+          response = { listServicesResponse: { service: [{ name: 'test.v1.Echo' }, { name: 'grpc.reflection.v1alpha.ServerReflection' }] } };
+        } else if (request.fileContainingSymbol === 'test.v1.Echo') {
+          response = { fileDescriptorResponse: { fileDescriptorProto: [FILES['echo.proto']] } };
+        } else {
+          response = { fileDescriptorResponse: { fileDescriptorProto: [FILES[request.fileByFilename!]] } };
+        }
+        call.write(Buffer.from(Response.encode(Response.fromObject(response)).finish()));
+      });
+      call.on('end', () => call.end());
+    },
+  });
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, port) => (error ? reject(error) : resolve(port)));
+  });
+  address = `127.0.0.1:${port}`;
+});
+
+afterAll(() => {
+  server.forceShutdown();
+});
+
+describe('fetchReflectedDescriptors', () => {
+  it('lists the services and fetches their files with dependencies', async () => {
+    const { services, descriptorSet } = await fetchReflectedDescriptors(address, buildChannelSetup(null));
+
+    expect(services).toEqual(['test.v1.Echo']);
+    const set = descriptor.FileDescriptorSet.decode(descriptorSet) as unknown as { file: { name: string }[] };
+    expect(set.file.map(f => f.name)).toEqual(['echo.proto', 'common.proto']);
+  });
+
+  it('sends the metadata with the reflection calls', async () => {
+    seenAuth.length = 0;
+    await fetchReflectedDescriptors(address, buildChannelSetup(null), { authorization: 'Bearer t0ken' });
+
+    // The v1 attempt is rejected before reaching a handler, so only v1alpha is seen
+    expect(seenAuth).toEqual(['Bearer t0ken']);
+  });
+
+  it('reports a target without reflection', async () => {
+    const plain = new grpc.Server();
+    const port = await new Promise<number>((resolve, reject) => {
+      plain.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, port) => (error ? reject(error) : resolve(port)));
+    });
+    try {
+      await expect(fetchReflectedDescriptors(`127.0.0.1:${port}`, buildChannelSetup(null)))
+        .rejects.toThrow('Server reflection is not enabled');
+    } finally {
+      await new Promise(resolve => plain.tryShutdown(resolve));
+    }
+  });
+});
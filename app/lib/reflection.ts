@@ -0,0 +1,168 @@
+import * as grpc from '@grpc/grpc-js';
+import protobuf from 'protobufjs';
+import * as descriptor from 'protobufjs/ext/descriptor';
+import type { ChannelSetup } from './grpcCredentials';
+
+// Message layout of grpc.reflection.v1 (identical in v1alpha), camelCased by protobufjs
+const reflectionRoot = protobuf.Root.fromJSON({
+  nested: {
+    ServerReflectionRequest: {
+      oneofs: { messageRequest: { oneof: ['fileByFilename', 'fileContainingSymbol', 'listServices'] } },
+      fields: {
+        host: { type: 'string', id: 1 },
+        fileByFilename: { type: 'string', id: 3 },
+        fileContainingSymbol: { type: 'string', id: 4 },
+        listServices: { type: 'string', id: 7 },
+      },
+    },
+    ServerReflectionResponse: {
+      fields: {
+        validHost: { type: 'string', id: 1 },
+        fileDescriptorResponse: { type: 'FileDescriptorResponse', id: 4 },
+        listServicesResponse: { type: 'ListServiceResponse', id: 6 },
+        errorResponse: { type: 'ErrorResponse', id: 7 },
+      },
+    },
+    FileDescriptorResponse: { fields: { fileDescriptorProto: { rule: 'repeated', type: 'bytes', id: 1 } } },
+    ListServiceResponse: { fields: { service: { rule: 'repeated', type: 'ServiceResponse', id: 1 } } },
+    ServiceResponse: { fields: { name: { type: 'string', id: 1 } } },
+    ErrorResponse: { fields: { errorCode: { type: 'int32', id: 1 }, errorMessage: { type: 'string', id: 2 } } },
+  },
+});
+
+const RequestType = reflectionRoot.lookupType('ServerReflectionRequest');
+const ResponseType = reflectionRoot.lookupType('ServerReflectionResponse');
+
+const REFLECTION_PATHS = [
+  '/grpc.reflection.v1.ServerReflection/ServerReflectionInfo',
+  '/grpc.reflection.v1alpha.ServerReflection/ServerReflectionInfo',
+];
+
+interface ReflectionRequest {
+  fileByFilename?: string;
+  fileContainingSymbol?: string;
+  listServices?: string;
+}
+
+interface ReflectionResponse {
+  fileDescriptorResponse?: { fileDescriptorProto: Uint8Array[] };
+  listServicesResponse?: { service: { name: string }[] };
+  errorResponse?: { errorCode: number; errorMessage: string };
+}
+
+export interface ReflectedDescriptors {
+  services: string[];
+  descriptorSet: Uint8Array; // encoded google.protobuf.FileDescriptorSet
+}
+
+// One ServerReflectionInfo stream; requests are answered in order
+function openReflectionStream(client: grpc.Client, methodPath: string, metadata: grpc.Metadata, deadline: number) {
+  const call = client.makeBidiStreamRequest<ReflectionRequest, ReflectionResponse>(
+    methodPath,
+    (message) => Buffer.from(RequestType.encode(RequestType.fromObject(message)).finish()),
+    (buffer) => ResponseType.toObject(ResponseType.decode(buffer), { defaults: true }) as ReflectionResponse,
+    metadata,
+    { deadline }
+  );
+
+  const pending: { resolve: (r: ReflectionResponse) => void; reject: (e: Error) => void }[] = [];
+  let failure: Error | null = null;
+  call.on('data', (response: ReflectionResponse) => pending.shift()?.resolve(response));
+  call.on('error', (err: Error) => {
+    failure = err;
+    pending.splice(0).forEach(p => p.reject(err));
+  });
+  call.on('end', () => {
+    failure = failure || new Error('Reflection stream closed by the server');
+    pending.splice(0).forEach(p => p.reject(failure!));
+  });
+
+  return {
+    request(message: ReflectionRequest): Promise<ReflectionResponse> {
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => {
+        pending.push({ resolve, reject });
+        call.write(message);
+      });
+    },
+    close() {
+      call.end();
+    },
+  };
+}
+
+async function reflectWith(
+  client: grpc.Client,
+  methodPath: string,
+  metadata: grpc.Metadata,
+  deadline: number
+): Promise<ReflectedDescriptors> {
+  const stream = openReflectionStream(client, methodPath, metadata, deadline);
+  try {
+    const listed = await stream.request({ listServices: '' });
+    if (listed.errorResponse) throw new Error(listed.errorResponse.errorMessage);
+    const services = (listed.listServicesResponse?.service || [])
+      .map(s => s.name)
+      .filter(name => !name.startsWith('grpc.reflection.'));
+
+    // Files keyed by name; dependencies are fetched until the set is closed
+    const files = new Map<string, Uint8Array>();
+    const missing: string[] = [];
+    const addFiles = (response: ReflectionResponse) => {
+      if (response.errorResponse) throw new Error(response.errorResponse.errorMessage);
+      for (const bytes of response.fileDescriptorResponse?.fileDescriptorProto || []) {
+        const file = descriptor.FileDescriptorProto.decode(bytes) as unknown as { name: string; dependency: string[] };
+        if (files.has(file.name)) continue;
+        files.set(file.name, bytes);
+        missing.push(...file.dependency);
+      }
+    };
+
+    for (const service of services) {
+      addFiles(await stream.request({ fileContainingSymbol: service }));
+    }
+    while (missing.length > 0) {
+      const name = missing.shift()!;
+      if (!files.has(name)) addFiles(await stream.request({ fileByFilename: name }));
+    }
+
+    // FileDescriptorSet: repeated FileDescriptorProto file = 1
+    const writer = protobuf.Writer.create();
+    for (const bytes of files.values()) writer.uint32(10).bytes(bytes);
+    return { services, descriptorSet: writer.finish() };
+  } finally {
+    stream.close();
+  }
+}
+
+// List services and fetch their file descriptors over gRPC server reflection,
+// trying grpc.reflection.v1 first and falling back to v1alpha. The metadata
+// goes with every reflection call, for targets that require it (e.g. auth).
+export async function fetchReflectedDescriptors(
+  address: string,
+  channelSetup: ChannelSetup,
+  metadata: Record<string, string> = {},
+  timeoutMs = 10000
+): Promise<ReflectedDescriptors> {
+  const client = new grpc.Client(address, channelSetup.credentials, channelSetup.options);
+  const grpcMetadata = new grpc.Metadata();
+  for (const [key, value] of Object.entries(metadata)) {
+    grpcMetadata.add(key, value);
+  }
+  const deadline = Date.now() + timeoutMs;
+
+  try {
+    let lastError: Error | null = null;
+    for (const methodPath of REFLECTION_PATHS) {
+      try {
+        return await reflectWith(client, methodPath, grpcMetadata, deadline);
+      } catch (e) {
+        lastError = e as Error;
+        if ((e as grpc.ServiceError).code !== grpc.status.UNIMPLEMENTED) throw e;
+      }
+    }
+    throw new Error(`Server reflection is not enabled on ${address}: ${lastError?.message}`);
+  } finally {
+    client.close();
+  }
+}
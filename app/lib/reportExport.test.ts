@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { RunReport } from './loadRunner';
+import { exportReport, toCsv, toGhzJson, toInfluxDetails, toInfluxSummary, toJUnit, toPrometheus } from './reportExport';
+
+const report: RunReport = {
+  date: '2026-01-01T00:00:01.000Z',
+  options: { call: 'demo.v1.Echo.Say', host: 'localhost:50051', concurrency: 2, total: 3, rps: 10 },
+  endReason: 'normal',
+  count: 3,
+  total: 1e9,
+  average: 2e6,
+  fastest: 1e6,
+  slowest: 3e6,
+  rps: 3,
+  callType: 'unary',
+  errorDist: { 'bad "input", really': 1 },
+  statusCodeDistribution: { OK: 2, INVALID_ARGUMENT: 1 },
+  latencyDistribution: [{ percentage: 50, latency: 2e6 }, { percentage: 95, latency: 3e6 }, { percentage: 99, latency: 3e6 }],
+  histogram: [{ mark: 0.002, count: 2, frequency: 2 / 3 }, { mark: 0.003, count: 1, frequency: 1 / 3 }],
+  details: [
+    { latency: 1e6, error: '', status: 'OK' },
+    { latency: 2e6, error: '', status: 'OK' },
+    { latency: 3e6, error: 'bad "input", really', status: 'InvalidArgument' },
+  ],
+};
+
+describe('toGhzJson', () => {
+  it('names the error distribution as ghz does', () => {
+    const json = JSON.parse(toGhzJson(report));
+
+    expect(json.errorDistribution).toEqual(report.errorDist);
+    expect(json).not.toHaveProperty('errorDist');
+    expect(json.options.call).toBe('demo.v1.Echo.Say');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes one quoted line per call', () => {
+    expect(toCsv(report)).toBe([
+      'duration (ms),status,error',
+      '1.00,OK,',
+      '2.00,OK,',
+      '3.00,InvalidArgument,"bad ""input"", really"',
+      '',
+    ].join('\n'));
+  });
+
+  it('adds message counts for streaming calls', () => {
+    const streaming = { ...report, details: [{ latency: 1e6, error: '', status: 'OK', sent: 3, received: 1 }] };
+    expect(toCsv(streaming)).toBe('duration (ms),status,error,sent,received\n1.00,OK,,3,1\n');
+  });
+});
+
+describe('InfluxDB line protocol', () => {
+  it('writes the summary point with escaped tags at the report time', () => {
+    const line = toInfluxSummary({ ...report, options: { ...report.options!, host: 'my host' } });
+
+    expect(line).toBe(
+      'ghz_run,call=demo.v1.Echo.Say,host=my\\ host,n=3,c=2,z=0,rps=10,end_reason=normal '
+      + 'count=3,total=1000000000,average=2000000,fastest=1000000,slowest=3000000,rps=3,median=2000000,p95=3000000,'
+      + 'p99=3000000,errors=1,has_errors=true 1767225601000000000\n'
+    );
+  });
+
+  it('writes one detail point per call from the run start', () => {
+    const lines = toInfluxDetails(report).trim().split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe(
+      'ghz_detail,call=demo.v1.Echo.Say,host=localhost:50051,n=3,c=2,z=0,rps=10,end_reason=normal '
+      + 'latency=3000000,error="bad \\"input\\", really",status="InvalidArgument" 1767225600000000002'
+    );
+  });
+});
+
+describe('toPrometheus', () => {
+  it('writes gauges, quantiles, a cumulative histogram and status codes', () => {
+    const text = toPrometheus(report);
+    const base = 'call="demo.v1.Echo.Say",host="localhost:50051"';
+
+    expect(text).toContain(`ghz_run_count{${base}} 3\n`);
+    expect(text).toContain(`ghz_run_average_seconds{${base}} 0.002\n`);
+    expect(text).toContain(`ghz_run_latency_seconds{${base},quantile="0.95"} 0.003\n`);
+    expect(text).toContain(`ghz_run_histogram_seconds_bucket{${base},le="0.003"} 3\n`);
+    expect(text).toContain(`ghz_run_histogram_seconds_bucket{${base},le="+Inf"} 3\n`);
+    expect(text).toContain(`ghz_run_status_codes{${base},code="INVALID_ARGUMENT"} 1\n`);
+  });
+});
+
+describe('toJUnit', () => {
+  it('fails a test case per status code other than OK', () => {
+    const xml = toJUnit([{ report }, { report: { ...report, statusCodeDistribution: { OK: 3 }, errorDist: {} } }]);
+
+    expect(xml).toContain('<testsuites name="ghz" tests="3" failures="1" errors="0">');
+    expect(xml).toContain('<testsuite name="Step 1: demo.v1.Echo.Say" tests="2" failures="1"');
+    expect(xml).toContain('<failure type="INVALID_ARGUMENT" message="1 calls failed with INVALID_ARGUMENT">[1] bad &quot;input&quot;, really</failure>');
+    expect(xml).toContain('<testsuite name="Step 2: demo.v1.Echo.Say" tests="1" failures="0"');
+  });
+
+  it('reports steps that did not run as errors', () => {
+    const xml = toJUnit([{ name: 'Step 1: smoke', error: 'Missing required fields' }]);
+
+    expect(xml).toContain('<testsuites name="ghz" tests="1" failures="0" errors="1">');
+    expect(xml).toContain('<testsuite name="Step 1: smoke" tests="1" failures="0" errors="1" time="0">');
+    expect(xml).toContain('<error message="Missing required fields"/>');
+  });
+});
+
+describe('exportReport', () => {
+  it('escapes report text in the HTML page', () => {
+    const html = exportReport({ ...report, errorDist: { '<script>': 1 } }, 'html');
+
+    expect(html).toContain('<title>ghz report — demo.v1.Echo.Say</title>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+});
@@ -0,0 +1,286 @@
+import type { RunReport } from './loadRunner';
+
+// Report outputs matching ghz's -O formats (json, csv, html, influx-summary,
+// influx-details, prometheus), plus JUnit XML for CI test reports
+
+export type ExportFormat = 'json' | 'csv' | 'html' | 'junit' | 'influx-summary' | 'influx-details' | 'prometheus';
+
+// perCall formats list report.details, which runs only keep when asked to
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mime: string; perCall?: boolean }[] = [
+  { format: 'json', label: 'ghz JSON', extension: 'json', mime: 'application/json' },
+  { format: 'csv', label: 'CSV (per-call details)', extension: 'csv', mime: 'text/csv', perCall: true },
+  { format: 'html', label: 'HTML report', extension: 'html', mime: 'text/html' },
+  { format: 'junit', label: 'JUnit XML', extension: 'xml', mime: 'application/xml' },
+  { format: 'influx-summary', label: 'InfluxDB line protocol (summary)', extension: 'summary.influx', mime: 'text/plain' },
+  { format: 'influx-details', label: 'InfluxDB line protocol (details)', extension: 'details.influx', mime: 'text/plain', perCall: true },
+  { format: 'prometheus', label: 'Prometheus text', extension: 'prom', mime: 'text/plain' },
+];
+
+const errorCount = (report: RunReport) => Object.values(report.errorDist || {}).reduce((sum, n) => sum + n, 0);
+
+// Latency (ns) at a percentile of the report's distribution, 0 when missing
+const percentile = (report: RunReport, percentage: number) =>
+  report.latencyDistribution?.find(l => l.percentage === percentage)?.latency ?? 0;
+
+const callName = (report: RunReport) => report.options?.call || 'unknown';
+
+// Start of the run in ms since the epoch; `date` is when the report was made
+const startMillis = (report: RunReport) => Date.parse(report.date) - (report.total || 0) / 1e6;
+
+// ghz's JSON report: errorDist is called errorDistribution there
+export function toGhzJson(report: RunReport): string {
+  const { errorDist, ...rest } = report;
+  delete rest.importedFrom;
+  return JSON.stringify({ ...rest, errorDistribution: errorDist }, null, 2);
+}
+
+const csvField = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per call, as ghz -O csv; streaming calls add message counts
+export function toCsv(report: RunReport): string {
+  const streaming = report.details?.some(d => d.sent !== undefined);
+  const header = ['duration (ms)', 'status', 'error', ...(streaming ? ['sent', 'received'] : [])];
+  const lines = (report.details || []).map(d => [
+    (d.latency / 1e6).toFixed(2), d.status, d.error, ...(streaming ? [d.sent ?? 0, d.received ?? 0] : []),
+  ].map(csvField).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+// Influx tag values escape commas, spaces and equals signs
+const influxTag = (value: unknown) => String(value).replace(/([,= ])/g, '\\$1');
+const influxString = (value: string) => `"${value.replace(/(["\\])/g, '\\$1')}"`;
+
+function influxTags(report: RunReport): string {
+  const options = report.options;
+  const tags: [string, unknown][] = [
+    ['call', callName(report)],
+    ['host', options?.host || 'unknown'],
+    ['n', options?.total ?? report.count],
+    ['c', options?.concurrency ?? 0],
+    ['z', options?.duration ?? 0],
+    ['rps', options?.rps ?? 0],
+    ['end_reason', report.endReason || 'normal'],
+  ];
+  return tags.map(([key, value]) => `${key}=${influxTag(value)}`).join(',');
+}
+
+// One ghz_run point with the summary numbers (times in ns), as ghz -O influx-summary
+export function toInfluxSummary(report: RunReport): string {
+  const errors = errorCount(report);
+  const fields = [
+    `count=${report.count}`, `total=${report.total}`, `average=${report.average}`, `fastest=${report.fastest}`,
+    `slowest=${report.slowest}`, `rps=${report.rps}`, `median=${percentile(report, 50)}`, `p95=${percentile(report, 95)}`,
+    `p99=${percentile(report, 99)}`, `errors=${errors}`, `has_errors=${errors > 0}`,
+  ];
+  return `ghz_run,${influxTags(report)} ${fields.join(',')} ${BigInt(Date.parse(report.date)) * BigInt(1e6)}\n`;
+}
+
+// One ghz_detail point per call, as ghz -O influx-details. Calls without a
+// timestamp get the run start plus their index (in ns) so points stay distinct.
+export function toInfluxDetails(report: RunReport): string {
+  const tags = influxTags(report);
+  const start = BigInt(Math.round(startMillis(report))) * BigInt(1e6);
+  return (report.details || []).map((d, i) => {
+    const time = d.timestamp ? BigInt(Date.parse(d.timestamp)) * BigInt(1e6) : start + BigInt(i);
+    return `ghz_detail,${tags} latency=${d.latency},error=${influxString(d.error || '')},status=${influxString(d.status || '')} ${time}`;
+  }).join('\n') + '\n';
+}
+
+const promLabel = (value: unknown) => String(value).replace(/(["\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+// Prometheus text exposition: summary gauges, latency quantiles and the
+// histogram (seconds), and responses per status code
+export function toPrometheus(report: RunReport): string {
+  const base = `call="${promLabel(callName(report))}",host="${promLabel(report.options?.host || 'unknown')}"`;
+  const lines: string[] = [];
+  const gauge = (name: string, help: string, value: number) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name}{${base}} ${value}`);
+  };
+  gauge('ghz_run_count', 'Number of calls made.', report.count);
+  gauge('ghz_run_total_seconds', 'Duration of the run.', report.total / 1e9);
+  gauge('ghz_run_average_seconds', 'Average call latency.', report.average / 1e9);
+  gauge('ghz_run_fastest_seconds', 'Fastest call latency.', report.fastest / 1e9);
+  gauge('ghz_run_slowest_seconds', 'Slowest call latency.', report.slowest / 1e9);
+  gauge('ghz_run_rps', 'Calls per second.', report.rps);
+  gauge('ghz_run_errors', 'Number of failed calls.', errorCount(report));
+
+  lines.push('# HELP ghz_run_latency_seconds Call latency percentiles.', '# TYPE ghz_run_latency_seconds summary');
+  for (const l of report.latencyDistribution || []) {
+    lines.push(`ghz_run_latency_seconds{${base},quantile="${l.percentage / 100}"} ${l.latency / 1e9}`);
+  }
+  lines.push(`ghz_run_latency_seconds_sum{${base}} ${(report.average * report.count) / 1e9}`);
+  lines.push(`ghz_run_latency_seconds_count{${base}} ${report.count}`);
+
+  lines.push('# HELP ghz_run_histogram_seconds Call latency histogram.', '# TYPE ghz_run_histogram_seconds histogram');
+  let cumulative = 0;
+  for (const h of report.histogram || []) {
+    cumulative += h.count;
+    lines.push(`ghz_run_histogram_seconds_bucket{${base},le="${h.mark}"} ${cumulative}`);
+  }
+  lines.push(`ghz_run_histogram_seconds_bucket{${base},le="+Inf"} ${cumulative}`);
+  lines.push(`ghz_run_histogram_seconds_sum{${base}} ${(report.average * cumulative) / 1e9}`);
+  lines.push(`ghz_run_histogram_seconds_count{${base}} ${cumulative}`);
+
+  lines.push('# HELP ghz_run_status_codes Responses per status code.', '# TYPE ghz_run_status_codes gauge');
+  for (const [code, count] of Object.entries(report.statusCodeDistribution || {})) {
+    lines.push(`ghz_run_status_codes{${base},code="${promLabel(code)}"} ${count}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+const xml = (value: unknown) => String(value)
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// A step for the JUnit file: its report, or the error that kept it from running
+export interface JUnitStep {
+  name?: string; // defaults to the call, numbered when there are several steps
+  report?: RunReport;
+  error?: string;
+}
+
+// One test suite per step. Steps with assertions get a test case per
+// assertion; otherwise each status code is one, and codes other than OK
+// fail with the error messages seen
+export function toJUnit(steps: JUnitStep[]): string {
+  let tests = 0;
+  let failures = 0;
+  let errors = 0;
+  const suites = steps.map((step, i) => {
+    const { report } = step;
+    const call = report ? callName(report) : 'unknown';
+    const name = step.name || (steps.length > 1 ? `Step ${i + 1}: ${call}` : call);
+    if (!report) {
+      tests++;
+      errors++;
+      return `  <testsuite name="${xml(name)}" tests="1" failures="0" errors="1" time="0">\n`
+        + `    <testcase classname="${xml(call)}" name="run" time="0">\n`
+        + `      <error message="${xml(step.error || 'Step did not run')}"/>\n`
+        + '    </testcase>\n'
+        + '  </testsuite>';
+    }
+
+    const seconds = (report.total / 1e9).toFixed(3);
+    const testcase = (caseName: string, failure?: { type: string; message: string; text?: string }) => {
+      const open = `    <testcase classname="${xml(call)}" name="${xml(caseName)}" time="${seconds}"`;
+      if (!failure) return `${open}/>`;
+      return `${open}>\n`
+        + `      <failure type="${xml(failure.type)}" message="${xml(failure.message)}">${xml(failure.text || '')}</failure>\n`
+        + '    </testcase>';
+    };
+
+    let cases: string[];
+    let suiteFailures: number;
+    if (report.assertions) {
+      cases = report.assertions.map(a => testcase(a.label, a.passed ? undefined : { type: a.assertion.type, message: a.reason || 'Failed' }));
+      suiteFailures = report.assertions.filter(a => !a.passed).length;
+    } else {
+      const codes = Object.entries(report.statusCodeDistribution || {});
+      if (codes.length === 0 && errorCount(report) > 0) codes.push(['ERROR', errorCount(report)]);
+      const messages = Object.entries(report.errorDist || {}).map(([error, n]) => `[${n}] ${error}`).join('\n');
+      cases = codes.map(([code, count]) => testcase(`status ${code} (${count} of ${report.count} calls)`,
+        code === 'OK' ? undefined : { type: code, message: `${count} calls failed with ${code}`, text: messages }));
+      suiteFailures = codes.filter(([code]) => code !== 'OK').length;
+    }
+    tests += cases.length;
+    failures += suiteFailures;
+
+    const properties = [
+      ['count', report.count], ['rps', report.rps.toFixed(2)], ['average_ms', (report.average / 1e6).toFixed(2)],
+      ['p95_ms', (percentile(report, 95) / 1e6).toFixed(2)], ['p99_ms', (percentile(report, 99) / 1e6).toFixed(2)],
+      ['end_reason', report.endReason || 'normal'], ...(report.options ? [['host', report.options.host]] : []),
+    ].map(([key, value]) => `      <property name="${key}" value="${xml(value)}"/>`);
+
+    return `  <testsuite name="${xml(name)}" tests="${cases.length}" failures="${suiteFailures}" errors="0" time="${seconds}" timestamp="${xml(report.date)}">\n`
+      + `    <properties>\n${properties.join('\n')}\n    </properties>\n`
+      + (cases.length ? cases.join('\n') + '\n' : '')
+      + '  </testsuite>';
+  });
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + `<testsuites name="ghz" tests="${tests}" failures="${failures}" errors="${errors}">\n${suites.join('\n')}\n</testsuites>\n`;
+}
+
+// Self-contained HTML page (inline CSS and SVG, no scripts) with the
+// summary, histogram, latency distribution, status codes and errors
+export function toHtml(report: RunReport): string {
+  const ms = (ns: number) => `${(ns / 1e6).toFixed(2)} ms`;
+  const rows = (entries: [string, string | number][]) =>
+    entries.map(([key, value]) => `<tr><th>${xml(key)}</th><td>${xml(value)}</td></tr>`).join('');
+
+  const summary: [string, string | number][] = [
+    ['Call', callName(report)],
+    ['Host', report.options?.host || '—'],
+    ['Date', new Date(report.date).toLocaleString()],
+    ['End reason', report.endReason || 'normal'],
+    ['Count', report.count],
+    ['Total', ms(report.total)],
+    ['Slowest', ms(report.slowest)],
+    ['Fastest', ms(report.fastest)],
+    ['Average', ms(report.average)],
+    ['Requests/sec', report.rps.toFixed(2)],
+  ];
+  if (report.streamStats) {
+    summary.push(['Messages sent', report.streamStats.messagesSent], ['Messages received', report.streamStats.messagesReceived]);
+  }
+
+  const bars = (items: { label: string; value: number; text: string }[], color: string) => {
+    const peak = Math.max(...items.map(item => item.value), 1e-9);
+    const height = 22;
+    const svg = items.map((item, i) => {
+      const width = (item.value / peak) * 380;
+      return `<text x="0" y="${i * height + 15}" class="axis">${xml(item.label)}</text>`
+        + `<rect x="110" y="${i * height + 3}" width="${width.toFixed(1)}" height="${height - 6}" fill="${color}"/>`
+        + `<text x="${(116 + width).toFixed(1)}" y="${i * height + 15}" class="value">${xml(item.text)}</text>`;
+    }).join('');
+    return `<svg viewBox="0 0 600 ${items.length * height}" width="600" height="${items.length * height}">${svg}</svg>`;
+  };
+
+  const histogram = bars((report.histogram || []).map(h => ({ label: `${(h.mark * 1000).toFixed(3)} ms`, value: h.count, text: String(h.count) })), '#60a5fa');
+  const distribution = bars((report.latencyDistribution || []).map(l => ({ label: `p${l.percentage}`, value: l.latency, text: ms(l.latency) })), '#a78bfa');
+  const codes = Object.entries(report.statusCodeDistribution || {}).map(([code, count]) => [code, count] as [string, number]);
+  const errors = Object.entries(report.errorDist || {}).map(([error, count]) => [error, count] as [string, number]);
+  const checks = (report.assertions || []).map(a =>
+    `<tr class="${a.passed ? 'pass' : 'error'}"><th>${a.passed ? '✓' : '✗'} ${xml(a.label)}</th><td>${xml(a.passed ? a.actual : a.reason || '')}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ghz report — ${xml(callName(report))}</title>
+<style>
+  body { font-family: ui-monospace, Menlo, Consolas, monospace; background: #111; color: #d1d5db; margin: 2rem auto; max-width: 760px; }
+  h1 { font-size: 1.3rem; color: #fff; } h2 { font-size: 1rem; color: #fff; margin-top: 2rem; }
+  table { border-collapse: collapse; } th { text-align: left; font-weight: normal; color: #9ca3af; padding: 2px 24px 2px 0; } td { padding: 2px 0; }
+  .axis, .value { font: 11px ui-monospace, Menlo, Consolas, monospace; fill: #9ca3af; } .value { fill: #d1d5db; }
+  .error th, .error td { color: #f87171; } .pass th, .pass td { color: #4ade80; }
+</style>
+</head>
+<body>
+<h1>ghz report — ${xml(callName(report))}</h1>
+${checks ? `<h2>Checks</h2>\n<table>${checks}</table>` : ''}
+<h2>Summary</h2>
+<table>${rows(summary)}</table>
+${report.histogram?.length ? `<h2>Response time histogram</h2>\n${histogram}` : ''}
+${report.latencyDistribution?.length ? `<h2>Latency distribution</h2>\n${distribution}` : ''}
+<h2>Status code distribution</h2>
+<table>${rows(codes)}</table>
+${errors.length ? `<h2>Error distribution</h2>\n<table class="error">${rows(errors)}</table>` : ''}
+</body>
+</html>
+`;
+}
+
+// A report in the given format
+export function exportReport(report: RunReport, format: ExportFormat): string {
+  switch (format) {
+    case 'json': return toGhzJson(report);
+    case 'csv': return toCsv(report);
+    case 'html': return toHtml(report);
+    case 'junit': return toJUnit([{ report }]);
+    case 'influx-summary': return toInfluxSummary(report);
+    case 'influx-details': return toInfluxDetails(report);
+    case 'prometheus': return toPrometheus(report);
+  }
+}
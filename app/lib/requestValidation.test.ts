@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { parseProtoContent } from './protoParser';
+import { dataCompletions, dataIssueLocation, validateDataSet, validateRequestData } from './requestValidation';
+
+const { schema } = parseProtoContent(`
+syntax = "proto3";
+package demo.v1;
+import "google/protobuf/timestamp.proto";
+import "google/protobuf/wrappers.proto";
+enum Kind { KIND_UNSPECIFIED = 0; KIND_A = 1; }
+message Item { string item_id = 1; Kind kind = 2; }
+message Req {
+  int32 count = 1;
+  uint64 big = 2;
+  bool flag = 3;
+  bytes blob = 4;
+  repeated Item items = 5;
+  map<int32, string> labels = 6;
+  oneof target { string name = 7; int64 id = 8; }
+  google.protobuf.Timestamp at = 9;
+  google.protobuf.Int32Value limit = 10;
+}
+`);
+const TYPE = 'demo.v1.Req';
+
+// Issues as "severity line:column path: message"
+const issuesOf = (text: string) =>
+  validateRequestData(text, TYPE, schema).map(i => `${i.severity} ${i.line}:${i.column} ${i.path}: ${i.message}`);
+
+describe('validateRequestData', () => {
+  it('accepts valid data in either field casing', () => {
+    expect(issuesOf(JSON.stringify({
+      count: 5, big: '18446744073709551615', flag: true, blob: 'aGk=',
+      items: [{ itemId: 'a', kind: 'KIND_A' }], labels: { '7': 'x' }, name: 'n',
+      at: '2024-01-02T15:04:05Z', limit: 3,
+    }))).toEqual([]);
+  });
+
+  it('positions type and range errors at the value', () => {
+    expect(issuesOf('{\n  "count": "x",\n  "big": -1,\n  "flag": "yes"\n}')).toEqual([
+      'error 2:12 count: Expected an integer for int32, got "x"',
+      'error 3:10 big: -1 is out of range for uint64 (0 to 18446744073709551615)',
+      'error 4:11 flag: Expected true or false, got "yes"',
+    ]);
+  });
+
+  it('reports unknown fields with a suggestion and unknown enum values', () => {
+    expect(issuesOf('{"Count": 1, "items": [{"kind": "KIND_B"}]}')).toEqual([
+      'error 1:2 Count: Unknown field "Count" in demo.v1.Req, did you mean "count"?',
+      'error 1:33 items[0].kind: Invalid value "KIND_B" for enum demo.v1.Kind, expected one of KIND_UNSPECIFIED, KIND_A',
+    ]);
+  });
+
+  it('rejects two members of one oneof and a field set twice', () => {
+    expect(issuesOf('{"name": "a", "id": "1", "item_id": 1}').slice(0, 1)).toEqual([
+      'error 1:15 id: "id" and "name" are both set, but oneof target allows only one',
+    ]);
+    expect(validateRequestData('{"items": [{"item_id": "a", "itemId": "b"}]}', TYPE, schema)[0].message)
+      .toBe('Field "item_id" is set twice (as "item_id" and "itemId")');
+  });
+
+  it('checks map keys, well-known types and precision', () => {
+    expect(issuesOf('{"labels": {"x": "y"}, "at": "yesterday", "limit": "many", "big": 9007199254740993}')).toEqual([
+      'error 1:13 labels["x"]: Expected an integer for int32, got "x"',
+      'error 1:30 at: Invalid google.protobuf.Timestamp: expected an RFC 3339 string such as "2024-01-02T15:04:05Z", got "yesterday"',
+      'error 1:52 limit: Expected an integer for int32, got "many"',
+      'warning 1:67 big: 9007199254740993 loses precision as a JSON number; quote it as a string',
+    ]);
+  });
+
+  it('leaves templated values alone', () => {
+    expect(issuesOf('{"count": "{{randomInt 1 10}}", "at": "{{.Timestamp}}"}')).toEqual([]);
+  });
+
+  it('reports JSON syntax errors and empty data', () => {
+    expect(issuesOf('{"count": 1,}')).toEqual(['error 1:13 : Invalid JSON: Trailing comma']);
+    expect(issuesOf('  ')[0]).toMatch(/Request data is empty/);
+    expect(issuesOf('[]')).toEqual(['error 1:1 : The array holds no messages']);
+  });
+
+  it('only checks the syntax for an unknown request type', () => {
+    expect(validateRequestData('{"anything": 1}', 'demo.v1.Missing', schema)).toEqual([]);
+  });
+});
+
+describe('validateDataSet', () => {
+  it('checks each message without positions', () => {
+    const issues = validateDataSet([{ count: 1 }, { count: 'x' }], TYPE, schema);
+
+    expect(issues).toEqual([{ severity: 'error', message: 'Expected an integer for int32, got "x"', path: '[1].count', line: 0, column: 0 }]);
+    expect(dataIssueLocation(issues[0])).toBe('[1].count');
+  });
+});
+
+describe('dataCompletions', () => {
+  const complete = (text: string) => {
+    const result = dataCompletions(text, text.length, TYPE, schema);
+    return result && { from: result.from, labels: result.items.map(i => i.label) };
+  };
+
+  it('suggest the fields not set yet in key position', () => {
+    expect(complete('{"count": 1, "i')).toEqual({ from: 13, labels: ['items', 'id'] });
+    expect(complete('{"items": [{"item_id": "a", ')?.labels).toEqual(['kind']);
+  });
+
+  it('suggest enum values, booleans and containers in value position', () => {
+    expect(complete('{"items": [{"kind": "KIND_')).toEqual({ from: 20, labels: ['KIND_UNSPECIFIED', 'KIND_A'] });
+    expect(complete('{"flag": ')?.labels).toEqual(['true', 'false']);
+    expect(complete('{"labels": ')?.labels).toEqual(['{}']);
+  });
+
+  it('stay quiet inside comments and for unknown types', () => {
+    expect(complete('{\n  // "c')).toBeNull();
+    expect(dataCompletions('{"', 2, 'demo.v1.Missing', schema)).toBeNull();
+  });
+});
@@ -0,0 +1,445 @@
+import { JsonNode, JsonSyntaxError, offsetPosition, parseJsoncTree, stripComments } from './jsonc';
+import { FieldSchema, findField, ProtoSchema } from './protoSchema';
+import type { DiagnosticSeverity } from './protoDiagnostics';
+
+// Checks step request data against the request message before a run, and
+// suggests field names and enum values while it is being edited
+
+export interface DataIssue {
+  severity: DiagnosticSeverity;
+  message: string;
+  path: string; // e.g. "items[2].kind"; empty for the message itself
+  line: number; // 1-based; 0 when the position is unknown
+  column: number; // 1-based; 0 when the position is unknown
+}
+
+const INT_RANGES: Record<string, [string, string]> = {
+  int32: ['-2147483648', '2147483647'],
+  sint32: ['-2147483648', '2147483647'],
+  sfixed32: ['-2147483648', '2147483647'],
+  uint32: ['0', '4294967295'],
+  fixed32: ['0', '4294967295'],
+  int64: ['-9223372036854775808', '9223372036854775807'],
+  sint64: ['-9223372036854775808', '9223372036854775807'],
+  sfixed64: ['-9223372036854775808', '9223372036854775807'],
+  uint64: ['0', '18446744073709551615'],
+  fixed64: ['0', '18446744073709551615'],
+};
+
+const FLOAT_MAX = 3.4028234663852886e38;
+const TIMESTAMP_PATTERN = /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d(?:\.\d{1,9})?(?:Z|[+-]\d\d:\d\d)$/i;
+const DURATION_PATTERN = /^-?\d+(?:\.\d{1,9})?s$/;
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/_-]{4})*(?:[A-Za-z0-9+/_-]{2}(?:==)?|[A-Za-z0-9+/_-]{3}=?)?$/;
+
+// Wrapper types hold a single scalar, written as the bare value
+const WRAPPERS: Record<string, string> = {
+  'google.protobuf.DoubleValue': 'double',
+  'google.protobuf.FloatValue': 'float',
+  'google.protobuf.Int64Value': 'int64',
+  'google.protobuf.UInt64Value': 'uint64',
+  'google.protobuf.Int32Value': 'int32',
+  'google.protobuf.UInt32Value': 'uint32',
+  'google.protobuf.BoolValue': 'bool',
+  'google.protobuf.StringValue': 'string',
+  'google.protobuf.BytesValue': 'bytes',
+};
+
+// Strings like "{{.RequestNumber}}" are rendered per call, so any type goes
+const isTemplate = (node: JsonNode) => node.type === 'string' && node.value.includes('{{');
+
+const describeNode = (node: JsonNode) => (node.type === 'null' ? 'null' : node.type === 'string' ? `"${node.value}"` : node.type === 'number' ? node.raw : node.type);
+
+// Field type as shown to the user, e.g. "repeated string" or "map<string, Item>"
+export function fieldTypeLabel(field: FieldSchema): string {
+  const type = field.kind === 'scalar' ? field.type : field.type.slice(field.type.lastIndexOf('.') + 1);
+  if (field.keyType) return `map<${field.keyType}, ${type}>`;
+  return field.repeated ? `repeated ${type}` : type;
+}
+
+function validateTree(tree: JsonNode, typeName: string, schema: ProtoSchema, position: (offset: number) => { line: number; column: number }): DataIssue[] {
+  const issues: DataIssue[] = [];
+  const report = (severity: DiagnosticSeverity, message: string, path: string, offset: number) =>
+    issues.push({ severity, message, path, ...position(offset) });
+
+  const checkInteger = (type: string, node: JsonNode, path: string) => {
+    let value: bigint;
+    if (node.type === 'number' && /^-?\d+$/.test(node.raw)) {
+      value = BigInt(node.raw);
+    } else if (node.type === 'number' && Number.isInteger(node.value)) {
+      value = BigInt(node.value);
+    } else if (node.type === 'string' && /^-?\d+$/.test(node.value)) {
+      value = BigInt(node.value);
+    } else {
+      return report('error', `Expected an integer for ${type}, got ${describeNode(node)}`, path, node.offset);
+    }
+    const [min, max] = INT_RANGES[type];
+    if (value < BigInt(min) || value > BigInt(max)) {
+      return report('error', `${value} is out of range for ${type} (${min} to ${max})`, path, node.offset);
+    }
+    if (node.type === 'number' && !Number.isSafeInteger(node.value)) {
+      report('warning', `${node.raw} loses precision as a JSON number; quote it as a string`, path, node.offset);
+    }
+  };
+
+  const checkScalar = (type: string, node: JsonNode, path: string) => {
+    if (isTemplate(node)) return;
+    if (type in INT_RANGES) return checkInteger(type, node, path);
+    switch (type) {
+      case 'double':
+      case 'float': {
+        const isSpecial = node.type === 'string' && ['NaN', 'Infinity', '-Infinity'].includes(node.value);
+        const number = node.type === 'number' ? node.value : node.type === 'string' && node.value.trim() ? Number(node.value) : NaN;
+        if (!isSpecial && isNaN(number)) return report('error', `Expected a number for ${type}, got ${describeNode(node)}`, path, node.offset);
+        if (type === 'float' && Math.abs(number) > FLOAT_MAX) report('error', `${number} is out of range for float`, path, node.offset);
+        return;
+      }
+      case 'bool':
+        if (node.type !== 'boolean') report('error', `Expected true or false, got ${describeNode(node)}`, path, node.offset);
+        return;
+      case 'string':
+        if (node.type !== 'string') report('error', `Expected a string, got ${describeNode(node)}`, path, node.offset);
+        return;
+      case 'bytes':
+        if (node.type !== 'string') report('error', `Expected a base64 string for bytes, got ${describeNode(node)}`, path, node.offset);
+        else if (!BASE64_PATTERN.test(node.value)) report('error', 'Bytes must be base64 encoded', path, node.offset);
+        return;
+    }
+  };
+
+  const checkEnum = (enumName: string, node: JsonNode, path: string) => {
+    if (isTemplate(node)) return;
+    const values = schema.enums[enumName] ?? {};
+    if (node.type === 'string') {
+      if (!(node.value in values)) {
+        report('error', `Invalid value "${node.value}" for enum ${enumName}, expected one of ${Object.keys(values).join(', ')}`, path, node.offset);
+      }
+    } else if (node.type === 'number' && Number.isInteger(node.value)) {
+      checkInteger('int32', node, path);
+      if (!Object.values(values).includes(node.value)) {
+        report('warning', `${node.value} is not a defined value of enum ${enumName}`, path, node.offset);
+      }
+    } else {
+      report('error', `Expected an enum value name for ${enumName}, got ${describeNode(node)}`, path, node.offset);
+    }
+  };
+
+  // Types whose proto3 JSON form is not a plain object of their fields.
+  // Returns false to check the value as a regular message instead.
+  const checkWellKnown = (type: string, node: JsonNode, path: string): boolean => {
+    // Objects fall back to the fields, e.g. {"seconds": ..., "nanos": ...}
+    const expectString = (pattern: RegExp, example: string) => {
+      if (node.type === 'object') return false;
+      if (!isTemplate(node) && (node.type !== 'string' || !pattern.test(node.value))) {
+        report('error', `Invalid ${type}: expected ${example}, got ${describeNode(node)}`, path, node.offset);
+      }
+      return true;
+    };
+    if (type in WRAPPERS && node.type !== 'object') {
+      checkScalar(WRAPPERS[type], node, path);
+      return true;
+    }
+    switch (type) {
+      case 'google.protobuf.Timestamp':
+        return expectString(TIMESTAMP_PATTERN, 'an RFC 3339 string such as "2024-01-02T15:04:05Z"');
+      case 'google.protobuf.Duration':
+        return expectString(DURATION_PATTERN, 'seconds such as "1.5s"');
+      case 'google.protobuf.FieldMask':
+        return expectString(/^[\w.,]*$/, 'comma-separated field paths');
+      case 'google.protobuf.Value':
+        return true;
+      case 'google.protobuf.Struct':
+        if (node.type !== 'object') report('error', `Expected a JSON object for google.protobuf.Struct, got ${describeNode(node)}`, path, node.offset);
+        return true;
+      case 'google.protobuf.ListValue':
+        if (node.type !== 'array') report('error', `Expected an array for google.protobuf.ListValue, got ${describeNode(node)}`, path, node.offset);
+        return true;
+      case 'google.protobuf.Any': {
+        if (node.type !== 'object') return false;
+        const typeUrl = node.properties.find(p => p.key === '@type');
+        if (!typeUrl || typeUrl.value.type !== 'string') {
+          report('error', 'google.protobuf.Any needs an "@type" such as "type.googleapis.com/pkg.Message"', path, node.offset);
+          return true;
+        }
+        const packed = typeUrl.value.value.slice(typeUrl.value.value.lastIndexOf('/') + 1);
+        if (!(packed in schema.messages)) return true;
+        const rest: JsonNode = { ...node, properties: node.properties.filter(p => p !== typeUrl) };
+        const value = rest.properties.find(p => p.key === 'value');
+        // Well-known types are packed as {"@type", "value"}
+        if (value && packed.startsWith('google.protobuf.')) checkMessage(packed, value.value, `${path}.value`);
+        else checkMessage(packed, rest, path);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const checkSingle = (field: FieldSchema, node: JsonNode, path: string) => {
+    if (node.type === 'null' && field.type !== 'google.protobuf.Value') {
+      return report('error', 'null is not allowed as a list or map entry', path, node.offset);
+    }
+    if (field.kind === 'message') checkMessage(field.type, node, path);
+    else if (field.kind === 'enum') checkEnum(field.type, node, path);
+    else checkScalar(field.type, node, path);
+  };
+
+  const checkField = (field: FieldSchema, node: JsonNode, path: string) => {
+    // null leaves a field unset
+    if (node.type === 'null') return;
+    if (field.keyType) {
+      if (node.type !== 'object') return report('error', `Expected an object for ${fieldTypeLabel(field)}, got ${describeNode(node)}`, path, node.offset);
+      for (const entry of node.properties) {
+        const entryPath = `${path}[${JSON.stringify(entry.key)}]`;
+        if (field.keyType === 'bool' && entry.key !== 'true' && entry.key !== 'false') {
+          report('error', `Map key "${entry.key}" must be "true" or "false"`, entryPath, entry.keyOffset);
+        } else if (field.keyType in INT_RANGES) {
+          checkInteger(field.keyType, { type: 'string', offset: entry.keyOffset, value: entry.key }, entryPath);
+        }
+        checkSingle(field, entry.value, entryPath);
+      }
+    } else if (field.repeated) {
+      if (node.type !== 'array') return report('error', `Expected an array for ${fieldTypeLabel(field)}, got ${describeNode(node)}`, path, node.offset);
+      node.items.forEach((item, i) => checkSingle(field, item, `${path}[${i}]`));
+    } else {
+      checkSingle(field, node, path);
+    }
+  };
+
+  function checkMessage(type: string, node: JsonNode, path: string) {
+    if (checkWellKnown(type, node, path)) return;
+    const fields = schema.messages[type];
+    if (!fields) return;
+    if (node.type !== 'object') {
+      return report('error', `Expected an object for ${type}, got ${describeNode(node)}`, path, node.offset);
+    }
+
+    const seen = new Map<FieldSchema, string>();
+    const oneofs = new Map<string, string>();
+    for (const property of node.properties) {
+      const propertyPath = path ? `${path}.${property.key}` : property.key;
+      const field = findField(fields, property.key);
+      if (!field) {
+        const loose = (name: string) => name.replace(/_/g, '').toLowerCase();
+        const similar = fields.find(f => loose(f.name) === loose(property.key));
+        report('error', `Unknown field "${property.key}" in ${type}${similar ? `, did you mean "${similar.name}"?` : ''}`, propertyPath, property.keyOffset);
+        continue;
+      }
+      if (seen.has(field)) {
+        report('error', `Field "${field.name}" is set twice (as "${seen.get(field)}" and "${property.key}")`, propertyPath, property.keyOffset);
+      }
+      seen.set(field, property.key);
+      if (field.oneof && property.value.type !== 'null') {
+        const other = oneofs.get(field.oneof);
+        if (other) report('error', `"${property.key}" and "${other}" are both set, but oneof ${field.oneof} allows only one`, propertyPath, property.keyOffset);
+        else oneofs.set(field.oneof, property.key);
+      }
+      checkField(field, property.value, propertyPath);
+    }
+  }
+
+  if (tree.type === 'array') {
+    if (tree.items.length === 0) report('error', 'The array holds no messages', '', tree.offset);
+    tree.items.forEach((item, i) => checkMessage(typeName, item, `[${i}]`));
+  } else if (tree.type === 'object') {
+    checkMessage(typeName, tree, '');
+  } else {
+    report('error', `Request data must be a JSON object or an array of objects, got ${describeNode(tree)}`, '', tree.offset);
+  }
+  return issues;
+}
+
+// Check a step's request data text (one message, or an array of messages)
+// against the request type. An unknown type is not checked beyond the JSON syntax.
+export function validateRequestData(text: string, typeName: string, schema: ProtoSchema): DataIssue[] {
+  if (!text.trim()) {
+    return [{ severity: 'error', message: 'Request data is empty; use {} to send a message with default values', path: '', line: 1, column: 1 }];
+  }
+  let tree: JsonNode;
+  try {
+    tree = parseJsoncTree(text);
+  } catch (e) {
+    const offset = e instanceof JsonSyntaxError ? e.offset : 0;
+    return [{ severity: 'error', message: `Invalid JSON: ${(e as Error).message}`, path: '', ...offsetPosition(text, offset) }];
+  }
+  if (!(typeName in schema.messages)) return [];
+  return validateTree(tree, typeName, schema, offset => offsetPosition(text, offset));
+}
+
+function toTree(value: unknown): JsonNode {
+  if (value === null || value === undefined) return { type: 'null', offset: -1 };
+  if (Array.isArray(value)) return { type: 'array', offset: -1, items: value.map(toTree) };
+  if (typeof value === 'object') {
+    return { type: 'object', offset: -1, properties: Object.entries(value).map(([key, item]) => ({ key, keyOffset: -1, value: toTree(item) })) };
+  }
+  if (typeof value === 'number') return { type: 'number', offset: -1, value, raw: String(value) };
+  if (typeof value === 'boolean') return { type: 'boolean', offset: -1, value };
+  return { type: 'string', offset: -1, value: String(value) };
+}
+
+// Same checks for messages loaded from a data file, which have no positions
+export function validateDataSet(messages: object[], typeName: string, schema: ProtoSchema): DataIssue[] {
+  if (!(typeName in schema.messages)) return [];
+  return validateTree(toTree(messages), typeName, schema, () => ({ line: 0, column: 0 }));
+}
+
+// Label for an issue position, e.g. "3:14 items[2].kind"
+export function dataIssueLocation(issue: DataIssue): string {
+  return [issue.line ? `${issue.line}:${issue.column}` : '', issue.path].filter(Boolean).join(' ');
+}
+
+export interface DataCompletion {
+  label: string;
+  detail: string;
+  insert: string;
+}
+
+// What a value at some position of the data should be: a message (the
+// request itself or a data set element), a field, or one element of a
+// repeated or map field
+type Slot = { message: string } | { field: FieldSchema; element: boolean } | null;
+
+type Frame =
+  | { kind: 'object'; slot: Slot; state: 'key' | 'colon' | 'value' | 'done'; key: string; seen: string[] }
+  | { kind: 'array'; slot: Slot; state: 'value' | 'done' };
+
+// Message type whose fields are the keys of an object opened in `slot`
+function objectMessage(slot: Slot): string | null {
+  if (!slot) return null;
+  if ('message' in slot) return slot.message;
+  const single = slot.element || (!slot.field.keyType && !slot.field.repeated);
+  return single && slot.field.kind === 'message' ? slot.field.type : null;
+}
+
+// Slot of the value being written inside an open object or array
+function childSlot(frame: Frame, schema: ProtoSchema): Slot {
+  const { slot } = frame;
+  if (!slot) return null;
+  // Values of a map field, elements of a repeated field
+  if ('field' in slot && !slot.element && (slot.field.keyType || slot.field.repeated)) {
+    const container = slot.field.keyType ? 'object' : 'array';
+    return frame.kind === container ? { field: slot.field, element: true } : null;
+  }
+  // The request data may be an array of messages
+  if ('message' in slot && frame.kind === 'array') return slot;
+  if (frame.kind !== 'object') return null;
+  const message = objectMessage(slot);
+  const field = message ? findField(schema.messages[message] ?? [], frame.key) : undefined;
+  return field ? { field, element: false } : null;
+}
+
+function valueCompletions(slot: Slot, schema: ProtoSchema): DataCompletion[] {
+  if (!slot) return [];
+  if ('message' in slot) return [{ label: '{}', detail: slot.message, insert: '{}' }];
+  const { field, element } = slot;
+  if (!element && field.keyType) return [{ label: '{}', detail: fieldTypeLabel(field), insert: '{}' }];
+  if (!element && field.repeated) return [{ label: '[]', detail: fieldTypeLabel(field), insert: '[]' }];
+  if (field.kind === 'enum') {
+    return Object.entries(schema.enums[field.type] ?? {}).map(([name, number]) => ({ label: name, detail: String(number), insert: JSON.stringify(name) }));
+  }
+  if (field.type === 'bool') {
+    return ['true', 'false'].map(value => ({ label: value, detail: 'bool', insert: value }));
+  }
+  if (field.type === 'google.protobuf.Timestamp') {
+    return [{ label: 'now', detail: 'Timestamp', insert: JSON.stringify(new Date().toISOString()) }];
+  }
+  if (field.kind === 'message' && !(field.type in WRAPPERS) && field.type !== 'google.protobuf.Duration' && field.type !== 'google.protobuf.FieldMask') {
+    return [{ label: '{}', detail: field.type, insert: '{}' }];
+  }
+  return [];
+}
+
+// Suggestions for the word at `cursor`: field names in key position, enum
+// values, booleans and empty containers in value position. `from`..`cursor`
+// is the partially typed text the chosen suggestion replaces.
+export function dataCompletions(text: string, cursor: number, typeName: string, schema: ProtoSchema):
+  { from: number; items: DataCompletion[] } | null {
+  if (!(typeName in schema.messages)) return null;
+  const source = stripComments(text.slice(0, cursor));
+  // Typing inside a comment, which stripComments blanked out
+  if (cursor > 0 && source[cursor - 1] === ' ' && text[cursor - 1] !== ' ') return null;
+
+  const stack: Frame[] = [];
+  let partial: { start: number; text: string } | null = null;
+  let i = 0;
+  const top = () => stack[stack.length - 1];
+  const valueDone = () => {
+    const frame = top();
+    if (!frame) return;
+    if (frame.kind === 'object' && frame.state === 'value') frame.seen.push(frame.key);
+    frame.state = 'done';
+  };
+  const open = (kind: 'object' | 'array') => {
+    const parent = top();
+    const slot = parent ? childSlot(parent, schema) : { message: typeName };
+    stack.push(kind === 'object' ? { kind, slot, state: 'key', key: '', seen: [] } : { kind, slot, state: 'value' });
+  };
+
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"') j += source[j] === '\\' ? 2 : 1;
+      if (j >= source.length) {
+        partial = { start: i, text: source.slice(i + 1) };
+        break;
+      }
+      const frame = top();
+      if (frame?.kind === 'object' && frame.state === 'key') {
+        try {
+          frame.key = JSON.parse(source.slice(i, j + 1));
+        } catch {
+          frame.key = source.slice(i + 1, j);
+        }
+        frame.state = 'colon';
+      } else {
+        valueDone();
+      }
+      i = j + 1;
+    } else if (c === '{' || c === '[') {
+      open(c === '{' ? 'object' : 'array');
+      i++;
+    } else if (c === '}' || c === ']') {
+      stack.pop();
+      valueDone();
+      i++;
+    } else if (c === ':') {
+      const frame = top();
+      if (frame?.kind === 'object') frame.state = 'value';
+      i++;
+    } else if (c === ',') {
+      const frame = top();
+      if (frame) frame.state = frame.kind === 'object' ? 'key' : 'value';
+      i++;
+    } else {
+      let j = i;
+      while (j < source.length && /[\w.+-]/.test(source[j])) j++;
+      if (j === i) j++;
+      if (j >= source.length) {
+        partial = { start: i, text: source.slice(i) };
+        break;
+      }
+      valueDone();
+      i = j;
+    }
+  }
+
+  const frame = top();
+  if (!frame) return null;
+  // Typed text without its opening quote
+  const prefix = (partial?.text ?? '').toLowerCase();
+  const from = partial?.start ?? cursor;
+  let items: DataCompletion[] = [];
+
+  if (frame.kind === 'object' && frame.state === 'key') {
+    const message = objectMessage(frame.slot);
+    const fields = message ? schema.messages[message] ?? [] : [];
+    items = fields
+      .filter(f => !frame.seen.includes(f.name) && !frame.seen.includes(f.jsonName))
+      .filter(f => f.name.toLowerCase().startsWith(prefix) || f.jsonName.toLowerCase().startsWith(prefix))
+      .map(f => ({ label: f.name, detail: fieldTypeLabel(f), insert: `${JSON.stringify(f.name)}: ` }));
+  } else if (frame.state === 'value') {
+    items = valueCompletions(childSlot(frame, schema), schema).filter(item => item.label.toLowerCase().startsWith(prefix));
+  }
+  return items.length > 0 ? { from, items } : null;
+}
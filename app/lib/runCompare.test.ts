@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { RunReport } from './loadRunner';
+import { comparePercentiles, compareStatusCodes, compareSummary, overlayHistograms } from './runCompare';
+
+const report = (overrides: Partial<RunReport>): RunReport => ({
+  date: '2026-01-01T00:00:00.000Z',
+  endReason: 'normal',
+  count: 100,
+  total: 10e9,
+  average: 10e6,
+  fastest: 2e6,
+  slowest: 50e6,
+  rps: 100,
+  callType: 'unary',
+  errorDist: {},
+  statusCodeDistribution: { OK: 100 },
+  latencyDistribution: [],
+  histogram: [],
+  details: [],
+  ...overrides,
+});
+
+describe('compareSummary', () => {
+  it('judges each metric by its better direction, ignoring noise', () => {
+    const rows = compareSummary(
+      report({ average: 10e6, rps: 100, slowest: 50e6 }),
+      report({ average: 8e6, rps: 101, slowest: 60e6 })
+    );
+    const byLabel = Object.fromEntries(rows.map(r => [r.label, r]));
+
+    expect(byLabel.Average).toMatchObject({ baseline: 10, candidate: 8, delta: -2, percent: -20, verdict: 'better' });
+    expect(byLabel['Requests/sec']).toMatchObject({ delta: 1, percent: 1, verdict: 'same' });
+    expect(byLabel.Slowest.verdict).toBe('worse');
+    expect(byLabel.Count.verdict).toBe('neutral');
+  });
+
+  it('compares error counts and rates, including from zero', () => {
+    const rows = compareSummary(report({}), report({ errorDist: { boom: 5 } }));
+    const byLabel = Object.fromEntries(rows.map(r => [r.label, r]));
+
+    expect(byLabel.Errors).toMatchObject({ baseline: 0, candidate: 5, percent: null, verdict: 'worse' });
+    expect(byLabel['Error rate']).toMatchObject({ baseline: 0, candidate: 5, verdict: 'worse' });
+    expect(compareSummary(report({ count: 0 }), report({}))[7]).toMatchObject({ baseline: null, verdict: 'neutral' });
+  });
+});
+
+describe('comparePercentiles', () => {
+  it('lists the percentiles of both reports, blank where one lacks them', () => {
+    const rows = comparePercentiles(
+      report({ latencyDistribution: [{ percentage: 50, latency: 5e6 }, { percentage: 99, latency: 20e6 }] }),
+      report({ latencyDistribution: [{ percentage: 50, latency: 4e6 }, { percentage: 90, latency: 9e6 }] })
+    );
+
+    expect(rows.map(r => [r.label, r.baseline, r.candidate, r.verdict])).toEqual([
+      ['p50', 5, 4, 'better'],
+      ['p90', null, 9, 'neutral'],
+      ['p99', 20, null, 'neutral'],
+    ]);
+  });
+});
+
+describe('compareStatusCodes', () => {
+  it('puts OK first and counts more failures as worse', () => {
+    const rows = compareStatusCodes(
+      report({ statusCodeDistribution: { OK: 95, UNAVAILABLE: 5 } }),
+      report({ statusCodeDistribution: { OK: 90, DEADLINE_EXCEEDED: 10 } })
+    );
+
+    expect(rows.map(r => [r.label, r.baseline, r.candidate, r.verdict])).toEqual([
+      ['OK', 95, 90, 'worse'],
+      ['DEADLINE_EXCEEDED', 0, 10, 'worse'],
+      ['UNAVAILABLE', 5, 0, 'better'],
+    ]);
+  });
+});
+
+describe('overlayHistograms', () => {
+  it('spreads both histograms over shared buckets', () => {
+    // Marks are upper bucket edges in seconds: 0-10 ms and 10-20 ms
+    const baseline = report({ fastest: 0, histogram: [{ mark: 0.01, count: 1, frequency: 0.5 }, { mark: 0.02, count: 1, frequency: 0.5 }] });
+    const candidate = report({ fastest: 20e6, histogram: [{ mark: 0.04, count: 4, frequency: 1 }] });
+    const overlay = overlayHistograms(baseline, candidate, 4)!;
+
+    expect(overlay.bounds).toEqual([0, 10, 20, 30, 40]);
+    expect(overlay.baseline).toEqual([0.5, 0.5, 0, 0]);
+    expect(overlay.candidate).toEqual([0, 0, 0.5, 0.5]);
+  });
+
+  it('keeps the shares of each run summing to one', () => {
+    const baseline = report({ fastest: 1e6, histogram: [{ mark: 0.003, count: 3, frequency: 0.3 }, { mark: 0.009, count: 7, frequency: 0.7 }] });
+    const overlay = overlayHistograms(baseline, report({}), 7)!;
+    const sum = overlay.baseline.reduce((a, b) => a + b, 0);
+
+    expect(sum).toBeCloseTo(1);
+    expect(overlay.candidate.every(share => share === 0)).toBe(true);
+  });
+
+  it('is empty when neither run has a histogram', () => {
+    expect(overlayHistograms(report({}), report({}))).toBeNull();
+  });
+});
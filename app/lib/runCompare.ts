@@ -0,0 +1,119 @@
+import type { RunReport } from './loadRunner';
+
+// Metric-by-metric comparison of two reports (a baseline and a candidate),
+// as used to review numbers before and after a deploy
+
+export type DeltaVerdict = 'better' | 'worse' | 'same' | 'neutral';
+
+export interface MetricRow {
+  label: string;
+  unit: 'ms' | 'rps' | 'count' | '%';
+  baseline: number | null; // null when the report does not have the metric
+  candidate: number | null;
+  delta: number | null; // candidate - baseline
+  percent: number | null; // delta relative to the baseline
+  verdict: DeltaVerdict;
+}
+
+export interface HistogramOverlay {
+  bounds: number[]; // bucket edges in ms, one more than buckets
+  baseline: number[]; // share of calls per bucket (0..1)
+  candidate: number[];
+}
+
+// Changes smaller than this (in percent) are noise between runs
+export const NOISE_PERCENT = 2;
+
+type Direction = 'lower' | 'higher' | null;
+
+function row(label: string, unit: MetricRow['unit'], baseline: number | null, candidate: number | null, better: Direction): MetricRow {
+  if (baseline === null || candidate === null) {
+    return { label, unit, baseline, candidate, delta: null, percent: null, verdict: 'neutral' };
+  }
+  const delta = candidate - baseline;
+  const percent = baseline !== 0 ? (delta / Math.abs(baseline)) * 100 : delta === 0 ? 0 : null;
+  let verdict: DeltaVerdict = 'neutral';
+  if (better) {
+    const significant = percent === null ? delta !== 0 : Math.abs(percent) >= NOISE_PERCENT;
+    verdict = !significant ? 'same' : (delta < 0) === (better === 'lower') ? 'better' : 'worse';
+  }
+  return { label, unit, baseline, candidate, delta, percent, verdict };
+}
+
+const ms = (ns: number | undefined) => (ns === undefined ? null : ns / 1e6);
+const errorCount = (report: RunReport) => Object.values(report.errorDist || {}).reduce((sum, n) => sum + n, 0);
+
+// Summary metrics, RPS and error rate
+export function compareSummary(baseline: RunReport, candidate: RunReport): MetricRow[] {
+  const errorRate = (report: RunReport) => (report.count > 0 ? (errorCount(report) / report.count) * 100 : null);
+  return [
+    row('Count', 'count', baseline.count, candidate.count, null),
+    row('Total', 'ms', ms(baseline.total), ms(candidate.total), null),
+    row('Requests/sec', 'rps', baseline.rps, candidate.rps, 'higher'),
+    row('Average', 'ms', ms(baseline.average), ms(candidate.average), 'lower'),
+    row('Fastest', 'ms', ms(baseline.fastest), ms(candidate.fastest), 'lower'),
+    row('Slowest', 'ms', ms(baseline.slowest), ms(candidate.slowest), 'lower'),
+    row('Errors', 'count', errorCount(baseline), errorCount(candidate), 'lower'),
+    row('Error rate', '%', errorRate(baseline), errorRate(candidate), 'lower'),
+  ];
+}
+
+// Each latency percentile either report has
+export function comparePercentiles(baseline: RunReport, candidate: RunReport): MetricRow[] {
+  const percentages = [...new Set([...baseline.latencyDistribution, ...candidate.latencyDistribution].map(l => l.percentage))]
+    .sort((a, b) => a - b);
+  const at = (report: RunReport, percentage: number) =>
+    ms(report.latencyDistribution.find(l => l.percentage === percentage)?.latency);
+  return percentages.map(p => row(`p${p}`, 'ms', at(baseline, p), at(candidate, p), 'lower'));
+}
+
+// Response counts per status code; more OK responses is better, more of anything else worse
+export function compareStatusCodes(baseline: RunReport, candidate: RunReport): MetricRow[] {
+  const codes = [...new Set([...Object.keys(baseline.statusCodeDistribution || {}), ...Object.keys(candidate.statusCodeDistribution || {})])]
+    .sort((a, b) => (a === 'OK' ? -1 : b === 'OK' ? 1 : a.localeCompare(b)));
+  return codes.map(code => row(code, 'count',
+    baseline.statusCodeDistribution?.[code] ?? 0,
+    candidate.statusCodeDistribution?.[code] ?? 0,
+    code === 'OK' ? 'higher' : 'lower'));
+}
+
+// Edges of a report's histogram buckets in ms; marks are upper edges and
+// the first bucket starts at the fastest call
+function bucketEdges(report: RunReport): number[] {
+  const marks = report.histogram.map(h => h.mark * 1000);
+  return [Math.min(report.fastest / 1e6, marks[0]), ...marks];
+}
+
+// Spread a histogram over new bucket edges, assuming calls are evenly spread within a bucket
+function rebin(report: RunReport, bounds: number[]): number[] {
+  const shares = new Array(bounds.length - 1).fill(0);
+  const total = report.histogram.reduce((sum, h) => sum + h.count, 0);
+  if (total === 0) return shares;
+  const edges = bucketEdges(report);
+  report.histogram.forEach((bucket, i) => {
+    const [low, high] = [edges[i], edges[i + 1]];
+    for (let j = 0; j < shares.length; j++) {
+      const overlap = high > low
+        ? Math.max(0, Math.min(high, bounds[j + 1]) - Math.max(low, bounds[j])) / (high - low)
+        : low >= bounds[j] && (low < bounds[j + 1] || j === shares.length - 1) ? 1 : 0;
+      shares[j] += (overlap * bucket.count) / total;
+    }
+  });
+  return shares;
+}
+
+// Both histograms on shared buckets, so they can be drawn over each other
+export function overlayHistograms(baseline: RunReport, candidate: RunReport, bucketCount = 20): HistogramOverlay | null {
+  const withData = [baseline, candidate].filter(r => r.histogram?.length > 0);
+  if (withData.length === 0) return null;
+  const edges = withData.flatMap(bucketEdges);
+  const min = Math.min(...edges);
+  const max = Math.max(...edges);
+  const step = max > min ? (max - min) / bucketCount : 1;
+  const bounds = Array.from({ length: bucketCount + 1 }, (_, i) => min + step * i);
+  return {
+    bounds,
+    baseline: baseline.histogram?.length ? rebin(baseline, bounds) : bounds.slice(1).map(() => 0),
+    candidate: candidate.histogram?.length ? rebin(candidate, bounds) : bounds.slice(1).map(() => 0),
+  };
+}
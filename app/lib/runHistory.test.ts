@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { RunReport, RunRequest } from './loadRunner';
+import { deleteAllRuns, deleteRun, getRun, listRuns, protoHash, redactMetadata, saveRun } from './runHistory';
+
+let dataDir: string;
+const previousDataDir = process.env.GHZ_DATA_DIR;
+
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghz-history-'));
+  process.env.GHZ_DATA_DIR = dataDir;
+});
+
+afterAll(async () => {
+  if (previousDataDir === undefined) delete process.env.GHZ_DATA_DIR;
+  else process.env.GHZ_DATA_DIR = previousDataDir;
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const report: RunReport = {
+  date: '2026-01-01T00:00:00.000Z',
+  endReason: 'normal',
+  count: 10,
+  total: 1e9,
+  average: 2e6,
+  fastest: 1e6,
+  slowest: 5e6,
+  rps: 10,
+  callType: 'unary',
+  errorDist: { 'boom': 2, 'other': 1 },
+  statusCodeDistribution: { OK: 7, UNAVAILABLE: 3 },
+  latencyDistribution: [],
+  histogram: [],
+  details: [],
+};
+
+const request = (method = 'Say'): RunRequest => ({
+  protoContent: 'syntax = "proto3";',
+  service: 'test.v1.Echo',
+  method,
+  address: 'localhost:50051',
+  security: { mode: 'mtls', clientKey: 'PRIVATE KEY', clientCert: 'CERT', serverName: 'echo.local' },
+  metadata: { 'x-trace': 't1', Authorization: 'Bearer secret', 'x-api-key': 'k' },
+  config: { c: 1, n: 10 },
+});
+
+describe('redactMetadata', () => {
+  it('hides the values of secret-looking keys', () => {
+    expect(redactMetadata({ authorization: 'a', 'x-session-id': 'b', 'x-user': 'c' }))
+      .toEqual({ authorization: '[REDACTED]', 'x-session-id': '[REDACTED]', 'x-user': 'c' });
+    expect(redactMetadata(null)).toBeNull();
+  });
+});
+
+describe('protoHash', () => {
+  it('is the same for a bundle in any file order', () => {
+    const a = { name: 'a.proto', content: 'A' };
+    const b = { name: 'b.proto', content: 'B' };
+    expect(protoHash({ protoFiles: [a, b] })).toBe(protoHash({ protoFiles: [b, a] }));
+    expect(protoHash({ protoFiles: [a, b] })).not.toBe(protoHash({ protoFiles: [a, b], includeRoot: 'proto' }));
+    expect(protoHash({ protoContent: 'A' })).not.toBe(protoHash({ descriptorSet: 'A' }));
+  });
+});
+
+describe('run history', () => {
+  it('saves a step without certificates or secrets', async () => {
+    const record = await saveRun(request(), report);
+    const stored = await getRun(record.id);
+
+    expect(stored).toEqual(record);
+    expect(stored!.security).toEqual({ mode: 'mtls', serverName: 'echo.local' });
+    expect(stored!.metadata).toEqual({ 'x-trace': 't1', Authorization: '[REDACTED]', 'x-api-key': '[REDACTED]' });
+    expect(JSON.stringify(stored)).not.toContain('PRIVATE KEY');
+  });
+
+  it('lists summaries newest first, filtered and limited', async () => {
+    await deleteAllRuns();
+    // Ids order by their millisecond timestamp
+    const saveLater = async (method: string) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return saveRun(request(method), report);
+    };
+    const first = await saveLater('Say');
+    const second = await saveLater('Other');
+    const third = await saveLater('Say');
+
+    expect((await listRuns()).map(r => r.id)).toEqual([third.id, second.id, first.id]);
+    expect((await listRuns({ method: 'Say' })).map(r => r.id)).toEqual([third.id, first.id]);
+    expect(await listRuns({ limit: 1 })).toEqual([{
+      id: third.id,
+      savedAt: third.savedAt,
+      protoHash: third.protoHash,
+      target: 'localhost:50051',
+      service: 'test.v1.Echo',
+      method: 'Say',
+      callType: 'unary',
+      count: 10,
+      rps: 10,
+      average: 2e6,
+      errors: 3,
+      endReason: 'normal',
+    }]);
+  });
+
+  it('deletes single runs and everything', async () => {
+    await deleteAllRuns();
+    const kept = await saveRun(request(), report);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const removed = await saveRun(request(), report);
+
+    expect(await deleteRun(removed.id)).toBe(true);
+    expect(await deleteRun(removed.id)).toBe(false);
+    expect(await getRun(removed.id)).toBeNull();
+    expect((await listRuns()).map(r => r.id)).toEqual([kept.id]);
+    expect(await deleteAllRuns()).toBe(1);
+    expect(await listRuns()).toEqual([]);
+  });
+
+  it('never reads outside the history for odd ids', async () => {
+    expect(await getRun('../../etc/passwd')).toBeNull();
+    expect(await deleteRun('../x')).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import type { RunConfig, RunReport, RunRequest } from './loadRunner';
+import type { SecurityMode } from './connectionSecurity';
+
+// Completed steps saved as JSON files under GHZ_DATA_DIR (default ./.data),
+// one record per step plus a small summary file for listing
+
+export interface RunRecord {
+  id: string;
+  savedAt: string;
+  protoHash: string; // sha256 of the proto source, bundle or descriptor set
+  target: string;
+  service: string;
+  method: string;
+  security: { mode: SecurityMode; serverName?: string; skipVerify?: boolean }; // certificates are left out
+  config: RunConfig;
+  metadata: Record<string, unknown> | null; // secrets redacted
+  report: RunReport;
+}
+
+export interface RunSummary {
+  id: string;
+  savedAt: string;
+  protoHash: string;
+  target: string;
+  service: string;
+  method: string;
+  callType: string;
+  count: number;
+  rps: number;
+  average: number; // ns
+  errors: number;
+  endReason: string;
+  passed?: boolean; // whether every assertion held, when the step had any
+}
+
+const REDACTED = '[REDACTED]';
+// Metadata keys whose values must not end up on disk
+const SECRET_KEY_PATTERN = /auth|token|secret|passw|api[-_]?key|cookie|session|credential|signature/i;
+const ID_PATTERN = /^[\w-]+$/;
+
+const dataDir = () => path.resolve(process.env.GHZ_DATA_DIR || path.join(process.cwd(), '.data'));
+const runsDir = () => path.join(dataDir(), 'runs');
+const recordPath = (id: string) => path.join(runsDir(), `${id}.json`);
+const summaryPath = (id: string) => path.join(runsDir(), `${id}.summary.json`);
+
+// Ids come from URLs; only plain names may reach the file system
+const isValidRunId = (id: string) => ID_PATTERN.test(id);
+
+export function redactMetadata(metadata: Record<string, unknown> | null | undefined): Record<string, unknown> | null {
+  if (!metadata) return null;
+  return Object.fromEntries(Object.entries(metadata).map(([key, value]) =>
+    [key, SECRET_KEY_PATTERN.test(key) ? REDACTED : value]));
+}
+
+// Identifies the proto definitions a run used, so runs can be matched up later
+export function protoHash(request: Pick<RunRequest, 'protoContent' | 'protoFiles' | 'includeRoot' | 'descriptorSet'>): string {
+  const hash = crypto.createHash('sha256');
+  if (request.descriptorSet) {
+    hash.update(`descriptorSet\0${request.descriptorSet}`);
+  } else if (request.protoFiles?.length) {
+    hash.update(`includeRoot\0${request.includeRoot || ''}\0`);
+    for (const file of [...request.protoFiles].sort((a, b) => a.name.localeCompare(b.name))) {
+      hash.update(`${file.name}\0${file.content}\0`);
+    }
+  } else {
+    hash.update(`protoContent\0${request.protoContent || ''}`);
+  }
+  return hash.digest('hex');
+}
+
+function summarize(record: RunRecord): RunSummary {
+  const { report } = record;
+  return {
+    id: record.id,
+    savedAt: record.savedAt,
+    protoHash: record.protoHash,
+    target: record.target,
+    service: record.service,
+    method: record.method,
+    callType: report.callType,
+    count: report.count,
+    rps: report.rps,
+    average: report.average,
+    errors: Object.values(report.errorDist).reduce((sum, n) => sum + n, 0),
+    endReason: report.endReason,
+    ...(report.assertions && { passed: report.assertions.every(a => a.passed) }),
+  };
+}
+
+// Write to a temp file first so readers never see a half-written record
+async function writeJson(file: string, value: unknown) {
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(value));
+  await fs.rename(temp, file);
+}
+
+// Save a completed step; returns the stored record
+export async function saveRun(request: RunRequest, report: RunReport): Promise<RunRecord> {
+  const savedAt = new Date();
+  // Sortable by time, unique across concurrent steps
+  const id = `${savedAt.toISOString().replace(/[-:.]/g, '')}-${crypto.randomBytes(4).toString('hex')}`;
+  const security = request.security;
+  const record: RunRecord = {
+    id,
+    savedAt: savedAt.toISOString(),
+    protoHash: protoHash(request),
+    target: request.address,
+    service: request.service,
+    method: request.method,
+    security: {
+      mode: security?.mode || 'plaintext',
+      ...(security?.serverName && { serverName: security.serverName }),
+      ...(security?.skipVerify && { skipVerify: true }),
+    },
+    config: request.config || {},
+    metadata: redactMetadata(request.metadata),
+    report,
+  };
+
+  await fs.mkdir(runsDir(), { recursive: true });
+  await writeJson(recordPath(id), record);
+  await writeJson(summaryPath(id), summarize(record));
+  return record;
+}
+
+// Saved runs, newest first
+export async function listRuns(filter: { service?: string; method?: string; limit?: number } = {}): Promise<RunSummary[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(runsDir());
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+
+  const ids = names.filter(name => name.endsWith('.summary.json')).map(name => name.slice(0, -'.summary.json'.length)).sort().reverse();
+  const summaries: RunSummary[] = [];
+  for (const id of ids) {
+    let summary: RunSummary;
+    try {
+      summary = JSON.parse(await fs.readFile(summaryPath(id), 'utf8'));
+    } catch {
+      continue; // deleted meanwhile or unreadable
+    }
+    if (filter.service && summary.service !== filter.service) continue;
+    if (filter.method && summary.method !== filter.method) continue;
+    summaries.push(summary);
+    if (filter.limit && summaries.length >= filter.limit) break;
+  }
+  return summaries;
+}
+
+// A saved run, or null when there is none with this id
+export async function getRun(id: string): Promise<RunRecord | null> {
+  if (!isValidRunId(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(recordPath(id), 'utf8'));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+// Returns false when there is no run with this id
+export async function deleteRun(id: string): Promise<boolean> {
+  if (!isValidRunId(id)) return false;
+  try {
+    await fs.unlink(recordPath(id));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw e;
+  }
+  await fs.rm(summaryPath(id), { force: true });
+  return true;
+}
+
+// Delete every saved run; returns how many were removed
+export async function deleteAllRuns(): Promise<number> {
+  const runs = await listRuns();
+  for (const run of runs) await deleteRun(run.id);
+  return runs.length;
+}
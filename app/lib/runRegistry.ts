@@ -0,0 +1,21 @@
+// Abort controllers of the runs in progress on this instance, keyed by the
+// client-generated run id, so DELETE /api/ghz/run can stop them. Kept on
+// globalThis because Next.js may load this module once per route bundle.
+const registry = globalThis as typeof globalThis & { __ghzActiveRuns?: Map<string, AbortController> };
+const activeRuns = registry.__ghzActiveRuns ??= new Map<string, AbortController>();
+
+export function registerRun(runId: string, controller: AbortController): void {
+  activeRuns.set(runId, controller);
+}
+
+export function unregisterRun(runId: string): void {
+  activeRuns.delete(runId);
+}
+
+// Returns false when no run with this id is in progress
+export function cancelRun(runId: string): boolean {
+  const controller = activeRuns.get(runId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { CallResult } from './grpcCalls';
+import { ERROR_SAMPLE_SIZE, MAX_ERROR_KINDS, OTHER_ERRORS, RunStats } from './runStats';
+
+const ok = (latency: number, start = 0): CallResult => ({ latency, start, error: null, statusCode: 'OK' });
+const failed = (error: string, latency = 1e6): CallResult => ({ latency, start: 0, error, statusCode: 'UNAVAILABLE' });
+
+describe('RunStats', () => {
+  it('sums up the calls', () => {
+    const stats = new RunStats(0, false, false);
+    for (const latency of [1e6, 2e6, 3e6, 4e6]) stats.record(ok(latency));
+
+    expect(stats.count).toBe(4);
+    expect(stats.average).toBe(2.5e6);
+    expect(stats.stddev).toBeCloseTo(Math.sqrt(1.25e12));
+    expect(stats.statusCodes).toEqual({ OK: 4 });
+    expect(stats.latencyDistribution().find(l => l.percentage === 50)?.latency).toBeCloseTo(2e6, -4);
+    expect(stats.histogram(3).map(b => b.count)).toEqual([1, 1, 2]);
+    expect(stats.details).toBeNull();
+  });
+
+  it('counts calls that were never sent without a latency', () => {
+    const stats = new RunStats(0, true, false);
+    stats.record(ok(4e6));
+    stats.record({ latency: 0, unsent: true, error: 'bad template', statusCode: 'INVALID_ARGUMENT' });
+
+    expect(stats.count).toBe(2);
+    expect(stats.latencies.count).toBe(1);
+    expect(stats.average).toBe(4e6);
+    expect(stats.stddev).toBe(0);
+    expect(stats.histogram()).toEqual([{ mark: 4e-3, count: 1, frequency: 1 }]);
+    expect(stats.statusCodes).toEqual({ OK: 1, INVALID_ARGUMENT: 1 });
+    expect(stats.errors).toEqual({ 'bad template': 1 });
+    expect(stats.details).toHaveLength(2);
+  });
+
+  it('has no latencies when no call was sent', () => {
+    const stats = new RunStats(0, false, false);
+    stats.record({ latency: 0, unsent: true, error: 'bad template', statusCode: 'INVALID_ARGUMENT' });
+
+    expect(stats.latencyDistribution()).toEqual([]);
+    expect(stats.histogram()).toEqual([]);
+    expect(stats.average).toBe(0);
+  });
+
+  it('keeps call details with their time when asked', () => {
+    const stats = new RunStats(Date.parse('2026-01-01T00:00:00Z'), true, true);
+    stats.record({ ...ok(2e6, 5e6), messagesSent: 3, messagesReceived: 1 });
+
+    expect(stats.details).toEqual([
+      { timestamp: '2026-01-01T00:00:00.007Z', offset: 5e6, latency: 2e6, error: '', status: 'OK', sent: 3, received: 1 },
+    ]);
+    expect(stats).toMatchObject({ messagesSent: 3, messagesReceived: 1 });
+  });
+
+  it('groups error messages past the limit', () => {
+    const stats = new RunStats(0, false, false);
+    for (let i = 0; i < MAX_ERROR_KINDS + 5; i++) stats.record(failed(`no route to 10.0.0.${i}`));
+    stats.record(failed('no route to 10.0.0.0'));
+
+    expect(Object.keys(stats.errors)).toHaveLength(MAX_ERROR_KINDS + 1);
+    expect(stats.errors[OTHER_ERRORS]).toBe(5);
+    expect(stats.errors['no route to 10.0.0.0']).toBe(2);
+  });
+
+  it('keeps a bounded sample of the failed calls', () => {
+    const stats = new RunStats(0, false, false);
+    for (let i = 0; i < ERROR_SAMPLE_SIZE * 3; i++) stats.record(failed(`error ${i}`));
+
+    expect(stats.errorSamples).toHaveLength(ERROR_SAMPLE_SIZE);
+    expect(stats.errorSamples.every(d => d.status === 'UNAVAILABLE')).toBe(true);
+  });
+
+  it('merges into the statistics of both sets of calls', () => {
+    const whole = new RunStats(0, true, false);
+    const a = new RunStats(0, true, false);
+    const b = new RunStats(0, true, false);
+    const calls: [RunStats, CallResult][] = [
+      [a, ok(1e6, 0)], [a, ok(2e6, 1e6)], [a, ok(9e6, 2e6)],
+      [b, ok(4e6, 5e5)], [b, ok(8e6, 15e5)], [b, failed('down')],
+    ];
+    for (const [part, call] of calls) {
+      part.record(call);
+      whole.record(call);
+    }
+    a.merge(b);
+
+    expect(a.count).toBe(6);
+    expect(a.average).toBeCloseTo(whole.average);
+    expect(a.stddev).toBeCloseTo(whole.stddev);
+    expect(a.latencies.buckets()).toEqual(whole.latencies.buckets());
+    expect(a.statusCodes).toEqual({ OK: 5, UNAVAILABLE: 1 });
+    expect(a.errors).toEqual({ down: 1 });
+    expect(a.errorSamples).toHaveLength(1);
+    expect(a.details!.map(d => d.offset)).toEqual([...a.details!.map(d => d.offset!)].sort((x, y) => x - y));
+  });
+
+  it('merges calls that were never sent without a latency', () => {
+    const a = new RunStats(0, false, false);
+    a.record(ok(2e6));
+    const b = new RunStats(0, false, false);
+    b.record({ latency: 0, unsent: true, error: 'bad template', statusCode: 'INVALID_ARGUMENT' });
+    a.merge(b);
+    b.merge(a);
+
+    expect(a).toMatchObject({ count: 2, average: 2e6, stddev: 0 });
+    expect(b).toMatchObject({ count: 3, average: 2e6, stddev: 0 });
+  });
+
+  it('reads back its JSON', () => {
+    const stats = new RunStats(1000, false, true);
+    stats.record({ ...ok(3e6), messagesSent: 2, messagesReceived: 2 });
+    stats.record(failed('down', 1e6));
+    const copy = RunStats.fromJSON(JSON.parse(JSON.stringify(stats)));
+
+    expect(copy.toJSON()).toEqual(stats.toJSON());
+    expect(copy).toMatchObject({ count: 2, average: 2e6, stddev: 1e6, messagesSent: 2 });
+    expect(copy.timeSeries.build()).toEqual(stats.timeSeries.build());
+  });
+});
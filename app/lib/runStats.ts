@@ -0,0 +1,203 @@
+import type { CallResult } from './grpcCalls';
+import type { RunReport } from './loadRunner';
+import { LatencyHistogram, LatencyHistogramData } from './latencyHistogram';
+import { TimeSeriesData, TimeSeriesRecorder } from './timeSeries';
+
+// Statistics of a run, updated call by call in constant memory: per-call
+// details are only kept when asked for
+
+// Distinct error messages counted separately; messages that embed ids or
+// addresses would otherwise grow errorDist without bound
+export const MAX_ERROR_KINDS = 100;
+export const OTHER_ERRORS = '(other errors)';
+// Failed calls kept as examples when details are off
+export const ERROR_SAMPLE_SIZE = 100;
+
+type CallDetail = RunReport['details'][number];
+
+// Statistics as JSON, sent by agent instances to the one coordinating a
+// distributed run
+export interface RunStatsData {
+  startedAt: number;
+  streaming: boolean;
+  latencies: LatencyHistogramData;
+  timeSeries: TimeSeriesData;
+  count: number;
+  mean: number;
+  m2: number;
+  statusCodes: { [key: string]: number };
+  errors: { [key: string]: number };
+  failed: number;
+  errorSamples: CallDetail[];
+  messagesSent: number;
+  messagesReceived: number;
+  details: CallDetail[] | null;
+}
+
+export class RunStats {
+  latencies = new LatencyHistogram();
+  timeSeries = new TimeSeriesRecorder();
+  count = 0;
+  private mean = 0; // of the latencies, which calls never sent do not have
+  private m2 = 0; // sum of squared differences from the mean (Welford)
+  statusCodes: { [key: string]: number } = {};
+  errors: { [key: string]: number } = {};
+  private failed = 0;
+  errorSamples: CallDetail[] = []; // uniform sample of the failed calls
+  messagesSent = 0;
+  messagesReceived = 0;
+  details: CallDetail[] | null;
+
+  // startedAt: wall clock ms when the run started, for detail timestamps
+  constructor(private readonly startedAt: number, keepDetails: boolean, private readonly streaming: boolean) {
+    this.details = keepDetails ? [] : null;
+  }
+
+  record(result: CallResult) {
+    const start = result.start ?? 0;
+    this.count++;
+    if (!result.unsent) {
+      this.latencies.record(result.latency);
+      const delta = result.latency - this.mean;
+      this.mean += delta / this.latencies.count;
+      this.m2 += delta * (result.latency - this.mean);
+    }
+    this.timeSeries.record(start, result.latency, !!result.error, result.unsent);
+    this.statusCodes[result.statusCode] = (this.statusCodes[result.statusCode] || 0) + 1;
+    this.messagesSent += result.messagesSent || 0;
+    this.messagesReceived += result.messagesReceived || 0;
+
+    const detail = this.details || result.error ? this.detail(result, start) : null;
+    if (this.details) this.details.push(detail!);
+    if (result.error) {
+      this.countError(result.error, 1);
+      // Reservoir sampling: every failed call is equally likely to be kept
+      this.failed++;
+      if (this.errorSamples.length < ERROR_SAMPLE_SIZE) {
+        this.errorSamples.push(detail!);
+      } else {
+        const slot = Math.floor(Math.random() * this.failed);
+        if (slot < ERROR_SAMPLE_SIZE) this.errorSamples[slot] = detail!;
+      }
+    }
+  }
+
+  private countError(error: string, count: number) {
+    const key = this.errors[error] !== undefined || Object.keys(this.errors).length < MAX_ERROR_KINDS
+      ? error
+      : OTHER_ERRORS;
+    this.errors[key] = (this.errors[key] || 0) + count;
+  }
+
+  // Add the calls of another instance's share of the run. Both count time
+  // from their own start, which distributed runs line up.
+  merge(other: RunStats) {
+    // Means over the calls with a latency, as in record
+    const sampled = this.latencies.count;
+    const otherSampled = other.latencies.count;
+    if (sampled + otherSampled > 0) {
+      // Chan et al.'s parallel variant of Welford's algorithm
+      const delta = other.mean - this.mean;
+      this.m2 += other.m2 + delta * delta * sampled * otherSampled / (sampled + otherSampled);
+      this.mean += delta * otherSampled / (sampled + otherSampled);
+    }
+    this.count += other.count;
+    this.latencies.merge(other.latencies);
+    this.timeSeries.merge(other.timeSeries);
+    for (const [code, n] of Object.entries(other.statusCodes)) this.statusCodes[code] = (this.statusCodes[code] || 0) + n;
+    for (const [error, n] of Object.entries(other.errors)) this.countError(error, n);
+    this.messagesSent += other.messagesSent;
+    this.messagesReceived += other.messagesReceived;
+    if (this.details && other.details) {
+      this.details = [...this.details, ...other.details].sort((a, b) => (a.offset ?? 0) - (b.offset ?? 0));
+    } else {
+      this.details = null;
+    }
+
+    // Draw the merged sample from both, in proportion to their failed calls
+    const mine = [...this.errorSamples];
+    const theirs = [...other.errorSamples];
+    const failed = this.failed + other.failed;
+    this.errorSamples = [];
+    while (this.errorSamples.length < ERROR_SAMPLE_SIZE && (mine.length > 0 || theirs.length > 0)) {
+      const fromMine = theirs.length === 0 || (mine.length > 0 && Math.random() * failed < this.failed);
+      this.errorSamples.push((fromMine ? mine : theirs).pop()!);
+    }
+    this.failed = failed;
+  }
+
+  toJSON(): RunStatsData {
+    return {
+      startedAt: this.startedAt,
+      streaming: this.streaming,
+      latencies: this.latencies.toJSON(),
+      timeSeries: this.timeSeries.toJSON(),
+      count: this.count,
+      mean: this.mean,
+      m2: this.m2,
+      statusCodes: this.statusCodes,
+      errors: this.errors,
+      failed: this.failed,
+      errorSamples: this.errorSamples,
+      messagesSent: this.messagesSent,
+      messagesReceived: this.messagesReceived,
+      details: this.details,
+    };
+  }
+
+  static fromJSON(data: RunStatsData): RunStats {
+    const stats = new RunStats(data.startedAt, false, data.streaming);
+    stats.latencies = LatencyHistogram.fromJSON(data.latencies);
+    stats.timeSeries = TimeSeriesRecorder.fromJSON(data.timeSeries);
+    stats.count = data.count;
+    stats.mean = data.mean;
+    stats.m2 = data.m2;
+    stats.statusCodes = data.statusCodes;
+    stats.errors = data.errors;
+    stats.failed = data.failed;
+    stats.errorSamples = data.errorSamples;
+    stats.messagesSent = data.messagesSent;
+    stats.messagesReceived = data.messagesReceived;
+    stats.details = data.details;
+    return stats;
+  }
+
+  private detail(result: CallResult, start: number): CallDetail {
+    return {
+      timestamp: new Date(this.startedAt + (start + result.latency) / 1e6).toISOString(),
+      offset: start,
+      latency: result.latency,
+      error: result.error || '',
+      status: result.statusCode,
+      ...(this.streaming && { sent: result.messagesSent, received: result.messagesReceived }),
+    };
+  }
+
+  get average(): number {
+    return this.mean;
+  }
+
+  // Population standard deviation of the latencies
+  get stddev(): number {
+    return this.latencies.count > 0 ? Math.sqrt(this.m2 / this.latencies.count) : 0;
+  }
+
+  latencyDistribution(): { percentage: number; latency: number }[] {
+    if (this.latencies.count === 0) return [];
+    return [10, 25, 50, 75, 90, 95, 99].map(p => ({ percentage: p, latency: this.latencies.valueAt(p) }));
+  }
+
+  // bucketCount equal buckets between the fastest and slowest call, as ghz
+  histogram(bucketCount = 10): { mark: number; count: number; frequency: number }[] {
+    const { count: sampled, min, max } = this.latencies;
+    if (sampled === 0) return [];
+    if (min === max) return [{ mark: min / 1e9, count: sampled, frequency: 1 }];
+
+    const bucketSize = (max - min) / bucketCount;
+    const counts = new Array<number>(bucketCount).fill(0);
+    for (const { value, count } of this.latencies.buckets()) {
+      counts[Math.min(bucketCount - 1, Math.floor((value - min) / bucketSize))] += count;
+    }
+    return counts.map((count, i) => ({ mark: (min + bucketSize * (i + 1)) / 1e9, count, frequency: count / sampled }));
+  }
+}
@@ -0,0 +1,11 @@
+// Characters a POSIX shell reads literally outside of quotes
+const PLAIN_WORD = /^[\w@%+=:,./-]+$/;
+
+// A value as one shell word for the generated ghz commands. Inside single
+// quotes nothing is special, so a quote is written as '\'' (close the
+// quotes, an escaped quote, reopen them).
+export function shellQuote(value: string | number): string {
+  const text = String(value);
+  if (PLAIN_WORD.test(text)) return text;
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
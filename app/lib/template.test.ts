@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { compilePayload, compileTemplate, TemplateContext } from './template';
+
+const ctx: TemplateContext = {
+  requestNumber: 7,
+  fullyQualifiedName: 'demo.v1.Echo.Say',
+  methodName: 'Say',
+  serviceName: 'demo.v1.Echo',
+  inputName: 'EchoRequest',
+  outputName: 'EchoReply',
+  isClientStreaming: false,
+  isServerStreaming: true,
+  timestamp: new Date('2026-01-02T03:04:05.678Z'),
+  uuid: '00000000-0000-4000-8000-000000000000',
+};
+
+const render = (text: string) => compileTemplate(text)!(ctx);
+
+describe('compileTemplate', () => {
+  it('leaves text without actions alone', () => {
+    expect(compileTemplate('plain text')).toBeNull();
+  });
+
+  it('renders the call fields', () => {
+    expect(render('req-{{.RequestNumber}}')).toBe('req-7');
+    expect(render('{{.FullyQualifiedName}} {{.MethodName}} {{.ServiceName}}')).toBe('demo.v1.Echo.Say Say demo.v1.Echo');
+    expect(render('{{.InputName}}/{{.OutputName}}')).toBe('EchoRequest/EchoReply');
+    expect(render('{{.IsClientStreaming}} {{.IsServerStreaming}}')).toBe('false true');
+    expect(render('{{ .UUID }}')).toBe(ctx.uuid);
+  });
+
+  it('renders timestamps in each unit', () => {
+    expect(render('{{.Timestamp}}')).toBe('2026-01-02T03:04:05.678Z');
+    expect(render('{{.TimestampUnix}}')).toBe('1767323045');
+    expect(render('{{.TimestampUnixMilli}}')).toBe('1767323045678');
+    expect(render('{{.TimestampUnixNano}}')).toBe('1767323045678000000');
+  });
+
+  it('renders random values within their bounds', () => {
+    expect(render('{{randomString 12}}')).toMatch(/^[a-zA-Z0-9]{12}$/);
+    expect(render('{{randomString}}')).toHaveLength(10);
+    expect(render('{{newUUID}}')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    const ints = Array.from({ length: 200 }, () => Number(render('{{randomInt 5 8}}')));
+    expect(Math.min(...ints)).toBeGreaterThanOrEqual(5);
+    expect(Math.max(...ints)).toBeLessThan(8);
+  });
+
+  it('rejects unknown fields and functions', () => {
+    expect(() => compileTemplate('{{.Nope}}')).toThrow('Unknown template field "{{.Nope}}"');
+    expect(() => compileTemplate('{{nope 1}}')).toThrow('Unknown template function');
+  });
+
+  it('rejects bad arguments when compiled', () => {
+    expect(() => compileTemplate('{{randomString x}}')).toThrow('expected integer arguments');
+    expect(() => compileTemplate('{{randomInt 5}}')).toThrow('expected integer arguments');
+    expect(() => compileTemplate('{{randomInt 10 5}}')).toThrow('max must be greater than min');
+    expect(() => compileTemplate('{{randomInt 5 5}}')).toThrow('max must be greater than min');
+  });
+});
+
+describe('compilePayload', () => {
+  it('returns null for values without actions', () => {
+    expect(compilePayload({ a: 'x', b: [1, 'y'], c: { d: true } })).toBeNull();
+  });
+
+  it('renders strings nested in objects and arrays, keeping the rest', () => {
+    const payload = { id: '{{.RequestNumber}}', tags: ['a', '{{.MethodName}}'], nested: { n: 1, uuid: '{{.UUID}}' } };
+    expect(compilePayload(payload)!(ctx)).toEqual({ id: '7', tags: ['a', 'Say'], nested: { n: 1, uuid: ctx.uuid } });
+  });
+});
@@ -0,0 +1,125 @@
+// ghz-style call templates: {{.RequestNumber}}, {{.UUID}}, {{randomString 8}}, ...
+// rendered per call in request data and metadata values.
+
+export interface TemplateContext {
+  requestNumber: number;
+  fullyQualifiedName: string; // e.g. "demo.v1.Echo.Say"
+  methodName: string;
+  serviceName: string;
+  inputName: string;
+  outputName: string;
+  isClientStreaming: boolean;
+  isServerStreaming: boolean;
+  timestamp: Date; // call start
+  uuid: string; // one per call, shared by data and metadata
+}
+
+type Renderer = (ctx: TemplateContext) => string;
+
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+const FIELDS: Record<string, (ctx: TemplateContext) => string> = {
+  RequestNumber: ctx => String(ctx.requestNumber),
+  FullyQualifiedName: ctx => ctx.fullyQualifiedName,
+  MethodName: ctx => ctx.methodName,
+  ServiceName: ctx => ctx.serviceName,
+  InputName: ctx => ctx.inputName,
+  OutputName: ctx => ctx.outputName,
+  IsClientStreaming: ctx => String(ctx.isClientStreaming),
+  IsServerStreaming: ctx => String(ctx.isServerStreaming),
+  Timestamp: ctx => ctx.timestamp.toISOString(),
+  TimestampUnix: ctx => String(Math.floor(ctx.timestamp.getTime() / 1000)),
+  TimestampUnixMilli: ctx => String(ctx.timestamp.getTime()),
+  TimestampUnixNano: ctx => `${ctx.timestamp.getTime()}000000`,
+  UUID: ctx => ctx.uuid,
+};
+
+function randomString(length: number): string {
+  let out = '';
+  for (let i = 0; i < length; i++) {
+    out += ALPHANUMERIC[Math.floor(Math.random() * ALPHANUMERIC.length)];
+  }
+  return out;
+}
+
+function intArg(action: string, value: string | undefined): number {
+  const n = Number(value);
+  if (value === undefined || !Number.isInteger(n)) {
+    throw new Error(`Invalid template action "{{${action}}}": expected integer arguments`);
+  }
+  return n;
+}
+
+// Compile a single {{ ... }} action
+function compileAction(action: string): Renderer {
+  const trimmed = action.trim();
+
+  if (trimmed.startsWith('.')) {
+    const field = FIELDS[trimmed.slice(1)];
+    if (!field) throw new Error(`Unknown template field "{{${trimmed}}}"`);
+    return field;
+  }
+
+  const [fn, ...args] = trimmed.split(/\s+/);
+  switch (fn) {
+    case 'newUUID':
+      return () => crypto.randomUUID();
+    case 'randomString': {
+      const length = args.length > 0 ? intArg(trimmed, args[0]) : 10;
+      return () => randomString(length);
+    }
+    case 'randomInt': {
+      const min = intArg(trimmed, args[0]);
+      const max = intArg(trimmed, args[1]);
+      if (max <= min) {
+        throw new Error(`Invalid template action "{{${trimmed}}}": max must be greater than min`);
+      }
+      return () => String(min + Math.floor(Math.random() * (max - min)));
+    }
+    default:
+      throw new Error(`Unknown template function "{{${trimmed}}}"`);
+  }
+}
+
+// Compile a string with template actions. Returns null when it has none.
+export function compileTemplate(text: string): Renderer | null {
+  if (!text.includes('{{')) return null;
+
+  const parts: (string | Renderer)[] = [];
+  const re = /\{\{(.*?)\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    if (match.index > last) parts.push(text.slice(last, match.index));
+    parts.push(compileAction(match[1]));
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+
+  return ctx => parts.map(p => (typeof p === 'string' ? p : p(ctx))).join('');
+}
+
+// Compile every string inside a JSON value (object keys are left alone).
+// Returns null when the value has no template actions, so it can be reused as-is.
+export function compilePayload<T>(value: T): ((ctx: TemplateContext) => T) | null {
+  if (typeof value === 'string') {
+    const render = compileTemplate(value);
+    return render as ((ctx: TemplateContext) => T) | null;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(item => compilePayload(item));
+    if (items.every(item => item === null)) return null;
+    return ctx => value.map((item, i) => (items[i] ? items[i]!(ctx) : item)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, item]) => [key, item, compilePayload(item)] as const);
+    if (entries.every(([, , render]) => render === null)) return null;
+    return ctx => Object.fromEntries(
+      entries.map(([key, item, render]) => [key, render ? render(ctx) : item])
+    ) as T;
+  }
+
+  return null;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { missingPlanFields, planStepRequest, stepRunConfig, TestPlan } from './testPlan';
+
+const plan: TestPlan = {
+  protoContent: 'syntax = "proto3";',
+  service: 'demo.v1.Echo',
+  method: 'Say',
+  target: 'localhost:50051',
+  metadata: { 'x-id': '1' },
+  steps: [{ c: 2, n: 10, data: '{\n  // greeting\n  "message": "hi"\n}' }],
+};
+
+describe('stepRunConfig', () => {
+  it('reads data given as JSON with comments or as an object', () => {
+    expect(stepRunConfig(plan.steps[0]).data).toEqual({ message: 'hi' });
+    expect(stepRunConfig({ c: 1, n: 1, data: { message: 'hi' } }).data).toEqual({ message: 'hi' });
+    expect(stepRunConfig({ c: 1, n: 1 }).data).toEqual({});
+  });
+
+  it('uses the duration only for duration steps', () => {
+    expect(stepRunConfig({ c: 1, n: 5, z: '10s' }).z).toBeUndefined();
+    expect(stepRunConfig({ c: 1, n: 5, z: '10s', mode: 'duration' }).z).toBe('10s');
+  });
+
+  it('sends an uploaded data set instead of the data', () => {
+    const config = stepRunConfig({ c: 1, n: 1, data: '{"a":1}', dataFile: { name: 'set.json', messages: [{ a: 2 }] }, dataOrder: 'random' });
+
+    expect(config).toMatchObject({ data: {}, dataSet: [{ a: 2 }], dataOrder: 'random' });
+  });
+
+  it('reads assertions written in short form', () => {
+    const config = stepRunConfig({ c: 1, n: 1, assertions: ['p95 < 50ms', { type: 'minRps', min: 10 }] });
+
+    expect(config.assertions).toEqual([{ type: 'latency', percentile: 95, maxMs: 50 }, { type: 'minRps', min: 10 }]);
+    expect(() => stepRunConfig({ c: 1, n: 1, assertions: ['fast'] })).toThrow('Cannot read assertion "fast"');
+  });
+});
+
+describe('missingPlanFields', () => {
+  it('names every field a plan cannot run without', () => {
+    expect(missingPlanFields(plan)).toEqual([]);
+    expect(missingPlanFields({ steps: [] })).toEqual(['protoContent', 'service', 'method', 'target', 'steps']);
+    expect(missingPlanFields({ ...plan, protoContent: undefined, descriptorSet: 'AAAA' })).toEqual([]);
+  });
+});
+
+describe('planStepRequest', () => {
+  it('builds the runner request for a step', () => {
+    expect(planStepRequest(plan, plan.steps[0])).toMatchObject({
+      protoContent: plan.protoContent,
+      service: 'demo.v1.Echo',
+      method: 'Say',
+      address: 'localhost:50051',
+      metadata: { 'x-id': '1' },
+      config: { c: 2, n: 10, data: { message: 'hi' } },
+    });
+  });
+
+  it('prefers a descriptor set, then proto files, over the proto text', () => {
+    const files = [{ name: 'echo.proto', content: '' }];
+
+    expect(planStepRequest({ ...plan, descriptorSet: 'AAAA', protoFiles: files }, plan.steps[0])).not.toHaveProperty('protoContent');
+    expect(planStepRequest({ ...plan, protoFiles: files, includeRoot: 'proto' }, plan.steps[0]))
+      .toMatchObject({ protoFiles: files, includeRoot: 'proto' });
+  });
+});
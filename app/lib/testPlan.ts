@@ -0,0 +1,100 @@
+import { Assertion, parseAssertion } from './assertions';
+import type { ConnectionSecurity } from './connectionSecurity';
+import type { LoadSchedule } from './loadSchedule';
+import type { RunConfig, RunRequest } from './loadRunner';
+import type { DataOrder } from './payloads';
+import type { ProtoFile } from './protoBundle';
+import { parseJsonc } from './jsonc';
+
+// One step of a test plan, as edited in the configuration panel
+export interface TestStep extends LoadSchedule {
+  id: string;
+  c: number;
+  n: number;
+  data: string; // JSON string, `//` comments allowed
+  streamCount?: number; // messages sent per client/bidi stream
+  connections?: number; // connections the calls are spread over (ghz --connections)
+  threads?: number; // worker threads making the calls
+  mode?: 'count' | 'duration'; // stop after n requests or after z (n becomes an optional cap)
+  z?: string; // duration, e.g. "30s" or "5m"
+  dataFile?: { name: string; messages: object[] }; // uploaded JSON/NDJSON data set, replaces `data`
+  dataOrder?: DataOrder; // how calls pick from a data set
+  assertions?: Assertion[]; // SLOs the step must meet to pass
+  details?: boolean; // keep every call in the report, for CSV and InfluxDB detail exports
+  distributed?: boolean; // split across the agent instances registered on the server
+}
+
+// Steps in a plan file; hand-written plans may leave out the id, give data
+// as JSON and write assertions in short form ("p95 < 50ms")
+export type PlanStep = Omit<TestStep, 'id' | 'data' | 'assertions'> & {
+  id?: string;
+  data?: string | object;
+  assertions?: (Assertion | string)[];
+};
+
+// Everything needed to run the steps built in the UI without it, as taken
+// by POST /api/plans/run. The proto comes as in RunRequest.
+export interface TestPlan {
+  name?: string;
+  protoContent?: string;
+  protoFiles?: ProtoFile[];
+  includeRoot?: string;
+  descriptorSet?: string;
+  service: string;
+  method: string;
+  target: string;
+  security?: ConnectionSecurity | null;
+  metadata?: Record<string, unknown> | null;
+  steps: PlanStep[];
+}
+
+// Runner settings for a step. Throws when the step's data is not valid JSON
+// or an assertion cannot be read.
+export function stepRunConfig(step: PlanStep): RunConfig {
+  return {
+    c: step.c,
+    n: step.n,
+    z: step.mode === 'duration' ? step.z : undefined,
+    data: step.dataFile ? {} : typeof step.data === 'string' ? parseJsonc(step.data) : step.data ?? {},
+    dataSet: step.dataFile?.messages,
+    dataOrder: step.dataOrder,
+    streamCount: step.streamCount,
+    connections: step.connections,
+    threads: step.threads,
+    rps: step.rps,
+    loadSchedule: step.loadSchedule,
+    loadStart: step.loadStart,
+    loadStep: step.loadStep,
+    loadEnd: step.loadEnd,
+    loadStepDuration: step.loadStepDuration,
+    assertions: step.assertions?.map(a => (typeof a === 'string' ? parseAssertion(a) : a)),
+    details: step.details,
+    distributed: step.distributed,
+  };
+}
+
+// Fields a plan cannot run without
+export function missingPlanFields(plan: Partial<TestPlan>): string[] {
+  const missing = [];
+  if (!plan.protoContent && !plan.protoFiles?.length && !plan.descriptorSet) missing.push('protoContent');
+  if (!plan.service) missing.push('service');
+  if (!plan.method) missing.push('method');
+  if (!plan.target) missing.push('target');
+  if (!Array.isArray(plan.steps) || plan.steps.length === 0) missing.push('steps');
+  return missing;
+}
+
+// The runner request for one step of a plan
+export function planStepRequest(plan: TestPlan, step: PlanStep): RunRequest {
+  return {
+    ...(plan.descriptorSet
+      ? { descriptorSet: plan.descriptorSet }
+      : plan.protoFiles?.length ? { protoFiles: plan.protoFiles, includeRoot: plan.includeRoot } : { protoContent: plan.protoContent }),
+    service: plan.service,
+    method: plan.method,
+    address: plan.target,
+    security: plan.security,
+    metadata: plan.metadata ?? null,
+    config: stepRunConfig(step),
+  };
+}
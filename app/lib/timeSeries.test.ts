@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { RunReport } from './loadRunner';
+import { buildTimeSeries, TimeSeriesRecorder } from './timeSeries';
+
+const ms = 1e6;
+const call = (offset: number, latency: number, error = ''): RunReport['details'][number] => ({
+  offset: offset * ms,
+  latency: latency * ms,
+  error,
+  status: error ? 'UNAVAILABLE' : 'OK',
+});
+
+describe('buildTimeSeries', () => {
+  it('buckets the calls by when they ended', () => {
+    // Two 50 ms calls ending in each 100 ms, the third failing
+    const series = buildTimeSeries([call(0, 50), call(40, 50), call(100, 50, 'down'), call(150, 50)])!;
+
+    expect(series.interval).toBe(0.1);
+    expect(series.points.map(p => p.time)).toEqual([0, 0.1]);
+    expect(series.points.map(p => p.rps)).toEqual([20, 20]);
+    expect(series.points.map(p => p.errors)).toEqual([0, 10]);
+    expect(series.points[0]).toMatchObject({ p50: 50 * ms, p99: 50 * ms });
+  });
+
+  it('averages the calls in flight over each bucket', () => {
+    // Two calls over the whole of the first 100 ms, one over half the second
+    const series = buildTimeSeries([call(0, 100), call(0, 100), call(100, 50)])!;
+
+    expect(series.points.map(p => p.inFlight)).toEqual([2, 1]);
+  });
+
+  it('widens the buckets to keep long runs within the chart', () => {
+    const series = buildTimeSeries([call(0, 10), call(99_000, 1000)])!;
+
+    expect(series.interval).toBe(1);
+    expect(series.points).toHaveLength(100);
+    expect(series.points[50]).toMatchObject({ rps: 0, p50: null });
+  });
+
+  it('derives the start of ghz calls from their end timestamps', () => {
+    const series = buildTimeSeries([
+      { timestamp: '2026-01-01T00:00:00.100Z', latency: 100 * ms, error: '', status: 'OK' },
+      { timestamp: '2026-01-01T00:00:00.200Z', latency: 100 * ms, error: '', status: 'OK' },
+    ])!;
+
+    expect(series.points.map(p => p.inFlight)).toEqual([1, 1]);
+  });
+
+  it('is null without call times', () => {
+    expect(buildTimeSeries(undefined)).toBeNull();
+    expect(buildTimeSeries([])).toBeNull();
+    expect(buildTimeSeries([{ latency: ms, error: '', status: 'OK' }])).toBeNull();
+  });
+});
+
+describe('TimeSeriesRecorder', () => {
+  it('counts calls that were never sent without a latency', () => {
+    const recorder = new TimeSeriesRecorder();
+    recorder.record(0, 0, true, true);
+    recorder.record(0, 50 * ms, false);
+
+    const [point] = recorder.build()!.points;
+    expect(point.p50).toBe(point.p99);
+    expect(point.p50).toBeCloseTo(50 * ms, -5);
+    expect(point.rps).toBe(40);
+    expect(point.errors).toBe(20);
+  });
+
+  it('merges buckets as the run gets longer, in any order', () => {
+    const recorder = new TimeSeriesRecorder();
+    recorder.record(100_000 * ms, 10 * ms, false);
+    recorder.record(0, 10 * ms, false);
+    recorder.record(5 * ms, 10 * ms, true);
+
+    const series = recorder.build()!;
+    expect(series.interval).toBe(1);
+    expect(series.points[0]).toMatchObject({ rps: 2, errors: 1 });
+  });
+
+  it('merges a recorder over the same time axis', () => {
+    const whole = new TimeSeriesRecorder();
+    const short = new TimeSeriesRecorder();
+    const long = new TimeSeriesRecorder();
+    for (const [part, start] of [[short, 0], [long, 50], [long, 30_000]] as const) {
+      part.record(start * ms, 10 * ms, false);
+      whole.record(start * ms, 10 * ms, false);
+    }
+    whole.record(0, 0, true, true);
+    short.record(0, 0, true, true);
+    short.merge(long);
+
+    expect(short.build()).toEqual(whole.build());
+  });
+
+  it('reads back its JSON', () => {
+    const recorder = new TimeSeriesRecorder();
+    recorder.record(0, 10 * ms, false);
+    recorder.record(5 * ms, 0, true, true);
+
+    expect(TimeSeriesRecorder.fromJSON(JSON.parse(JSON.stringify(recorder))).build()).toEqual(recorder.build());
+  });
+});
@@ -0,0 +1,170 @@
+import type { RunReport } from './loadRunner';
+import { LatencyHistogram, LatencyHistogramData } from './latencyHistogram';
+
+// Latency, throughput, concurrency and errors over the course of a run,
+// bucketed by time as calls finish
+
+export interface TimeSeriesPoint {
+  time: number; // seconds since the run started, at the start of the bucket
+  p50: number | null; // ns, of the calls that finished in the bucket; null when none did
+  p95: number | null;
+  p99: number | null;
+  rps: number; // calls finished per second
+  errors: number; // failed calls per second
+  inFlight: number; // average number of calls in flight
+}
+
+export interface TimeSeries {
+  interval: number; // seconds per bucket
+  points: TimeSeriesPoint[];
+}
+
+const MAX_POINTS = 120;
+// The recorder moves to the next interval as the run gets longer, so each
+// divides the next; past the last one it keeps doubling
+const INTERVALS_MS = [100, 200, 1000, 2000, 10000, 30000, 60000];
+
+interface Bucket {
+  calls: number;
+  latencies: LatencyHistogram; // of the calls that were sent
+  errors: number;
+  busy: number; // ns of calls in flight, summed
+}
+
+const emptyBucket = (): Bucket => ({ calls: 0, latencies: new LatencyHistogram(), errors: 0, busy: 0 });
+
+// Buckets merged factor at a time into buckets of a wider interval
+function coarsen(buckets: Bucket[], factor: number): Bucket[] {
+  const merged: Bucket[] = [];
+  buckets.forEach((bucket, b) => {
+    const target = (merged[Math.floor(b / factor)] ??= emptyBucket());
+    target.calls += bucket.calls;
+    target.latencies.merge(bucket.latencies);
+    target.errors += bucket.errors;
+    target.busy += bucket.busy;
+  });
+  return merged;
+}
+
+// A recorder as JSON, for runs merged from several instances
+export interface TimeSeriesData {
+  step: number;
+  interval: number; // ns
+  span: number;
+  buckets: { calls: number; latencies: LatencyHistogramData; errors: number; busy: number }[];
+}
+
+// Collects calls in at most MAX_POINTS time buckets, in any order. Bucket b
+// holds the calls that ended in (b * interval, (b + 1) * interval].
+export class TimeSeriesRecorder {
+  private step = 0;
+  private interval = INTERVALS_MS[0] * 1e6; // ns
+  private buckets: Bucket[] = [];
+  private span = 0; // ns until the last call ended
+
+  private bucketOf(ns: number): number {
+    return Math.max(0, Math.ceil(ns / this.interval) - 1);
+  }
+
+  // Widen the interval until the run so far fits, merging buckets
+  private fit(end: number) {
+    while (this.bucketOf(end) >= MAX_POINTS) {
+      this.step++;
+      const next = this.step < INTERVALS_MS.length ? INTERVALS_MS[this.step] * 1e6 : this.interval * 2;
+      this.buckets = coarsen(this.buckets, next / this.interval);
+      this.interval = next;
+    }
+    while (this.buckets.length <= this.bucketOf(end)) this.buckets.push(emptyBucket());
+  }
+
+  // start and latency in ns, start counted from the start of the run.
+  // Calls that were never sent count without a latency.
+  record(start: number, latency: number, failed: boolean, unsent = false) {
+    const end = start + latency;
+    this.fit(end);
+    const bucket = this.buckets[this.bucketOf(end)];
+    bucket.calls++;
+    if (!unsent) bucket.latencies.record(latency);
+    if (failed) bucket.errors++;
+    for (let b = this.bucketOf(start); b <= this.bucketOf(end); b++) {
+      this.buckets[b].busy += Math.min(end, (b + 1) * this.interval) - Math.max(start, b * this.interval);
+    }
+    if (end > this.span) this.span = end;
+  }
+
+  // Add the calls of a recorder over the same time axis, such as another
+  // instance's share of a run started at the same moment
+  merge(other: TimeSeriesRecorder) {
+    if (other.buckets.length === 0) return;
+    this.fit(other.span);
+    const buckets = this.interval > other.interval ? coarsen(other.buckets, this.interval / other.interval) : other.buckets;
+    buckets.forEach((bucket, b) => {
+      const target = this.buckets[b];
+      target.calls += bucket.calls;
+      target.latencies.merge(bucket.latencies);
+      target.errors += bucket.errors;
+      target.busy += bucket.busy;
+    });
+    if (other.span > this.span) this.span = other.span;
+  }
+
+  toJSON(): TimeSeriesData {
+    return {
+      step: this.step,
+      interval: this.interval,
+      span: this.span,
+      buckets: this.buckets.map(({ calls, latencies, errors, busy }) => ({ calls, latencies: latencies.toJSON(), errors, busy })),
+    };
+  }
+
+  static fromJSON(data: TimeSeriesData): TimeSeriesRecorder {
+    const recorder = new TimeSeriesRecorder();
+    recorder.step = data.step;
+    recorder.interval = data.interval;
+    recorder.span = data.span;
+    recorder.buckets = data.buckets.map(({ calls, latencies, errors, busy }) => ({ calls, latencies: LatencyHistogram.fromJSON(latencies), errors, busy }));
+    return recorder;
+  }
+
+  // Null when no call was recorded
+  build(): TimeSeries | null {
+    if (this.buckets.length === 0) return null;
+    const interval = this.interval;
+    const points = this.buckets.map((bucket, b): TimeSeriesPoint => {
+      // The last bucket is usually cut short by the end of the run
+      const width = Math.max(Math.min(interval, this.span - b * interval), 1) / 1e9;
+      const { latencies } = bucket;
+      const at = (percentile: number) => (latencies.count > 0 ? latencies.valueAt(percentile) : null);
+      return {
+        time: (b * interval) / 1e9,
+        p50: at(50),
+        p95: at(95),
+        p99: at(99),
+        rps: bucket.calls / width,
+        errors: bucket.errors / width,
+        inFlight: bucket.busy / 1e9 / width,
+      };
+    });
+    return { interval: interval / 1e9, points };
+  }
+}
+
+// From per-call details. Runs from here record each call's offset; ghz
+// reports only have the timestamp of when the call ended, so the start is
+// derived from it. Null when the details are missing or lack call times.
+export function buildTimeSeries(details: RunReport['details'] | undefined): TimeSeries | null {
+  if (!details || details.length === 0) return null;
+  const recorder = new TimeSeriesRecorder();
+  if (details.every(d => d.offset !== undefined)) {
+    for (const d of details) recorder.record(d.offset!, d.latency, !!d.error);
+    return recorder.build();
+  }
+  if (!details.every(d => d.timestamp && !Number.isNaN(Date.parse(d.timestamp)))) return null;
+  // Relative to the first end time in ms first: epoch times in ns lose precision
+  const ends = details.map(d => Date.parse(d.timestamp!));
+  const firstEnd = ends.reduce((min, t) => Math.min(min, t), Infinity);
+  const starts = details.map((d, i) => (ends[i] - firstEnd) * 1e6 - d.latency);
+  const first = starts.reduce((min, s) => Math.min(min, s), Infinity);
+  details.forEach((d, i) => recorder.record(starts[i] - first, d.latency, !!d.error));
+  return recorder.build();
+}
@@ -0,0 +1,197 @@
+// The part of TOML that ghz config files use: tables, dotted and quoted
+// keys, strings, numbers, booleans, arrays and inline tables. Dates and
+// arrays of tables are not supported.
+
+export type TomlTable = { [key: string]: unknown };
+
+export class TomlSyntaxError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'TomlSyntaxError';
+  }
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]+/y;
+const NUMBER = /[+-]?(?:inf|nan|0x[0-9a-fA-F_]+|0o[0-7_]+|0b[01_]+|\d[\d_]*(?:\.[\d_]+)?(?:[eE][+-]?\d+)?)/y;
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+
+// Parse a TOML document. Throws TomlSyntaxError.
+export function parseToml(text: string): TomlTable {
+  const root: TomlTable = {};
+  let current = root;
+  let i = 0;
+
+  const line = () => text.slice(0, i).split('\n').length;
+  const fail = (message: string): never => {
+    throw new TomlSyntaxError(message, line());
+  };
+
+  // Spaces, tabs and comments; newlines too when `newlines` is set
+  const skip = (newlines = false) => {
+    while (i < text.length) {
+      const c = text[i];
+      if (c === ' ' || c === '\t' || c === '\r' || (newlines && c === '\n')) i++;
+      else if (c === '#') while (i < text.length && text[i] !== '\n') i++;
+      else break;
+    }
+  };
+
+  const parseString = (): string => {
+    const quote = text[i];
+    const multiline = text.startsWith(quote.repeat(3), i);
+    i += multiline ? 3 : 1;
+    if (multiline && text[i] === '\n') i++;
+    let out = '';
+    while (true) {
+      if (i >= text.length) fail('Unterminated string');
+      if (multiline ? text.startsWith(quote.repeat(3), i) : text[i] === quote) {
+        i += multiline ? 3 : 1;
+        return out;
+      }
+      const c = text[i];
+      if (c === '\n' && !multiline) fail('Unterminated string');
+      if (c === '\\' && quote === '"') {
+        const next = text[i + 1];
+        if (next in ESCAPES) {
+          out += ESCAPES[next];
+          i += 2;
+        } else if (next === 'u' || next === 'U') {
+          const length = next === 'u' ? 4 : 8;
+          const hex = text.slice(i + 2, i + 2 + length);
+          if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) fail('Invalid unicode escape');
+          out += String.fromCodePoint(parseInt(hex, 16));
+          i += 2 + length;
+        } else if (multiline && /\s/.test(next)) {
+          // Line-ending backslash: trim the newline and the indentation after it
+          i++;
+          while (i < text.length && /\s/.test(text[i])) i++;
+        } else {
+          fail(`Invalid escape \\${next}`);
+        }
+      } else {
+        out += c;
+        i++;
+      }
+    }
+  };
+
+  const parseKey = (): string[] => {
+    const parts: string[] = [];
+    while (true) {
+      skip();
+      if (text[i] === '"' || text[i] === "'") {
+        parts.push(parseString());
+      } else {
+        BARE_KEY.lastIndex = i;
+        const match = BARE_KEY.exec(text);
+        if (!match) fail('Expected a key');
+        parts.push(match![0]);
+        i = BARE_KEY.lastIndex;
+      }
+      skip();
+      if (text[i] !== '.') return parts;
+      i++;
+    }
+  };
+
+  // The table at `path` below `table`, created as needed
+  const tableAt = (table: TomlTable, path: string[]): TomlTable => {
+    let target = table;
+    for (const part of path) {
+      if (target[part] === undefined) target[part] = {};
+      const next = target[part];
+      if (typeof next !== 'object' || next === null || Array.isArray(next)) fail(`"${part}" is not a table`);
+      target = next as TomlTable;
+    }
+    return target;
+  };
+
+  const assign = (table: TomlTable, key: string[], value: unknown) => {
+    const target = tableAt(table, key.slice(0, -1));
+    const name = key[key.length - 1];
+    if (name in target) fail(`Duplicate key "${key.join('.')}"`);
+    target[name] = value;
+  };
+
+  const parseValue = (): unknown => {
+    const c = text[i];
+    if (c === '"' || c === "'") return parseString();
+    if (text.startsWith('true', i)) {
+      i += 4;
+      return true;
+    }
+    if (text.startsWith('false', i)) {
+      i += 5;
+      return false;
+    }
+    if (c === '[') {
+      i++;
+      const items: unknown[] = [];
+      while (true) {
+        skip(true);
+        if (text[i] === ']') break;
+        items.push(parseValue());
+        skip(true);
+        if (text[i] === ',') i++;
+        else if (text[i] !== ']') fail('Expected , or ] in array');
+      }
+      i++;
+      return items;
+    }
+    if (c === '{') {
+      i++;
+      const table: TomlTable = {};
+      skip();
+      if (text[i] === '}') {
+        i++;
+        return table;
+      }
+      while (true) {
+        const key = parseKey();
+        if (text[i] !== '=') fail('Expected = after key');
+        i++;
+        skip();
+        assign(table, key, parseValue());
+        skip();
+        if (text[i] === '}') break;
+        if (text[i] !== ',') fail('Expected , or } in inline table');
+        i++;
+      }
+      i++;
+      return table;
+    }
+    if (/^\d{4}-\d{2}-\d{2}/.test(text.slice(i, i + 10))) fail('Dates are not supported');
+    NUMBER.lastIndex = i;
+    const match = NUMBER.exec(text);
+    if (!match) fail('Expected a value');
+    i = NUMBER.lastIndex;
+    const raw = match![0].replace(/_/g, '');
+    const unsigned = raw.replace(/^[+-]/, '');
+    const sign = raw.startsWith('-') ? -1 : 1;
+    if (unsigned === 'inf') return sign * Infinity;
+    if (unsigned === 'nan') return NaN;
+    if (/^0[xob]/.test(unsigned)) return sign * Number(unsigned);
+    return Number(raw);
+  };
+
+  while (true) {
+    skip(true);
+    if (i >= text.length) return root;
+    if (text[i] === '[') {
+      if (text[i + 1] === '[') fail('Arrays of tables are not supported');
+      i++;
+      const path = parseKey();
+      if (text[i] !== ']') fail('Expected ] after table name');
+      i++;
+      current = tableAt(root, path);
+    } else {
+      const key = parseKey();
+      if (text[i] !== '=') fail('Expected = after key');
+      i++;
+      skip();
+      assign(current, key, parseValue());
+    }
+    skip();
+    if (i < text.length && text[i] !== '\n') fail('Expected a new line');
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import protobuf from 'protobufjs';
+import { prepareLoadTest } from './loadRunner';
+import { parseProtoContent } from './protoParser';
+import { createWellKnownRoot } from './wellKnownTypes';
+
+// Annotations as googleapis-style services write them
+const PROTO = `
+syntax = "proto3";
+package shop.v1;
+import "google/api/annotations.proto";
+import "google/api/client.proto";
+import "google/api/field_behavior.proto";
+import "google/api/resource.proto";
+import "google/rpc/error_details.proto";
+import "google/rpc/status.proto";
+
+service Orders {
+  option (google.api.default_host) = "shop.example.com";
+  option (google.api.api_version) = "v1";
+  rpc GetOrder (GetOrderRequest) returns (Order) {
+    option (google.api.http) = { get: "/v1/{name=orders/*}" };
+    option (google.api.method_signature) = "name";
+  }
+}
+
+message GetOrderRequest {
+  string name = 1 [
+    (google.api.field_behavior) = REQUIRED,
+    (google.api.field_behavior) = IDENTIFIER,
+    (google.api.resource_reference) = { type: "shop.example.com/Order" }
+  ];
+}
+
+message Order {
+  option (google.api.resource) = { type: "shop.example.com/Order" pattern: "orders/{order}" };
+  string name = 1;
+  google.rpc.Status status = 2;
+  google.rpc.ErrorInfo error = 3;
+}
+`;
+
+describe('bundled google/api and google/rpc protos', () => {
+  it('resolve the options and types real-world services use', () => {
+    const parsed = parseProtoContent(PROTO);
+
+    expect(parsed.diagnostics.filter(d => d.severity === 'error')).toEqual([]);
+    expect(parsed.services.map(s => s.name)).toEqual(['shop.v1.Orders']);
+    expect(parsed.messageDefaults['shop.v1.GetOrderRequest']).toEqual({ name: '' });
+  });
+
+  it('resolve when the runner loads the proto', async () => {
+    const run = await prepareLoadTest({ protoContent: PROTO, service: 'shop.v1.Orders', method: 'GetOrder', address: '127.0.0.1:1' });
+
+    expect(run.kind).toBe('unary');
+  });
+
+  it('are complete, not trimmed', () => {
+    const root = createWellKnownRoot({ keepCase: true });
+
+    expect(root.lookupEnum('google.api.FieldBehavior').values).toHaveProperty('IDENTIFIER');
+    expect(root.lookupEnum('google.api.LaunchStage').values).toHaveProperty('GA');
+    expect(root.lookupType('google.api.Publishing').fields).toHaveProperty('library_settings');
+    expect(root.lookupType('google.rpc.BadRequest.FieldViolation').fields).toHaveProperty('localized_message');
+    expect(root.lookup('.google.api.api_version')).toBeInstanceOf(protobuf.Field);
+  });
+});
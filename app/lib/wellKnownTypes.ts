@@ -0,0 +1,53 @@
+import protobuf from 'protobufjs';
+import apiJson from 'protobufjs/google/protobuf/api.json';
+import descriptorJson from 'protobufjs/google/protobuf/descriptor.json';
+import sourceContextJson from 'protobufjs/google/protobuf/source_context.json';
+import typeJson from 'protobufjs/google/protobuf/type.json';
+import { GOOGLE_API_PROTOS } from './googleApiProtos';
+
+// google/protobuf/*.proto bundled with protobufjs, which resolves them by
+// import path on its own (any, duration, empty, field_mask, struct, timestamp,
+// wrappers) or once registered here (api, descriptor, source_context, type)
+const COMMON_FILES = ['any', 'api', 'descriptor', 'duration', 'empty', 'field_mask', 'source_context', 'struct', 'timestamp', 'type', 'wrappers'];
+
+type GoogleProtobufJson = { nested: { google: { nested: { protobuf: { nested: protobuf.INamespace['nested'] } } } } };
+const registerCommon = (name: string, json: unknown) =>
+  protobuf.common(name, (json as GoogleProtobufJson).nested.google.nested.protobuf.nested!);
+registerCommon('api', apiJson);
+registerCommon('descriptor', descriptorJson);
+registerCommon('source_context', sourceContextJson);
+registerCommon('type', typeJson);
+
+// Commonly imported google/api and google/rpc files, vendored from googleapis
+export { GOOGLE_API_PROTOS };
+
+// Add definitions to a namespace, skipping types several bundled files share
+function addMissing(namespace: protobuf.Namespace, nested: NonNullable<protobuf.INamespace['nested']>) {
+  for (const [name, json] of Object.entries(nested)) {
+    const isNamespace = 'nested' in json && !('fields' in json) && !('values' in json) && !('methods' in json);
+    if (isNamespace && json.nested) {
+      const existing = namespace.get(name);
+      addMissing(existing instanceof protobuf.Namespace ? existing : namespace.define(name), json.nested);
+    } else if (!namespace.get(name)) {
+      namespace.addJSON({ [name]: json });
+    }
+  }
+}
+
+// Whether an import path is provided by the bundled definitions
+export function isWellKnownProto(importPath: string): boolean {
+  return importPath.startsWith('google/protobuf/') || importPath in GOOGLE_API_PROTOS;
+}
+
+// A root with every bundled well-known type defined, for user protos to be
+// parsed into. Options should match the ones used for the user protos.
+export function createWellKnownRoot(options?: protobuf.IParseOptions): protobuf.Root {
+  const root = new protobuf.Root();
+  for (const name of COMMON_FILES) {
+    addMissing(root, protobuf.common.get(`google/protobuf/${name}.proto`)!.nested!);
+  }
+  for (const source of Object.values(GOOGLE_API_PROTOS)) {
+    protobuf.parse(source, root, options);
+  }
+  return root;
+}
@@ -1,20 +1,59 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { parseProtoContent, ServiceDefinition } from './lib/protoParser';
-import { ConfigurationPanel, TestStep } from '../components/ConfigurationPanel';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { parseProtoContent, parseProtoBundle, parseDescriptorSet, ParsedProto, ServiceDefinition, getMethodKind, MethodKind } from './lib/protoParser';
+import { ConfigurationPanel } from '../components/ConfigurationPanel';
 import { ResultsDisplay } from '../components/ResultsDisplay';
-import { Upload, FileCode, Server } from 'lucide-react';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { ReportImportPanel } from '../components/ReportImportPanel';
+import { CompareOption, CompareView } from '../components/CompareView';
+import { DiagnosticsList, ProtoEditor } from '../components/ProtoEditor';
+import type { ProtoDiagnostic } from './lib/protoDiagnostics';
+import { EMPTY_SCHEMA, ProtoSchema } from './lib/protoSchema';
+import { ConnectionSecurity, DEFAULT_SECURITY } from './lib/connectionSecurity';
+import { readNdjson, RunEvent } from './lib/ndjson';
+import { mergeProtoFiles, ProtoFile, readZipProtoFiles } from './lib/protoBundle';
+import { planStepRequest, TestPlan, TestStep } from './lib/testPlan';
+import { downloadText } from './lib/download';
+import type { GhzImport } from './lib/ghzCommand';
+import type { RunProgress, RunReport } from './lib/loadRunner';
+import type { RunRecord, RunSummary } from './lib/runHistory';
+import type { AgentStatus } from './lib/distributedRun';
+import { Upload, FileCode, Server, Square, RefreshCw, X } from 'lucide-react';
+
+// Placeholder result card for a step that failed before producing a report
+function failedStepResult(result: { error?: string }) {
+  return {
+    date: new Date().toISOString(),
+    // Add new fields
+    latencyDistribution: [],
+    histogram: [],
+    errorDist: { [result.error || "API Error"]: 1 },
+    // Add details from API if available
+    details: result,
+    total: 0, count: 0, average: 0, fastest: 0, slowest: 0, rps: 0, statusCodeDistribution: {}
+  };
+}
 
 export default function Home() {
   const [protoContent, setProtoContent] = useState('');
+  // Multi-file bundle (several files or a zip); replaces protoContent when non-empty
+  const [protoFiles, setProtoFiles] = useState<ProtoFile[]>([]);
+  const [includeRoot, setIncludeRoot] = useState('');
+  // Where service definitions come from: the pasted proto or the target's server reflection
+  const [protoSource, setProtoSource] = useState<'proto' | 'reflection'>('proto');
+  const [descriptorSet, setDescriptorSet] = useState('');
+  const [isReflecting, setIsReflecting] = useState(false);
   const [services, setServices] = useState<ServiceDefinition[]>([]);
-  const [messageDefaults, setMessageDefaults] = useState<Record<string, any>>({});
+  const [messageTemplates, setMessageTemplates] = useState<Record<string, string>>({});
+  const [schema, setSchema] = useState<ProtoSchema>(EMPTY_SCHEMA);
+  const [protoDiagnostics, setProtoDiagnostics] = useState<ProtoDiagnostic[]>([]);
   const [selectedService, setSelectedService] = useState<string>('');
   const [selectedMethod, setSelectedMethod] = useState<string>('');
 
   const [targetAddress, setTargetAddress] = useState('host.docker.internal:8081');
+  const [security, setSecurity] = useState<ConnectionSecurity>(DEFAULT_SECURITY);
   const [metadataEnabled, setMetadataEnabled] = useState(true);
   const [metadata, setMetadata] = useState(JSON.stringify({
     "clientname": "bloomrpc",
@@ -36,35 +75,131 @@ export default function Home() {
   const [results, setResults] = useState<any[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState<number | null>(null);
+  const [progress, setProgress] = useState<RunProgress | null>(null);
+  // Steps saved server-side by earlier runs
+  const [history, setHistory] = useState<RunSummary[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  // Runs picked for the compare view ("session:<index>" or "history:<id>"), null when closed
+  const [comparing, setComparing] = useState<[string, string] | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  // Agent instances the server can split distributed steps across
+  const [agents, setAgents] = useState<AgentStatus[]>([]);
+
+  // The step in flight, so Stop can cancel it server-side or drop the request
+  const activeRunRef = useRef<{ runId: string; abort: AbortController; fallback?: ReturnType<typeof setTimeout> } | null>(null);
+  const stopRequestedRef = useRef(false);
+  // Set by a ghz import so the method change keeps the imported step data
+  const keepStepDataRef = useRef(false);
+
+  const applyParsedProto = ({ services, messageTemplates, schema, diagnostics }: ParsedProto) => {
+    setServices(services);
+    setMessageTemplates(messageTemplates);
+    setSchema(schema);
+    setProtoDiagnostics(diagnostics);
+    if (services.length > 0) {
+      setSelectedService(services[0].name);
+      if (services[0].methods.length > 0) {
+        setSelectedMethod(services[0].methods[0].name);
+      }
+    }
+  };
 
   // Auto-parse proto content (debounced)
   useEffect(() => {
-    if (!protoContent) {
+    if (protoSource === 'reflection') return;
+    if (!protoContent && protoFiles.length === 0) {
       setServices([]);
-      setMessageDefaults({});
+      setMessageTemplates({});
+      setSchema(EMPTY_SCHEMA);
+      setProtoDiagnostics([]);
       setSelectedService('');
       setSelectedMethod('');
       return;
     }
 
     const timer = setTimeout(() => {
+      // Syntax errors, unresolved types, etc. come back as diagnostics
+      applyParsedProto(protoFiles.length > 0
+        ? parseProtoBundle(protoFiles, includeRoot)
+        : parseProtoContent(protoContent));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [protoContent, protoFiles, includeRoot, protoSource]);
+
+  // A single .proto goes into the editor; several files or a zip become a bundle
+  const importProtoFiles = async (picked: File[]) => {
+    if (picked.length === 1 && picked[0].name.endsWith('.proto') && protoFiles.length === 0) {
+      setProtoContent(await picked[0].text());
+      return;
+    }
+
+    const added: ProtoFile[] = [];
+    for (const file of picked) {
       try {
-        const { services, messageDefaults } = parseProtoContent(protoContent);
-        setServices(services);
-        setMessageDefaults(messageDefaults);
-        if (services.length > 0) {
-          setSelectedService(services[0].name);
-          if (services[0].methods.length > 0) {
-            setSelectedMethod(services[0].methods[0].name);
-          }
+        if (file.name.endsWith('.zip')) {
+          added.push(...await readZipProtoFiles(await file.arrayBuffer()));
+        } else {
+          added.push({ name: file.webkitRelativePath || file.name, content: await file.text() });
         }
-      } catch {
-        // Invalid proto content - silently ignore while user is still typing
+      } catch (e) {
+        alert(`Failed to read ${file.name}: ${(e as Error).message}`);
+        return;
       }
-    }, 500);
+    }
+    if (added.length === 0) {
+      alert('No .proto files found');
+      return;
+    }
+    setProtoFiles(prev => mergeProtoFiles(prev, added));
+  };
 
-    return () => clearTimeout(timer);
-  }, [protoContent]);
+  // Fetch service definitions from the target via gRPC server reflection
+  const loadFromReflection = async () => {
+    setIsReflecting(true);
+    try {
+      let metadataObj = null;
+      if (metadataEnabled) {
+        try { metadataObj = JSON.parse(metadata); } catch (e) { }
+      }
+
+      const response = await fetch('/api/ghz/reflect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: targetAddress, security, metadata: metadataObj }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`Reflection failed: ${result.error}`);
+        return;
+      }
+
+      const parsed = parseDescriptorSet(result.descriptorSet);
+      // Only offer the services the server lists, not ones pulled in as dependencies
+      parsed.services = parsed.services.filter(s => result.services.includes(s.name));
+      if (parsed.services.length === 0) {
+        alert('The target did not report any services over reflection');
+        return;
+      }
+      setDescriptorSet(result.descriptorSet);
+      applyParsedProto(parsed);
+    } catch (e) {
+      alert(`Reflection failed: ${(e as Error).message}`);
+    } finally {
+      setIsReflecting(false);
+    }
+  };
+
+  const switchProtoSource = (source: 'proto' | 'reflection') => {
+    setProtoSource(source);
+    setServices([]);
+    setMessageTemplates({});
+    setSchema(EMPTY_SCHEMA);
+    setProtoDiagnostics([]);
+    setSelectedService('');
+    setSelectedMethod('');
+    setDescriptorSet('');
+  };
 
   // Update steps with default data when method changes
   useEffect(() => {
@@ -72,30 +207,15 @@ export default function Home() {
       const service = services.find(s => s.name === selectedService);
       const method = service?.methods.find(m => m.name === selectedMethod);
 
-      if (method && method.requestType) {
-        // resolve potentially nested name? 
-        // Our parser returns simple names in messageDefaults usually, or full path if implemented fully.
-        // For now, let's try to find key endings or exact match
-
-        // Try exact match first
-        let defaults = messageDefaults[method.requestType];
-
-        // If not found, try to find by suffix (e.g. method says "MyRequest", defaults has "package.MyRequest")
-        if (!defaults) {
-          const parts = method.requestType.split('.');
-          const simpleName = parts[parts.length - 1];
-          // finding key that ends with .SimpleName or is SimpleName
-          const foundKey = Object.keys(messageDefaults).find(k => k === simpleName || k.endsWith('.' + simpleName));
-          if (foundKey) defaults = messageDefaults[foundKey];
-        }
-
-        if (defaults) {
-          const defaultJson = JSON.stringify(defaults, null, 2);
-          setSteps(prev => prev.map(step => ({ ...step, data: defaultJson })));
-        }
+      // requestType is fully qualified, as are the template keys
+      const template = method && messageTemplates[method.requestType];
+      if (keepStepDataRef.current) {
+        keepStepDataRef.current = false;
+      } else if (template) {
+        setSteps(prev => prev.map(step => ({ ...step, data: template })));
       }
     }
-  }, [selectedService, selectedMethod, services, messageDefaults]);
+  }, [selectedService, selectedMethod, services, messageTemplates]);
 
   // Handle service change to update methods defaults
   const handleServiceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -109,67 +229,240 @@ export default function Home() {
     }
   };
 
+  // Apply a ghz command or config; returns what could not be applied
+  const applyGhzImport = (imported: GhzImport): string[] => {
+    const warnings: string[] = [];
+    if (imported.target) setTargetAddress(imported.target);
+    setSecurity(imported.security);
+    setSteps(imported.steps);
+    if (imported.metadata) {
+      setMetadata(JSON.stringify(imported.metadata, null, 2));
+      setMetadataEnabled(true);
+    } else {
+      setMetadataEnabled(false);
+    }
+
+    if (imported.call) {
+      const { service, method } = imported.call;
+      const found = services.find(s => s.name === service)?.methods.some(m => m.name === method);
+      if (found) {
+        keepStepDataRef.current = service !== selectedService || method !== selectedMethod;
+        setSelectedService(service);
+        setSelectedMethod(method);
+      } else {
+        warnings.push(`${service}.${method} is not in the loaded proto; load its proto, then pick it`);
+      }
+    }
+    return warnings;
+  };
+
+  const currentMethod = services
+    .find(s => s.name === selectedService)
+    ?.methods.find(m => m.name === selectedMethod);
+  const methodKind: MethodKind = currentMethod ? getMethodKind(currentMethod) : 'unary';
+
+  // The current configuration as a plan, for runs here and POST /api/plans/run
+  const buildTestPlan = (): TestPlan => {
+    let metadataObj = {};
+    if (metadataEnabled) {
+      try { metadataObj = JSON.parse(metadata); } catch (e) { }
+    }
+    return {
+      ...(protoSource === 'reflection'
+        ? { descriptorSet }
+        : protoFiles.length > 0 ? { protoFiles, includeRoot } : { protoContent }),
+      service: selectedService,
+      method: selectedMethod,
+      target: targetAddress,
+      security,
+      metadata: metadataEnabled ? metadataObj : null,
+      steps,
+    };
+  };
+
+  const downloadTestPlan = () => {
+    downloadText(JSON.stringify(buildTestPlan(), null, 2), `${selectedMethod || 'test'}-plan.json`, 'application/json');
+  };
+
   const runTests = async () => {
+    const plan = buildTestPlan();
     setIsRunning(true);
     setResults([]); // Clear previous results? Or append? Let's clear for new run session.
+    stopRequestedRef.current = false;
+    setIsStopping(false);
 
     for (let i = 0; i < steps.length; i++) {
+      // Skip the remaining steps once Stop was clicked
+      if (stopRequestedRef.current) break;
+
       setCurrentStepIndex(i);
       const step = steps[i];
+      const active = { runId: crypto.randomUUID(), abort: new AbortController() };
+      activeRunRef.current = active;
 
       try {
-        // Parse data safely
-        let requestData = {};
-        try { requestData = JSON.parse(step.data); } catch (e) { }
-
-        let metadataObj = {};
-        if (metadataEnabled) {
-          try { metadataObj = JSON.parse(metadata); } catch (e) { }
-        }
+        // Data is checked against the request type before Run is enabled
+        const request = planStepRequest(plan, step);
 
+        setProgress(null);
         const response = await fetch('/api/ghz/run', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            protoContent,
-            service: selectedService,
-            method: selectedMethod,
-            address: targetAddress,
-            metadata: metadataEnabled ? metadataObj : null,
-            config: {
-              c: step.c,
-              n: step.n,
-              data: requestData
-            }
-          })
+          headers: { 'Content-Type': 'application/json', 'Accept': 'application/x-ndjson' },
+          signal: active.abort.signal,
+          body: JSON.stringify({ runId: active.runId, ...request })
         });
 
-        const result = await response.json();
-
         if (response.ok) {
-          setResults(prev => [...prev, result]);
+          // Progress events stream in while the step runs; the report is the last event
+          let report: RunReport | null = null;
+          let streamError: { error: string } | null = null;
+          await readNdjson<RunEvent>(response, (event) => {
+            if (event.type === 'progress') setProgress(event);
+            else if (event.type === 'report') report = event.report;
+            else streamError = { error: event.error };
+          });
+
+          if (report) {
+            setResults(prev => [...prev, report]);
+          } else {
+            console.error("Step failed:", streamError);
+            setResults(prev => [...prev, failedStepResult(streamError || { error: 'Run ended without a report' })]);
+          }
         } else {
+          const result = await response.json();
           console.error("Step failed:", result);
-          setResults(prev => [...prev, {
-            date: new Date().toISOString(),
-            // Add new fields
-            latencyDistribution: [],
-            histogram: [],
-            errorDist: { [result.error || "API Error"]: 1 },
-            // Add details from API if available
-            details: result,
-            total: 0, count: 0, average: 0, fastest: 0, slowest: 0, rps: 0, statusCodeDistribution: {}
-          }]);
+          setResults(prev => [...prev, failedStepResult(result)]);
         }
       } catch (error) {
-        console.error("Execution error:", error);
+        if (active.abort.signal.aborted) {
+          setResults(prev => [...prev, failedStepResult({ error: 'Cancelled before a report was received' })]);
+        } else {
+          console.error("Execution error:", error);
+        }
+      } finally {
+        clearTimeout(activeRunRef.current?.fallback);
+        activeRunRef.current = null;
       }
     }
 
     setIsRunning(false);
+    setIsStopping(false);
     setCurrentStepIndex(null);
+    setProgress(null);
+    loadHistory();
+  };
+
+  const loadHistory = async () => {
+    setIsLoadingHistory(true);
+    try {
+      const response = await fetch('/api/runs');
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+      setHistory(result.runs);
+    } catch (error) {
+      console.error("Loading run history failed:", error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/agents')
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+        setAgents(result.agents);
+      })
+      .catch(error => console.error("Loading agents failed:", error));
+  }, []);
+
+  // Show a saved step's report in place of the current results
+  const openSavedRun = async (id: string) => {
+    try {
+      setResults([(await fetchSavedRun(id)).report]);
+    } catch (error) {
+      alert(`Failed to open run: ${(error as Error).message}`);
+    }
+  };
+
+  const fetchSavedRun = async (id: string): Promise<RunRecord> => {
+    const response = await fetch(`/api/runs?id=${encodeURIComponent(id)}`);
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+    return result;
+  };
+
+  const compareOptions: CompareOption[] = [
+    ...results.map((report, i) => ({
+      id: `session:${i}`,
+      label: `Run #${i + 1} — ${report.importedFrom ? `ghz: ${report.importedFrom}` : new Date(report.date).toLocaleTimeString()}`,
+      group: 'This session',
+    })),
+    ...history.map(run => ({
+      id: `history:${run.id}`,
+      label: `${new Date(run.savedAt).toLocaleString()} — ${run.method} @ ${run.target}`,
+      group: 'History',
+    })),
+  ];
+
+  const loadCompareReport = useCallback(async (id: string): Promise<RunReport> => {
+    if (id.startsWith('session:')) {
+      const report = results[Number(id.slice('session:'.length))];
+      if (!report) throw new Error('That run is no longer in this session');
+      return report;
+    }
+    return (await fetchSavedRun(id.slice('history:'.length))).report;
+  }, [results]);
+
+  // From the results: first vs. latest step, or the latest saved run vs. the latest step
+  const compareResults = () => {
+    const latest = `session:${results.length - 1}`;
+    if (results.length > 1) setComparing(['session:0', latest]);
+    else setComparing([history[1] ? `history:${history[1].id}` : '', latest]);
+  };
+
+  // From the history: that run against the latest step of this session, if any
+  const compareSavedRun = (id: string) => {
+    setComparing([`history:${id}`, results.length > 0 ? `session:${results.length - 1}` : '']);
+  };
+
+  const deleteSavedRuns = async (id?: string) => {
+    try {
+      const response = await fetch(id ? `/api/runs?id=${encodeURIComponent(id)}` : '/api/runs?all=true', { method: 'DELETE' });
+      if (!response.ok) throw new Error((await response.json()).error || `HTTP ${response.status}`);
+    } catch (error) {
+      alert(`Failed to delete: ${(error as Error).message}`);
+    }
+    loadHistory();
+  };
+
+  // Stop the running step (its partial report still arrives) and skip the rest
+  const stopTests = async () => {
+    stopRequestedRef.current = true;
+    setIsStopping(true);
+
+    const active = activeRunRef.current;
+    if (!active) return;
+
+    // Drop the request if the partial report doesn't arrive in time
+    active.fallback = setTimeout(() => active.abort.abort(), 5000);
+    try {
+      await fetch(`/api/ghz/run?runId=${encodeURIComponent(active.runId)}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error("Cancel failed:", error);
+      active.abort.abort();
+    }
   };
 
+  // Fraction of the current step done, from request count or elapsed duration
+  const stepFraction = progress
+    ? Math.min(1, progress.total ? progress.completed / progress.total : progress.duration ? progress.elapsed / progress.duration : 0)
+    : 0;
+
   return (
     <main className="min-h-screen bg-[#0a0a0a] text-white p-8 font-sans selection:bg-purple-500/30">
       {/* Sunraku Logo - fixed top right */}
@@ -200,30 +493,102 @@ export default function Home() {
                 <h2 className="text-lg font-semibold flex items-center gap-2">
                   <FileCode className="w-5 h-5 text-blue-400" /> Proto Definition
                 </h2>
-                <label className="cursor-pointer bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-3 py-1.5 rounded-lg text-xs flex items-center gap-2 border border-gray-700 transition-colors">
-                  <Upload className="w-3 h-3" /> Import File
-                  <input
-                    type="file"
-                    accept=".proto"
-                    className="hidden"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) {
-                        const reader = new FileReader();
-                        reader.onload = (ev) => setProtoContent(ev.target?.result as string);
-                        reader.readAsText(file);
-                      }
-                      e.target.value = '';
-                    }}
-                  />
-                </label>
+                {protoSource === 'proto' && (
+                  <label className="cursor-pointer bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-3 py-1.5 rounded-lg text-xs flex items-center gap-2 border border-gray-700 transition-colors">
+                    <Upload className="w-3 h-3" /> {protoFiles.length > 0 ? 'Add Files' : 'Import Files'}
+                    <input
+                      type="file"
+                      accept=".proto,.zip"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        const picked = Array.from(e.target.files || []);
+                        if (picked.length > 0) importProtoFiles(picked);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                )}
               </div>
-              <textarea
-                className="w-full h-64 bg-gray-900/50 border border-gray-700 rounded-lg p-3 text-xs font-mono text-gray-300 focus:ring-2 focus:ring-blue-500 outline-none resize-none"
-                placeholder="Paste your .proto content here or import a file..."
-                value={protoContent}
-                onChange={(e) => setProtoContent(e.target.value)}
-              />
+
+              {/* Source toggle */}
+              <div className="flex bg-gray-900 rounded-lg p-1 mb-4 border border-gray-700">
+                {(['proto', 'reflection'] as const).map(source => (
+                  <button
+                    key={source}
+                    onClick={() => source !== protoSource && switchProtoSource(source)}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs transition-colors ${protoSource === source ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {source === 'proto' ? 'Proto File' : 'Server Reflection'}
+                  </button>
+                ))}
+              </div>
+
+              {protoSource === 'proto' && protoFiles.length > 0 ? (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs text-gray-400">{protoFiles.length} file{protoFiles.length === 1 ? '' : 's'} in bundle</span>
+                    <button
+                      onClick={() => setProtoFiles([])}
+                      className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                    >
+                      Clear bundle
+                    </button>
+                  </div>
+                  <ul className="max-h-52 overflow-y-auto bg-gray-900/50 border border-gray-700 rounded-lg divide-y divide-gray-800">
+                    {protoFiles.map(file => (
+                      <li key={file.name} className="flex justify-between items-center px-3 py-1.5 text-xs font-mono text-gray-300">
+                        <span className="truncate" title={file.name}>{file.name}</span>
+                        <button
+                          onClick={() => setProtoFiles(prev => prev.filter(f => f.name !== file.name))}
+                          className="text-gray-500 hover:text-red-400 ml-2 shrink-0"
+                          title="Remove file"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Include Path Root</label>
+                    <input
+                      type="text"
+                      value={includeRoot}
+                      onChange={(e) => setIncludeRoot(e.target.value)}
+                      placeholder="e.g. proto (imports resolve from the bundle root by default)"
+                      className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  </div>
+                  <DiagnosticsList diagnostics={protoDiagnostics} />
+                </div>
+              ) : protoSource === 'proto' ? (
+                <ProtoEditor
+                  value={protoContent}
+                  onChange={setProtoContent}
+                  diagnostics={protoDiagnostics}
+                />
+              ) : (
+                <div className="space-y-3">
+                  <p className="text-xs text-gray-400">
+                    Load services and message types from <span className="font-mono text-gray-300">{targetAddress || 'the target'}</span> using
+                    gRPC server reflection, using the target address and connection security from the configuration panel.
+                  </p>
+                  <button
+                    onClick={loadFromReflection}
+                    disabled={isReflecting || !targetAddress}
+                    className="w-full bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 px-3 py-2 rounded-lg text-sm flex items-center justify-center gap-2 border border-gray-700 transition-colors"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isReflecting ? 'animate-spin' : ''}`} />
+                    {isReflecting ? 'Loading...' : descriptorSet ? 'Reload from Target' : 'Load from Target'}
+                  </button>
+                  {descriptorSet && (
+                    <p className="text-xs text-green-400">
+                      Loaded {services.length} service{services.length === 1 ? '' : 's'} via reflection
+                    </p>
+                  )}
+                  <DiagnosticsList diagnostics={protoDiagnostics} />
+                </div>
+              )}
             </div>
 
             {/* Service Selector */}
@@ -257,7 +622,9 @@ export default function Home() {
                         className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm appearance-none focus:ring-2 focus:ring-pink-500 outline-none"
                       >
                         {services.find(s => s.name === selectedService)?.methods.map(m => (
-                          <option key={m.name} value={m.name}>{m.name}</option>
+                          <option key={m.name} value={m.name}>
+                            {m.name}{getMethodKind(m) !== 'unary' ? ` (${getMethodKind(m)})` : ''}
+                          </option>
                         ))}
                       </select>
                       <div className="absolute right-3 top-2.5 pointer-events-none text-gray-500">▼</div>
@@ -266,6 +633,20 @@ export default function Home() {
                 </div>
               </div>
             )}
+
+            <HistoryPanel
+              runs={history}
+              isLoading={isLoadingHistory}
+              selectedService={selectedService}
+              selectedMethod={selectedMethod}
+              onRefresh={loadHistory}
+              onOpen={openSavedRun}
+              onCompare={compareSavedRun}
+              onDelete={(id) => deleteSavedRuns(id)}
+              onClear={() => deleteSavedRuns()}
+            />
+
+            <ReportImportPanel onImport={(reports) => setResults(prev => [...prev, ...reports])} />
           </div>
 
           {/* Right Column: Configuration & Results */}
@@ -277,19 +658,37 @@ export default function Home() {
               isRunning={isRunning}
               targetAddress={targetAddress}
               setTargetAddress={setTargetAddress}
+              security={security}
+              setSecurity={setSecurity}
               serviceMethod={`${selectedService}.${selectedMethod}`}
               selectedService={selectedService}
               selectedMethod={selectedMethod}
+              methodKind={methodKind}
               metadata={metadata}
               setMetadata={setMetadata}
               metadataEnabled={metadataEnabled}
               setMetadataEnabled={setMetadataEnabled}
               hasValidProto={services.length > 0}
               protoContent={protoContent}
+              requestType={currentMethod?.requestType ?? ''}
+              schema={schema}
+              onImportGhz={applyGhzImport}
+              onDownloadPlan={downloadTestPlan}
+              agents={agents}
             />
 
+            {comparing && (
+              <CompareView
+                key={comparing.join('|')}
+                options={compareOptions}
+                loadReport={loadCompareReport}
+                initial={comparing}
+                onClose={() => setComparing(null)}
+              />
+            )}
+
             {/* Results Section */}
-            <ResultsDisplay results={results} />
+            <ResultsDisplay results={results} onCompare={compareResults} />
 
             {/* Loading State Overlay */}
             {isRunning && (
@@ -301,9 +700,44 @@ export default function Home() {
                   <div className="mt-4 h-2 bg-gray-800 rounded-full overflow-hidden">
                     <div
                       className="h-full bg-purple-500 transition-all duration-500"
-                      style={{ width: `${(((currentStepIndex ?? 0)) / steps.length) * 100}%` }}
+                      style={{ width: `${(((currentStepIndex ?? 0) + stepFraction) / steps.length) * 100}%` }}
                     ></div>
                   </div>
+
+                  {/* Live stats for the running step */}
+                  {progress && (
+                    <div className="mt-6 grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-left text-sm font-mono text-gray-300 bg-gray-950/60 border border-gray-700 rounded-lg p-4">
+                      <div className="text-gray-500">Completed:</div>
+                      <div>{progress.completed}{progress.total ? ` / ${progress.total}` : ''}</div>
+
+                      <div className="text-gray-500">Elapsed:</div>
+                      <div>{(progress.elapsed / 1e9).toFixed(1)} s{progress.duration ? ` / ${(progress.duration / 1e9).toFixed(0)} s` : ''}</div>
+
+                      <div className="text-gray-500">Current RPS:</div>
+                      <div>{progress.currentRps.toFixed(1)}</div>
+
+                      <div className="text-gray-500">p50 / p99:</div>
+                      <div>{(progress.p50 / 1e6).toFixed(2)} ms / {(progress.p99 / 1e6).toFixed(2)} ms</div>
+
+                      <div className="text-gray-500">Errors:</div>
+                      <div className={progress.errors > 0 ? 'text-red-400' : ''}>{progress.errors}</div>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={stopTests}
+                    disabled={isStopping}
+                    className={`mt-6 w-full py-2 rounded-lg font-bold text-white flex items-center justify-center gap-2 transition-colors ${isStopping
+                      ? 'bg-gray-600 cursor-not-allowed'
+                      : 'bg-red-600 hover:bg-red-500'
+                      }`}
+                  >
+                    {isStopping ? (
+                      <span className="animate-pulse">Stopping...</span>
+                    ) : (
+                      <><Square className="w-4 h-4" /> Stop</>
+                    )}
+                  </button>
                 </div>
               </div>
             )}
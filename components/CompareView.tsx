@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { GitCompare, X } from 'lucide-react';
+import type { RunReport } from '../app/lib/loadRunner';
+import { compareSummary, comparePercentiles, compareStatusCodes, MetricRow, overlayHistograms } from '../app/lib/runCompare';
+
+export interface CompareOption {
+  id: string;
+  label: string;
+  group: string; // e.g. "This session" or "History"
+}
+
+interface CompareViewProps {
+  options: CompareOption[];
+  loadReport: (id: string) => Promise<RunReport>;
+  initial?: [string, string];
+  onClose: () => void;
+}
+
+const VERDICT_COLORS: Record<MetricRow['verdict'], string> = {
+  better: 'text-[#4ade80]',
+  worse: 'text-[#f87171]',
+  same: 'text-[#9ca3af]',
+  neutral: 'text-[#d1d5db]',
+};
+
+const BASELINE_COLOR = '#60a5fa';
+const CANDIDATE_COLOR = '#f59e0b';
+
+function formatValue(value: number | null, unit: MetricRow['unit']): string {
+  if (value === null) return '—';
+  switch (unit) {
+    case 'ms': return `${value.toFixed(2)} ms`;
+    case 'rps': return value.toFixed(2);
+    case '%': return `${value.toFixed(2)} %`;
+    default: return String(Math.round(value));
+  }
+}
+
+function formatDelta(metric: MetricRow): string {
+  if (metric.delta === null) return '—';
+  const sign = metric.delta > 0 ? '+' : '';
+  const absolute = metric.unit === 'count' ? `${sign}${Math.round(metric.delta)}` : `${sign}${metric.delta.toFixed(2)}`;
+  return metric.percent === null ? absolute : `${absolute} (${sign}${metric.percent.toFixed(1)}%)`;
+}
+
+const MetricTable: React.FC<{ title: string; rows: MetricRow[] }> = ({ title, rows }) => {
+  if (rows.length === 0) return null;
+  return (
+    <div className="mb-4">
+      <h4 className="text-[#ffffff] font-bold mb-2">{title}:</h4>
+      <div className="grid grid-cols-[max-content_1fr_1fr_1fr] gap-x-6 gap-y-1 pl-4">
+        <div />
+        <div className="text-right text-xs text-[#6b7280]">A</div>
+        <div className="text-right text-xs text-[#6b7280]">B</div>
+        <div className="text-right text-xs text-[#6b7280]">B − A</div>
+        {rows.map(metric => (
+          <React.Fragment key={metric.label}>
+            <div>{metric.label}</div>
+            <div className="text-right">{formatValue(metric.baseline, metric.unit)}</div>
+            <div className="text-right">{formatValue(metric.candidate, metric.unit)}</div>
+            <div className={`text-right ${VERDICT_COLORS[metric.verdict]}`}>{formatDelta(metric)}</div>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Both latency histograms as bars drawn over each other
+const HistogramOverlayChart: React.FC<{ baseline: RunReport; candidate: RunReport }> = ({ baseline, candidate }) => {
+  const overlay = overlayHistograms(baseline, candidate);
+  if (!overlay) return null;
+
+  const width = 600;
+  const height = 160;
+  const peak = Math.max(...overlay.baseline, ...overlay.candidate, 0.0001);
+  const barWidth = width / overlay.baseline.length;
+  const bar = (share: number, i: number, color: string) => (
+    <rect key={`${color}-${i}`} x={i * barWidth + 1} width={barWidth - 2} y={height - (share / peak) * height}
+      height={(share / peak) * height} fill={color} fillOpacity={0.45} stroke={color} strokeOpacity={0.9} />
+  );
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-[#ffffff] font-bold mb-2">Response time histogram:</h4>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40 bg-[#111111] rounded">
+        {overlay.baseline.map((share, i) => bar(share, i, BASELINE_COLOR))}
+        {overlay.candidate.map((share, i) => bar(share, i, CANDIDATE_COLOR))}
+      </svg>
+      <div className="flex justify-between text-xs text-[#6b7280] mt-1">
+        <span>{overlay.bounds[0].toFixed(2)} ms</span>
+        <span>{overlay.bounds[Math.floor(overlay.bounds.length / 2)].toFixed(2)} ms</span>
+        <span>{overlay.bounds[overlay.bounds.length - 1].toFixed(2)} ms</span>
+      </div>
+      <div className="flex gap-4 text-xs mt-1">
+        <span style={{ color: BASELINE_COLOR }}>■ A (share of calls)</span>
+        <span style={{ color: CANDIDATE_COLOR }}>■ B</span>
+      </div>
+    </div>
+  );
+};
+
+// Two reports side by side: A is the baseline, B is compared against it
+export const CompareView: React.FC<CompareViewProps> = ({ options, loadReport, initial, onClose }) => {
+  const [selected, setSelected] = useState<[string, string]>(initial ?? ['', '']);
+  const [reports, setReports] = useState<[RunReport | null, RunReport | null]>([null, null]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(selected.map(id => (id ? loadReport(id) : Promise.resolve(null))))
+      .then(([a, b]) => {
+        if (!cancelled) {
+          setReports([a, b]);
+          setError('');
+        }
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(e.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, loadReport]);
+
+  const groups = [...new Set(options.map(o => o.group))];
+  const picker = (side: 0 | 1) => (
+    <select
+      value={selected[side]}
+      onChange={(e) => setSelected(prev => (side === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))}
+      className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-xs text-white outline-none"
+    >
+      <option value="">Select a run...</option>
+      {groups.map(group => (
+        <optgroup key={group} label={group}>
+          {options.filter(o => o.group === group).map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+        </optgroup>
+      ))}
+    </select>
+  );
+
+  const [baseline, candidate] = reports;
+
+  return (
+    <div className="bg-[#1e1e1e] rounded-md p-6 border border-[#374151] font-mono text-sm text-[#d1d5db] shadow-xl">
+      <div className="flex justify-between items-center mb-4 border-b border-[#374151] pb-4">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-[#60a5fa]" /> Compare Runs
+        </h3>
+        <button onClick={onClose} className="p-2 hover:bg-[#374151] rounded transition-colors text-[#9ca3af] hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4 font-sans">
+        <div>
+          <label className="block text-xs mb-1" style={{ color: BASELINE_COLOR }}>A — baseline</label>
+          {picker(0)}
+        </div>
+        <div>
+          <label className="block text-xs mb-1" style={{ color: CANDIDATE_COLOR }}>B — compared to A</label>
+          {picker(1)}
+        </div>
+      </div>
+
+      {error && <p className="text-[#f87171] text-xs mb-4">{error}</p>}
+
+      {baseline && candidate ? (
+        <>
+          <MetricTable title="Summary" rows={compareSummary(baseline, candidate)} />
+          <MetricTable title="Latency distribution" rows={comparePercentiles(baseline, candidate)} />
+          <MetricTable title="Status code distribution" rows={compareStatusCodes(baseline, candidate)} />
+          <HistogramOverlayChart baseline={baseline} candidate={candidate} />
+        </>
+      ) : (
+        <p className="text-xs text-[#6b7280]">Pick two runs to compare.</p>
+      )}
+    </div>
+  );
+};
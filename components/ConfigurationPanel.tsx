@@ -1,13 +1,19 @@
 
-import React, { useState } from 'react';
-import { Plus, Trash2, Play, Settings, ChevronDown, ChevronRight, Copy, Check, Terminal } from 'lucide-react';
-
-export interface TestStep {
-  id: string;
-  c: number;
-  n: number;
-  data: string; // JSON string
-}
+import React, { useMemo, useState } from 'react';
+import { Plus, Trash2, Play, Settings, ChevronDown, ChevronRight, Copy, Check, Terminal, Lock, Upload, Database, X, Download } from 'lucide-react';
+import type { MethodKind } from '../app/lib/protoParser';
+import { ConnectionSecurity, SECURITY_MODES } from '../app/lib/connectionSecurity';
+import { parseDuration } from '../app/lib/duration';
+import type { LoadSchedule } from '../app/lib/loadSchedule';
+import { countPayloadMessages, parsePayloadFile } from '../app/lib/payloads';
+import type { TestStep } from '../app/lib/testPlan';
+import type { AgentStatus } from '../app/lib/distributedRun';
+import { Assertion, ASSERTION_TYPES, defaultAssertion } from '../app/lib/assertions';
+import { GhzImport, buildGhzConfigs, buildGhzScript, importGhz } from '../app/lib/ghzCommand';
+import { downloadText } from '../app/lib/download';
+import type { ProtoSchema } from '../app/lib/protoSchema';
+import { DataIssue, validateDataSet, validateRequestData } from '../app/lib/requestValidation';
+import { DataIssueList, RequestDataEditor } from './RequestDataEditor';
 
 interface ConfigurationPanelProps {
   steps: TestStep[];
@@ -16,74 +22,183 @@ interface ConfigurationPanelProps {
   isRunning: boolean;
   targetAddress: string;
   setTargetAddress: (addr: string) => void;
+  security: ConnectionSecurity;
+  setSecurity: (security: ConnectionSecurity) => void;
   serviceMethod: string;
   selectedService: string;
   selectedMethod: string;
+  methodKind: MethodKind;
   metadata: string;
   setMetadata: (metadata: string) => void;
   metadataEnabled: boolean;
   setMetadataEnabled: (enabled: boolean) => void;
   hasValidProto: boolean;
   protoContent: string;
+  requestType: string; // fully qualified request message of the selected method
+  schema: ProtoSchema;
+  onImportGhz: (imported: GhzImport) => string[]; // applies the import, returns further warnings
+  onDownloadPlan: () => void;
+  agents: AgentStatus[]; // agent instances registered on the server, for distributed steps
 }
 
+// Shown next to the data/metadata labels; rendered per call by the runner
+const TEMPLATE_HINT = 'Per-call templates: {{.RequestNumber}}, {{.UUID}}, {{newUUID}}, {{.Timestamp}}, '
+  + '{{.TimestampUnix}}, {{.TimestampUnixMilli}}, {{.TimestampUnixNano}}, {{randomString 8}}, {{randomInt 1 100}}, '
+  + '{{.FullyQualifiedName}}, {{.MethodName}}, {{.ServiceName}}, {{.InputName}}, {{.OutputName}}';
+
 const HOST_PRESETS = [
   { label: 'host.docker.internal', value: 'host.docker.internal' },
   { label: '127.0.0.1', value: '127.0.0.1' },
 ];
 
-// Helper to generate a beautified ghz CLI script
-function buildGhzScript(
-  step: TestStep,
-  targetAddress: string,
-  selectedService: string,
-  selectedMethod: string,
-  metadata: string,
-  metadataEnabled: boolean,
-): string {
-  const lines: string[] = [];
-
-  lines.push('ghz \\');
-  lines.push('--insecure \\');
-
-  // Call target
-  if (selectedService && selectedMethod) {
-    lines.push(`--call ${selectedService}.${selectedMethod} \\`);
-  }
-
-  // Metadata (pretty-printed)
-  if (metadataEnabled && metadata) {
-    try {
-      const parsed = JSON.parse(metadata);
-      const pretty = JSON.stringify(parsed, null, 2);
-      lines.push(`-m '${pretty}' \\`);
-    } catch {
-      // skip invalid metadata
-    }
-  }
+// Small file picker that reads a PEM file as text
+const PemInput: React.FC<{
+  label: string;
+  fileName?: string;
+  loaded: boolean;
+  onLoad: (content: string, fileName: string) => void;
+}> = ({ label, fileName, loaded, onLoad }) => (
+  <div>
+    <label className="block text-xs text-gray-400 mb-1">{label}</label>
+    <label className="cursor-pointer bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-2 py-1 rounded text-xs flex items-center gap-2 border border-gray-600 transition-colors">
+      <Upload className="w-3 h-3" />
+      <span className="truncate">{loaded ? fileName || 'loaded' : 'Upload PEM...'}</span>
+      <input
+        type="file"
+        accept=".pem,.crt,.cer,.key"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            const reader = new FileReader();
+            reader.onload = (ev) => onLoad(ev.target?.result as string, file.name);
+            reader.readAsText(file);
+          }
+          e.target.value = '';
+        }}
+      />
+    </label>
+  </div>
+);
 
-  // Data (pretty-printed)
-  try {
-    const parsed = JSON.parse(step.data);
-    const pretty = JSON.stringify(parsed, null, 2);
-    lines.push(`-d '${pretty}' \\`);
-  } catch {
-    lines.push(`-d '${step.data}' \\`);
-  }
+// Pass/fail checks of a step, evaluated on its report after the run
+const AssertionEditor: React.FC<{
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[] | undefined) => void;
+}> = ({ assertions, onChange }) => {
+  const update = (index: number, assertion: Assertion) => onChange(assertions.map((a, i) => (i === index ? assertion : a)));
+  const remove = (index: number) => {
+    const rest = assertions.filter((_, i) => i !== index);
+    onChange(rest.length > 0 ? rest : undefined);
+  };
+  const numberInput = (value: number, onValue: (value: number) => void, suffix: string) => (
+    <span className="flex items-center gap-1">
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(e) => onValue(parseFloat(e.target.value))}
+        className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-white text-xs"
+      />
+      <span className="text-gray-500">{suffix}</span>
+    </span>
+  );
 
-  // Concurrency & total
-  lines.push(`-c ${step.c} \\`);
-  lines.push(`-n ${step.n} \\`);
+  return (
+    <div className="md:col-span-3">
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs text-gray-400">Checks {assertions.length === 0 && <span className="text-gray-600">(none: a step passes when no call fails)</span>}</label>
+        <button
+          onClick={() => onChange([...assertions, defaultAssertion('latency')])}
+          className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-2 py-0.5 rounded text-xs flex items-center gap-1 border border-gray-600 transition-colors"
+        >
+          <Plus className="w-3 h-3" /> Add Check
+        </button>
+      </div>
+      <div className="space-y-1">
+        {assertions.map((assertion, index) => (
+          <div key={index} className="flex items-center gap-2 text-xs">
+            <select
+              value={assertion.type}
+              onChange={(e) => update(index, defaultAssertion(e.target.value as Assertion['type']))}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-white outline-none"
+            >
+              {ASSERTION_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+            </select>
+            {assertion.type === 'latency' && (
+              <>
+                <span className="flex items-center gap-1">
+                  <span className="text-gray-500">p</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    step="any"
+                    value={Number.isFinite(assertion.percentile) ? assertion.percentile : ''}
+                    onChange={(e) => update(index, { ...assertion, percentile: parseFloat(e.target.value) })}
+                    className="w-16 bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-white text-xs"
+                  />
+                </span>
+                <span className="text-gray-500">&lt;</span>
+                {numberInput(assertion.maxMs, (maxMs) => update(index, { ...assertion, maxMs }), 'ms')}
+              </>
+            )}
+            {assertion.type === 'average' && (
+              <>
+                <span className="text-gray-500">&lt;</span>
+                {numberInput(assertion.maxMs, (maxMs) => update(index, { ...assertion, maxMs }), 'ms')}
+              </>
+            )}
+            {assertion.type === 'errorRate' && (
+              <>
+                <span className="text-gray-500">&lt;</span>
+                {numberInput(assertion.maxPercent, (maxPercent) => update(index, { ...assertion, maxPercent }), '%')}
+              </>
+            )}
+            {assertion.type === 'minRps' && (
+              <>
+                <span className="text-gray-500">≥</span>
+                {numberInput(assertion.min, (min) => update(index, { ...assertion, min }), 'rps')}
+              </>
+            )}
+            {assertion.type === 'statusCodes' && (
+              <input
+                type="text"
+                value={assertion.allowed.join(', ')}
+                onChange={(e) => update(index, { ...assertion, allowed: e.target.value.split(/[,\s]+/).filter(Boolean) })}
+                placeholder="OK, NOT_FOUND"
+                className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-white text-xs font-mono"
+              />
+            )}
+            <button onClick={() => remove(index)} className="text-gray-400 hover:text-red-400" title="Remove check">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
 
-  // Target address
-  lines.push(targetAddress);
+// Which option the Rate Limit select shows for a step
+function rateLimitMode(step: TestStep): 'none' | 'const' | 'step' | 'line' {
+  if (step.loadSchedule === 'step' || step.loadSchedule === 'line') return step.loadSchedule;
+  return (step.rps || 0) > 0 ? 'const' : 'none';
+}
 
-  return lines.join('\n');
+// Messages a step cycles through per call, or null for a single message.
+// On client/bidi streams an inline array is sent as the stream's messages instead.
+function dataSetSize(step: TestStep, methodKind: MethodKind): number | null {
+  if (step.dataFile) return step.dataFile.messages.length;
+  if (methodKind === 'client-stream' || methodKind === 'bidi-stream') return null;
+  return countPayloadMessages(step.data);
 }
 
 export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
-  steps, setSteps, onRun, isRunning, targetAddress, setTargetAddress, serviceMethod,
-  selectedService, selectedMethod, metadata, setMetadata, metadataEnabled, setMetadataEnabled, hasValidProto, protoContent
+  steps, setSteps, onRun, isRunning, targetAddress, setTargetAddress, security, setSecurity, serviceMethod,
+  selectedService, selectedMethod, methodKind, metadata, setMetadata, metadataEnabled, setMetadataEnabled, hasValidProto, protoContent,
+  requestType, schema, onImportGhz, onDownloadPlan, agents
 }) => {
 
   // Split targetAddress into host and port
@@ -117,6 +232,38 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
     }
   };
 
+  // Import box for a pasted ghz command or config file
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [importError, setImportError] = useState('');
+
+  const runImport = (text: string, fileName?: string) => {
+    try {
+      const imported = importGhz(text, fileName);
+      const warnings = [...imported.warnings, ...onImportGhz(imported)];
+      if (imported.target) {
+        const colon = imported.target.lastIndexOf(':');
+        const host = colon > 0 ? imported.target.substring(0, colon) : imported.target;
+        setIsCustomHost(!HOST_PRESETS.some(p => p.value === host));
+      }
+      setImportWarnings(warnings);
+      setImportError('');
+      setImportText('');
+      if (warnings.length === 0) setImportOpen(false);
+    } catch (e) {
+      setImportError((e as Error).message);
+      setImportWarnings([]);
+    }
+  };
+
+  const downloadConfig = () => {
+    const configs = buildGhzConfigs(steps, targetAddress, security, selectedService, selectedMethod, methodKind, metadata, metadataEnabled);
+    configs.forEach((config, i) => {
+      downloadText(config, configs.length === 1 ? 'ghz-config.json' : `ghz-config-step-${i + 1}.json`, 'application/json');
+    });
+  };
+
   const updateAddress = (host: string, port: string) => {
     setTargetAddress(port ? `${host}:${port}` : host);
   };
@@ -133,10 +280,21 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
     setSteps(steps.map(s => s.id === id ? { ...s, [field]: value } : s));
   };
 
+  const patchStep = (id: string, patch: Partial<TestStep>) => {
+    setSteps(steps.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  // Request data problems per step; any error blocks the run
+  const dataIssues = useMemo(() => steps.map((step): DataIssue[] => step.dataFile
+    ? validateDataSet(step.dataFile.messages, requestType, schema)
+    : validateRequestData(step.data, requestType, schema)), [steps, requestType, schema]);
+  const invalidSteps = dataIssues.flatMap((issues, i) => issues.some(issue => issue.severity === 'error') ? [i + 1] : []);
+  const cannotRun = isRunning || !selectedService || !selectedMethod || steps.length === 0 || invalidSteps.length > 0;
+
   // Build the combined script from the first step (primary use case)
   const mainStep = steps[0];
   const ghzScript = mainStep
-    ? buildGhzScript(mainStep, targetAddress, selectedService, selectedMethod, metadata, metadataEnabled)
+    ? buildGhzScript(mainStep, targetAddress, security, selectedService, selectedMethod, methodKind, metadata, metadataEnabled)
     : '';
 
   return (
@@ -213,8 +371,71 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
 
           {scriptExpanded && (
             <div className="px-4 pb-4">
+              <div className="flex items-center gap-2 mb-4">
+                <button
+                  onClick={() => setImportOpen(!importOpen)}
+                  className="px-3 py-1.5 rounded-lg text-xs flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-600 transition-colors"
+                >
+                  <Upload className="w-3.5 h-3.5" /> Import ghz command
+                </button>
+                <button
+                  onClick={downloadConfig}
+                  className="px-3 py-1.5 rounded-lg text-xs flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-600 transition-colors"
+                  title={steps.length > 1 ? 'One ghz config file per step' : undefined}
+                >
+                  <Download className="w-3.5 h-3.5" /> Download ghz config{steps.length > 1 && 's'}
+                </button>
+                <button
+                  onClick={onDownloadPlan}
+                  className="px-3 py-1.5 rounded-lg text-xs flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-600 transition-colors"
+                  title="Proto, target, metadata and steps for POST /api/plans/run or scripts/run-plan.mjs"
+                >
+                  <Download className="w-3.5 h-3.5" /> Download test plan
+                </button>
+              </div>
+
+              {importOpen && (
+                <div className="mb-4 bg-gray-950/60 border border-gray-700 rounded-lg p-3">
+                  <textarea
+                    value={importText}
+                    onChange={(e) => setImportText(e.target.value)}
+                    placeholder={"ghz --insecure --call pkg.Service.Method -d '{...}' -c 10 -n 1000 localhost:50051\n\nor a ghz config file (JSON or TOML)"}
+                    className="w-full h-28 bg-gray-900 border border-gray-600 rounded-lg p-3 font-mono text-xs text-white outline-none resize-y"
+                  />
+                  <div className="flex items-center gap-2 mt-2">
+                    <button
+                      onClick={() => runImport(importText)}
+                      disabled={!importText.trim()}
+                      className="px-3 py-1.5 rounded-lg text-xs bg-purple-600 hover:bg-purple-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Import
+                    </button>
+                    <label className="cursor-pointer px-3 py-1.5 rounded-lg text-xs flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-600 transition-colors">
+                      <Upload className="w-3.5 h-3.5" /> Config file...
+                      <input
+                        type="file"
+                        accept=".json,.toml"
+                        className="hidden"
+                        onChange={async (e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) runImport(await file.text(), file.name);
+                        }}
+                      />
+                    </label>
+                    <span className="text-xs text-gray-500">Replaces the target, call, security, metadata and steps</span>
+                  </div>
+                  {importError && <p className="text-xs text-red-400 mt-2">{importError}</p>}
+                  {importWarnings.length > 0 && (
+                    <ul className="mt-2 text-xs text-yellow-400 list-disc pl-4 space-y-0.5">
+                      {importWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {steps.map((step, index) => {
-                const script = buildGhzScript(step, targetAddress, selectedService, selectedMethod, metadata, metadataEnabled);
+                const script = buildGhzScript(step, targetAddress, security, selectedService, selectedMethod, methodKind, metadata, metadataEnabled);
                 return (
                   <div key={step.id} className="relative">
                     {steps.length > 1 && (
@@ -246,10 +467,75 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
         </div>
       )}
 
+      {/* Connection Security Section */}
+      <div className="mb-6 bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-xs text-gray-400 flex items-center gap-1">
+            <Lock className="w-3 h-3" /> Connection Security
+          </label>
+          <select
+            value={security.mode}
+            onChange={(e) => setSecurity({ ...security, mode: e.target.value as ConnectionSecurity['mode'] })}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white outline-none"
+          >
+            {SECURITY_MODES.map(m => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+        </div>
+        {security.mode !== 'plaintext' && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+            {(security.mode === 'tls-ca' || security.mode === 'mtls') && (
+              <PemInput
+                label={security.mode === 'mtls' ? 'CA Certificate (optional)' : 'CA Certificate'}
+                fileName={security.caCertName}
+                loaded={!!security.caCert}
+                onLoad={(caCert, caCertName) => setSecurity({ ...security, caCert, caCertName })}
+              />
+            )}
+            {security.mode === 'mtls' && (
+              <>
+                <PemInput
+                  label="Client Certificate"
+                  fileName={security.clientCertName}
+                  loaded={!!security.clientCert}
+                  onLoad={(clientCert, clientCertName) => setSecurity({ ...security, clientCert, clientCertName })}
+                />
+                <PemInput
+                  label="Client Key"
+                  fileName={security.clientKeyName}
+                  loaded={!!security.clientKey}
+                  onLoad={(clientKey, clientKeyName) => setSecurity({ ...security, clientKey, clientKeyName })}
+                />
+              </>
+            )}
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Authority / Server Name</label>
+              <input
+                type="text"
+                value={security.serverName || ''}
+                onChange={(e) => setSecurity({ ...security, serverName: e.target.value })}
+                placeholder="api.example.com"
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs"
+              />
+            </div>
+            <label className="flex items-center gap-2 md:col-span-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!security.skipVerify}
+                onChange={(e) => setSecurity({ ...security, skipVerify: e.target.checked })}
+                className="w-4 h-4 accent-purple-500"
+              />
+              <span className="text-xs text-gray-400">Skip certificate verification</span>
+            </label>
+          </div>
+        )}
+      </div>
+
       {/* Metadata Section */}
       <div className="mb-6 bg-gray-900/50 p-4 rounded-lg border border-gray-700">
         <div className="flex items-center justify-between mb-1">
-          <label className="block text-xs text-gray-400">Metadata (-m)</label>
+          <label className="block text-xs text-gray-400 cursor-help" title={TEMPLATE_HINT}>Metadata (-m) <span className="text-gray-600">{'{{…}}'}</span></label>
           <label className={`flex items-center gap-2 ${hasValidProto ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}`}>
             <span className="text-xs text-gray-400">{!hasValidProto ? 'No Proto' : metadataEnabled ? 'On' : 'Off'}</span>
             <input
@@ -291,24 +577,288 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
                 />
               </div>
               <div>
-                <label className="block text-xs text-gray-400 mb-1">Total Requests (-n)</label>
+                <label className="block text-xs text-gray-400 mb-1">Stop After</label>
+                <select
+                  value={step.mode || 'count'}
+                  onChange={(e) => e.target.value === 'duration'
+                    ? patchStep(step.id, { mode: 'duration', z: step.z || '30s', n: 0 })
+                    : patchStep(step.id, { mode: 'count', n: step.n || 100 })}
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                >
+                  <option value="count">Request count</option>
+                  <option value="duration">Duration</option>
+                </select>
+              </div>
+              {step.mode === 'duration' ? (
+                <>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Duration (-z)</label>
+                    <input
+                      type="text"
+                      value={step.z || ''}
+                      onChange={(e) => updateStep(step.id, 'z', e.target.value)}
+                      placeholder="30s, 5m, 1h"
+                      className={`w-full bg-gray-800 border rounded px-2 py-1 text-white text-sm ${parseDuration(step.z || '') ? 'border-gray-600' : 'border-red-500'}`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Max Requests (0 = no cap)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={step.n}
+                      onChange={(e) => updateStep(step.id, 'n', parseInt(e.target.value))}
+                      className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                    />
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Total Requests (-n)</label>
+                  <input
+                    type="number"
+                    value={step.n}
+                    onChange={(e) => updateStep(step.id, 'n', parseInt(e.target.value))}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Rate Limit</label>
+                <select
+                  value={rateLimitMode(step)}
+                  onChange={(e) => {
+                    const mode = e.target.value;
+                    if (mode === 'none') {
+                      patchStep(step.id, { loadSchedule: undefined, rps: 0 });
+                    } else if (mode === 'const') {
+                      patchStep(step.id, { loadSchedule: 'const', rps: step.rps || 100 });
+                    } else {
+                      patchStep(step.id, {
+                        loadSchedule: mode as LoadSchedule['loadSchedule'],
+                        loadStart: step.loadStart ?? 10,
+                        loadStep: step.loadStep ?? 10,
+                        loadEnd: step.loadEnd ?? 100,
+                        loadStepDuration: step.loadStepDuration || '5s',
+                      });
+                    }
+                  }}
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                >
+                  <option value="none">Unlimited</option>
+                  <option value="const">Constant RPS (-r)</option>
+                  <option value="step">Step schedule</option>
+                  <option value="line">Linear schedule</option>
+                </select>
+              </div>
+              {rateLimitMode(step) === 'const' && (
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Target RPS (-r)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={step.rps ?? 0}
+                    onChange={(e) => updateStep(step.id, 'rps', parseInt(e.target.value))}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                  />
+                </div>
+              )}
+              {(step.loadSchedule === 'step' || step.loadSchedule === 'line') && (
+                <div className="md:col-span-3 grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Start RPS</label>
+                    <input
+                      type="number"
+                      value={step.loadStart ?? 0}
+                      onChange={(e) => updateStep(step.id, 'loadStart', parseInt(e.target.value))}
+                      className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      {step.loadSchedule === 'step' ? 'Step (RPS)' : 'Slope (RPS/s)'}
+                    </label>
+                    <input
+                      type="number"
+                      value={step.loadStep ?? 0}
+                      onChange={(e) => updateStep(step.id, 'loadStep', parseInt(e.target.value))}
+                      className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">End RPS (0 = none)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={step.loadEnd ?? 0}
+                      onChange={(e) => updateStep(step.id, 'loadEnd', parseInt(e.target.value))}
+                      className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                    />
+                  </div>
+                  {step.loadSchedule === 'step' && (
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">Step Duration</label>
+                      <input
+                        type="text"
+                        value={step.loadStepDuration || ''}
+                        onChange={(e) => updateStep(step.id, 'loadStepDuration', e.target.value)}
+                        placeholder="5s"
+                        className={`w-full bg-gray-800 border rounded px-2 py-1 text-white text-sm ${parseDuration(step.loadStepDuration || '') ? 'border-gray-600' : 'border-red-500'}`}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Connections</label>
                 <input
                   type="number"
-                  value={step.n}
-                  onChange={(e) => updateStep(step.id, 'n', parseInt(e.target.value))}
+                  min={1}
+                  max={step.c}
+                  value={step.connections ?? 1}
+                  onChange={(e) => updateStep(step.id, 'connections', parseInt(e.target.value) > 1 ? parseInt(e.target.value) : undefined)}
+                  title="Separate gRPC connections the workers are spread over, as ghz --connections. At most the concurrency."
                   className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
                 />
+                {(step.threads ?? 1) > (step.connections ?? 1) && (
+                  <p className="mt-1 text-xs text-yellow-400">{step.threads} opened, one per thread</p>
+                )}
               </div>
-              <div className="md:col-span-3">
-                <label className="block text-xs text-gray-400 mb-1">Request Data (JSON)</label>
-                <textarea
-                  value={step.data}
-                  onChange={(e) => updateStep(step.id, 'data', e.target.value)}
-                  className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs font-mono min-h-16 resize-none overflow-hidden"
-                  placeholder='{"key": "value"}'
-                  style={{ height: `${Math.max(64, (step.data.split('\n').length + 1) * 16)}px` }}
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Worker Threads</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={step.c}
+                  value={step.threads ?? 1}
+                  onChange={(e) => updateStep(step.id, 'threads', parseInt(e.target.value) > 1 ? parseInt(e.target.value) : undefined)}
+                  title="Make the calls on this many threads, each with its own connections, when one event loop cannot keep up with the target. Statistics are merged into one report."
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
                 />
               </div>
+              {agents.length > 0 && (
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Distributed</label>
+                  <label
+                    className="flex items-center gap-2 py-1 text-sm text-gray-300 cursor-pointer"
+                    title={`Split concurrency, requests and rate across the agents and merge their results:\n${agents.map(agent => `${agent.url} — ${agent.reachable ? 'reachable' : `unreachable (${agent.error})`}`).join('\n')}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!!step.distributed}
+                      onChange={(e) => updateStep(step.id, 'distributed', e.target.checked || undefined)}
+                    />
+                    {agents.length} agent{agents.length === 1 ? '' : 's'}
+                    {agents.some(agent => !agent.reachable) && (
+                      <span className="text-red-400">({agents.filter(agent => !agent.reachable).length} unreachable)</span>
+                    )}
+                  </label>
+                </div>
+              )}
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Per-call Details</label>
+                <label
+                  className="flex items-center gap-2 py-1 text-sm text-gray-300 cursor-pointer"
+                  title="Keep every call in the report for CSV and InfluxDB detail exports. Memory and report size grow with the call count; leave off for long soak runs."
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!step.details}
+                    onChange={(e) => updateStep(step.id, 'details', e.target.checked || undefined)}
+                  />
+                  Keep every call
+                </label>
+              </div>
+              {(methodKind === 'client-stream' || methodKind === 'bidi-stream') && (
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Messages per Stream</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={step.streamCount ?? 1}
+                    onChange={(e) => updateStep(step.id, 'streamCount', parseInt(e.target.value))}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+                  />
+                </div>
+              )}
+              <div className="md:col-span-3">
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-xs text-gray-400 cursor-help" title={TEMPLATE_HINT}>Request Data (JSON) <span className="text-gray-600">{'{{…}}'}</span></label>
+                  <div className="flex items-center gap-2">
+                    {(dataSetSize(step, methodKind) ?? 0) > 1 && (
+                      <select
+                        value={step.dataOrder || 'round-robin'}
+                        onChange={(e) => updateStep(step.id, 'dataOrder', e.target.value)}
+                        className="bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-xs text-white outline-none"
+                      >
+                        <option value="round-robin">Round-robin</option>
+                        <option value="random">Random</option>
+                      </select>
+                    )}
+                    <label className="cursor-pointer bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-2 py-0.5 rounded text-xs flex items-center gap-1 border border-gray-600 transition-colors">
+                      <Upload className="w-3 h-3" /> Data File
+                      <input
+                        type="file"
+                        accept=".json,.ndjson,.jsonl"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) {
+                            const reader = new FileReader();
+                            reader.onload = (ev) => {
+                              try {
+                                const messages = parsePayloadFile(ev.target?.result as string);
+                                updateStep(step.id, 'dataFile', { name: file.name, messages });
+                              } catch (error) {
+                                alert(`Failed to load ${file.name}: ${(error as Error).message}`);
+                              }
+                            };
+                            reader.readAsText(file);
+                          }
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  </div>
+                </div>
+                {step.dataFile ? (
+                  <>
+                    <div className="flex items-center justify-between bg-gray-800 border border-gray-600 rounded px-2 py-2 text-xs text-gray-300">
+                      <span className="flex items-center gap-2">
+                        <Database className="w-3.5 h-3.5 text-blue-400" />
+                        {step.dataFile.messages.length} messages loaded from <span className="font-mono">{step.dataFile.name}</span>
+                      </span>
+                      <button
+                        onClick={() => updateStep(step.id, 'dataFile', undefined)}
+                        className="text-gray-400 hover:text-white"
+                        title="Use inline data"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <DataIssueList issues={dataIssues[index]} />
+                  </>
+                ) : (
+                  <>
+                    <RequestDataEditor
+                      value={step.data}
+                      onChange={(data) => updateStep(step.id, 'data', data)}
+                      issues={dataIssues[index]}
+                      requestType={requestType}
+                      schema={schema}
+                    />
+                    {dataSetSize(step, methodKind) !== null && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {dataSetSize(step, methodKind)} messages in data set
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+              <AssertionEditor
+                assertions={step.assertions || []}
+                onChange={(assertions) => updateStep(step.id, 'assertions', assertions)}
+              />
             </div>
           </div>
         ))}
@@ -324,9 +874,10 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
 
         <button
           onClick={onRun}
-          disabled={isRunning || !selectedService || !selectedMethod || steps.length === 0}
+          disabled={cannotRun}
+          title={invalidSteps.length > 0 ? `Fix the request data of step ${invalidSteps.join(', ')} first` : undefined}
           className={`flex-1 py-2 rounded-lg font-bold text-white flex items-center justify-center gap-2 transition-all
-                ${isRunning || !selectedService || !selectedMethod || steps.length === 0
+                ${cannotRun
               ? 'bg-gray-600 cursor-not-allowed'
               : 'bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 shadow-lg hover:shadow-green-500/20'
             }`}
@@ -338,6 +889,11 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
           )}
         </button>
       </div>
+      {invalidSteps.length > 0 && (
+        <p className="mt-2 text-xs text-red-400 text-right">
+          Fix the request data of step {invalidSteps.join(', ')} before running
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { History, RefreshCw, Trash2, FolderOpen, GitCompare } from 'lucide-react';
+import type { RunSummary } from '../app/lib/runHistory';
+
+interface HistoryPanelProps {
+  runs: RunSummary[];
+  isLoading: boolean;
+  selectedService: string;
+  selectedMethod: string;
+  onRefresh: () => void;
+  onOpen: (id: string) => void;
+  onCompare: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+// Saved steps from earlier sessions, newest first
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  runs, isLoading, selectedService, selectedMethod, onRefresh, onOpen, onCompare, onDelete, onClear
+}) => {
+  const [currentMethodOnly, setCurrentMethodOnly] = useState(false);
+
+  const canFilter = !!selectedService && !!selectedMethod;
+  const shown = currentMethodOnly && canFilter
+    ? runs.filter(run => run.service === selectedService && run.method === selectedMethod)
+    : runs;
+
+  return (
+    <div className="bg-gray-800/30 rounded-xl p-6 border border-gray-700/50 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <History className="w-5 h-5 text-purple-400" /> Run History
+        </h2>
+        <button onClick={onRefresh} className="text-gray-400 hover:text-white" title="Refresh">
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="flex justify-between items-center mb-2 text-xs text-gray-400">
+        <label className={`flex items-center gap-1.5 ${canFilter ? 'cursor-pointer' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={currentMethodOnly}
+            disabled={!canFilter}
+            onChange={(e) => setCurrentMethodOnly(e.target.checked)}
+          />
+          Selected method only
+        </label>
+        {runs.length > 0 && (
+          <button
+            onClick={() => confirm(`Delete all ${runs.length} saved runs?`) && onClear()}
+            className="hover:text-red-400 transition-colors"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-xs text-gray-500">{isLoading ? 'Loading...' : 'No saved runs yet. Every completed step is saved here.'}</p>
+      ) : (
+        <ul className="max-h-80 overflow-y-auto bg-gray-900/50 border border-gray-700 rounded-lg divide-y divide-gray-800">
+          {shown.map(run => (
+            <li key={run.id} className="px-3 py-2 text-xs">
+              <div className="flex justify-between items-center gap-2">
+                <span className="font-mono text-gray-300 truncate" title={`${run.service}/${run.method}`}>
+                  {run.service.slice(run.service.lastIndexOf('.') + 1)}/{run.method}
+                </span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <button onClick={() => onOpen(run.id)} className="text-gray-400 hover:text-white" title="Open report">
+                    <FolderOpen className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onCompare(run.id)} className="text-gray-400 hover:text-white" title="Compare">
+                    <GitCompare className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onDelete(run.id)} className="text-gray-500 hover:text-red-400" title="Delete">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              </div>
+              <div className="text-gray-500 mt-0.5">
+                {new Date(run.savedAt).toLocaleString()} · {run.target}
+              </div>
+              <div className="text-gray-400 mt-0.5 font-mono">
+                {run.count} req · {run.rps.toFixed(1)} rps · {(run.average / 1e6).toFixed(2)} ms avg
+                {run.errors > 0 && <span className="text-red-400"> · {run.errors} errors</span>}
+                {run.endReason === 'cancel' && <span className="text-yellow-400"> · cancelled</span>}
+                {run.passed === true && <span className="text-green-400"> · passed</span>}
+                {run.passed === false && <span className="text-red-400"> · checks failed</span>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
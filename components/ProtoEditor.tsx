@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { diagnosticLocation, ProtoDiagnostic } from '../app/lib/protoDiagnostics';
+
+interface ProtoEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: ProtoDiagnostic[];
+  file?: string; // diagnostics for this file are highlighted in the editor
+}
+
+// Same box model for the textarea and the highlight layer behind it
+const EDITOR_TEXT = 'p-3 text-xs font-mono leading-5 whitespace-pre';
+
+// Proto textarea with lines that have diagnostics highlighted
+export const ProtoEditor: React.FC<ProtoEditorProps> = ({ value, onChange, diagnostics, file = 'service.proto' }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const lineSeverity = new Map<number, ProtoDiagnostic['severity']>();
+  for (const d of diagnostics) {
+    if (d.file === file && d.line && lineSeverity.get(d.line) !== 'error') lineSeverity.set(d.line, d.severity);
+  }
+
+  return (
+    <div>
+      <div className="relative h-64 bg-gray-900/50 border border-gray-700 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-blue-500">
+        {/* Highlight layer, scrolled along with the textarea */}
+        <div ref={backdropRef} aria-hidden className={`absolute inset-0 overflow-hidden text-transparent pointer-events-none ${EDITOR_TEXT}`}>
+          <div className="w-max min-w-full">
+            {value.split('\n').map((line, i) => {
+              const severity = lineSeverity.get(i + 1);
+              const highlight = severity === 'error' ? 'bg-red-500/25' : severity === 'warning' ? 'bg-yellow-500/20' : '';
+              return <div key={i} className={`${highlight} -mx-3 px-3`}>{line || ' '}</div>;
+            })}
+          </div>
+        </div>
+        <textarea
+          className={`relative w-full h-full bg-transparent text-gray-300 outline-none resize-none ${EDITOR_TEXT}`}
+          placeholder="Paste your .proto content here or import a file..."
+          wrap="off"
+          spellCheck={false}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) {
+              backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+              backdropRef.current.scrollLeft = e.currentTarget.scrollLeft;
+            }
+          }}
+        />
+      </div>
+      <DiagnosticsList diagnostics={diagnostics} />
+    </div>
+  );
+};
+
+export const DiagnosticsList: React.FC<{ diagnostics: ProtoDiagnostic[] }> = ({ diagnostics }) => {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <ul className="mt-3 max-h-40 overflow-y-auto space-y-1">
+      {diagnostics.map((d, i) => (
+        <li key={i} className={`flex items-start gap-2 text-xs ${d.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+          {d.severity === 'error'
+            ? <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+          <span>
+            {diagnosticLocation(d) && <span className="font-mono text-gray-500 mr-1.5">{diagnosticLocation(d)}</span>}
+            {d.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
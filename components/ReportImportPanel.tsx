@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { FileInput, Upload } from 'lucide-react';
+import type { RunReport } from '../app/lib/loadRunner';
+import { parseGhzReports } from '../app/lib/ghzReport';
+
+interface ReportImportPanelProps {
+  onImport: (reports: RunReport[]) => void;
+}
+
+// Reports from the ghz CLI (-O json), uploaded or pasted, shown next to the web runner's
+export const ReportImportPanel: React.FC<ReportImportPanelProps> = ({ onImport }) => {
+  const [pasted, setPasted] = useState('');
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importFiles = async (files: File[]) => {
+    try {
+      const reports: RunReport[] = [];
+      for (const file of files) reports.push(...parseGhzReports(await file.text(), file.name));
+      onImport(reports);
+      setError('');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const importPasted = () => {
+    try {
+      onImport(parseGhzReports(pasted, 'pasted report'));
+      setPasted('');
+      setError('');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/30 rounded-xl p-6 border border-gray-700/50 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <FileInput className="w-5 h-5 text-purple-400" /> Import ghz Report
+        </h2>
+        <button onClick={() => fileInputRef.current?.click()} className="text-gray-400 hover:text-white" title="Upload ghz -O json files">
+          <Upload className="w-4 h-4" />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            importFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <textarea
+        value={pasted}
+        onChange={(e) => setPasted(e.target.value)}
+        placeholder="Paste the output of ghz ... -O json"
+        className="w-full h-24 bg-gray-900 border border-gray-600 rounded-lg p-3 font-mono text-xs text-white outline-none resize-y"
+      />
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      <button
+        onClick={importPasted}
+        disabled={!pasted.trim()}
+        className="mt-2 w-full py-1.5 rounded-lg text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add to results
+      </button>
+    </div>
+  );
+};
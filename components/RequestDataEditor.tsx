@@ -0,0 +1,110 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import type { ProtoSchema } from '../app/lib/protoSchema';
+import { DataCompletion, DataIssue, dataCompletions, dataIssueLocation } from '../app/lib/requestValidation';
+
+interface RequestDataEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  issues: DataIssue[];
+  requestType: string; // fully qualified request message name
+  schema: ProtoSchema;
+}
+
+// Request data textarea with field-name and enum-value suggestions for the
+// word at the cursor. Tab takes the first suggestion once something is typed
+// (so it still moves focus otherwise), Escape hides them.
+export const RequestDataEditor: React.FC<RequestDataEditorProps> = ({ value, onChange, issues, requestType, schema }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  const completions = useMemo(
+    () => (cursor === null || dismissed ? null : dataCompletions(value, cursor, requestType, schema)),
+    [value, cursor, dismissed, requestType, schema]
+  );
+
+  const trackCursor = (e: React.SyntheticEvent<HTMLTextAreaElement>) => setCursor(e.currentTarget.selectionStart);
+
+  const accept = (item: DataCompletion) => {
+    if (!completions || cursor === null) return;
+    const next = value.slice(0, completions.from) + item.insert + value.slice(cursor);
+    const caret = completions.from + item.insert.length;
+    onChange(next);
+    setCursor(caret);
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(caret, caret));
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Tab' && completions && cursor !== null && completions.from < cursor) {
+      e.preventDefault();
+      accept(completions.items[0]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  const border = issues.some(issue => issue.severity === 'error') ? 'border-red-500/70'
+    : issues.length > 0 ? 'border-yellow-500/70' : 'border-gray-600';
+
+  return (
+    <div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart);
+          setDismissed(false);
+        }}
+        onKeyDown={onKeyDown}
+        onKeyUp={trackCursor}
+        onClick={trackCursor}
+        onFocus={trackCursor}
+        onBlur={() => setCursor(null)}
+        spellCheck={false}
+        className={`w-full bg-gray-800 border ${border} rounded px-2 py-1 text-white text-xs font-mono min-h-16 resize-none overflow-hidden`}
+        placeholder='{"key": "value"}'
+        style={{ height: `${Math.max(64, (value.split('\n').length + 1) * 16)}px` }}
+      />
+      {completions && (
+        <div className="flex flex-wrap items-center gap-1 mt-1">
+          {completions.items.slice(0, 12).map((item, i) => (
+            <button
+              key={item.label}
+              // Keep focus (and the cursor) in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(item)}
+              className={`px-1.5 py-0.5 rounded border text-xs font-mono ${i === 0 ? 'border-blue-500/60 bg-blue-500/10 text-blue-200' : 'border-gray-600 bg-gray-800 text-gray-300 hover:text-white'}`}
+              title={i === 0 ? 'Tab to insert' : undefined}
+            >
+              {item.label} <span className="text-gray-500">{item.detail}</span>
+            </button>
+          ))}
+          {completions.items.length > 12 && <span className="text-xs text-gray-500">+{completions.items.length - 12} more</span>}
+        </div>
+      )}
+      <DataIssueList issues={issues} />
+    </div>
+  );
+};
+
+export const DataIssueList: React.FC<{ issues: DataIssue[] }> = ({ issues }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+      {issues.map((issue, i) => (
+        <li key={i} className={`flex items-start gap-1.5 text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+          {issue.severity === 'error'
+            ? <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+          <span>
+            {dataIssueLocation(issue) && <span className="font-mono text-gray-500 mr-1.5">{dataIssueLocation(issue)}</span>}
+            {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
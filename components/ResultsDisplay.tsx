@@ -1,28 +1,71 @@
-import React from 'react';
-import { Download, Activity, CheckCircle, XCircle, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { Download, Activity, CheckCircle, XCircle, Clock, GitCompare, FileCode } from 'lucide-react';
 import html2canvas from 'html2canvas';
+import type { RunReport } from '../app/lib/loadRunner';
+import type { AssertionResult } from '../app/lib/assertions';
+import type { TimeSeries } from '../app/lib/timeSeries';
+import type { AgentResult } from '../app/lib/distributedRun';
+import { EXPORT_FORMATS, ExportFormat, exportReport, toJUnit } from '../app/lib/reportExport';
+import { downloadText } from '../app/lib/download';
+import { TimeSeriesCharts } from './TimeSeriesCharts';
 
 interface ResultData {
   date: string;
+  importedFrom?: string; // ghz CLI report file
+  assertions?: AssertionResult[];
+  endReason?: string; // normal, timeout or cancel
+  cancelled?: boolean;
+  cancelledInFlight?: number;
   duration: number; // Duration in ns (from 'total' field in ghz)
   total: number; // This is actually duration in ns in ghz output!
   count: number; // This is the total number of requests
   average: number;
+  stddev?: number;
   fastest: number;
   slowest: number;
   rps: number;
+  callType?: string; // unary, server-stream, client-stream or bidi-stream
+  streamStats?: {
+    messagesSent: number;
+    messagesReceived: number;
+    avgSentPerStream: number;
+    avgReceivedPerStream: number;
+  };
+  loadSchedule?: {
+    type: string; // const, step or line
+    scheduledRps: number;
+    achievedRps: number;
+  };
   errorDist: { [key: string]: number };
   statusCodeDistribution: { [key: string]: number };
   latencyDistribution: { percentage: number; latency: number }[];
   histogram: { mark: number; count: number; frequency: number }[];
+  timeSeries?: TimeSeries;
+  agents?: AgentResult[]; // distributed runs
+  errorSamples?: RunReport['details']; // when per-call details were not kept
   details: any[]; // ghz details
 }
 
 interface ResultsProps {
   results: ResultData[];
+  onCompare?: () => void;
 }
 
-export const ResultsDisplay: React.FC<ResultsProps> = ({ results }) => {
+export const ResultsDisplay: React.FC<ResultsProps> = ({ results, onCompare }) => {
+  const [exportMenu, setExportMenu] = useState<number | null>(null);
+
+  const exportAs = (idx: number, format: ExportFormat) => {
+    const option = EXPORT_FORMATS.find(f => f.format === format)!;
+    const content = exportReport(results[idx] as unknown as RunReport, format);
+    downloadText(content, `ghz-result-${idx + 1}.${option.extension}`, option.mime);
+    setExportMenu(null);
+  };
+
+  // One JUnit file for the whole plan, a test suite per step
+  const exportJUnit = () => {
+    downloadText(toJUnit((results as unknown as RunReport[]).map(report => ({ report }))), 'ghz-results.xml', 'application/xml');
+  };
+
   const exportImage = async (id: string) => {
     try {
       const element = document.getElementById(id);
@@ -47,9 +90,28 @@ export const ResultsDisplay: React.FC<ResultsProps> = ({ results }) => {
 
   return (
     <div className="space-y-8 mt-8">
-      <h2 className="text-2xl font-bold text-[#f3f4f6] flex items-center gap-2">
-        <Activity className="w-6 h-6 text-[#4ade80]" /> Test Results
-      </h2>
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-[#f3f4f6] flex items-center gap-2">
+          <Activity className="w-6 h-6 text-[#4ade80]" /> Test Results
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportJUnit}
+            className="px-3 py-1.5 rounded-lg text-xs flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-600 transition-colors"
+            title="Download all steps as one JUnit XML file"
+          >
+            <FileCode className="w-3.5 h-3.5" /> JUnit
+          </button>
+          {onCompare && (
+            <button
+              onClick={onCompare}
+              className="px-3 py-1.5 rounded-lg text-xs flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white border border-gray-600 transition-colors"
+            >
+              <GitCompare className="w-3.5 h-3.5" /> Compare
+            </button>
+          )}
+        </div>
+      </div>
 
       <div className="grid grid-cols-1 gap-6 items-start">
         {results.map((res, idx) => (
@@ -60,18 +122,75 @@ export const ResultsDisplay: React.FC<ResultsProps> = ({ results }) => {
           >
             <div className="flex justify-between items-start mb-4 border-b border-[#374151] pb-4">
               <div>
-                <h3 className="text-lg font-bold text-white mb-1">Run #{idx + 1}</h3>
-                <p className="text-xs text-[#6b7280]">{new Date(res.date).toLocaleString()}</p>
+                <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+                  Run #{idx + 1}
+                  {res.cancelled && (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded bg-[#7f1d1d] text-[#fca5a5]">CANCELLED</span>
+                  )}
+                  {res.importedFrom && (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded bg-[#1e3a8a] text-[#93c5fd]" title={res.importedFrom}>GHZ CLI</span>
+                  )}
+                  {res.assertions && (res.assertions.every(a => a.passed) ? (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded bg-[#14532d] text-[#86efac]">PASS</span>
+                  ) : (
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded bg-[#7f1d1d] text-[#fca5a5]">FAIL</span>
+                  ))}
+                </h3>
+                <p className="text-xs text-[#6b7280]">
+                  {new Date(res.date).toLocaleString()}
+                  {res.importedFrom && ` · ${res.importedFrom}`}
+                </p>
+              </div>
+              <div className="relative">
+                <button
+                  onClick={() => setExportMenu(exportMenu === idx ? null : idx)}
+                  className="p-2 hover:bg-[#374151] rounded transition-colors text-[#9ca3af] hover:text-white"
+                  title="Export"
+                >
+                  <Download className="w-5 h-5" />
+                </button>
+                {exportMenu === idx && (
+                  <div className="absolute right-0 mt-1 w-64 z-10 bg-[#111111] border border-[#374151] rounded shadow-xl py-1 font-sans text-xs">
+                    <button
+                      onClick={() => { setExportMenu(null); exportImage(`result-card-${idx}`); }}
+                      className="block w-full text-left px-3 py-1.5 hover:bg-[#374151] text-[#d1d5db]"
+                    >
+                      Image (PNG)
+                    </button>
+                    {EXPORT_FORMATS.map(option => (
+                      <button
+                        key={option.format}
+                        onClick={() => exportAs(idx, option.format)}
+                        disabled={option.perCall && !res.details?.length}
+                        title={option.perCall && !res.details?.length ? 'Run with per-call details to export every call' : undefined}
+                        className="block w-full text-left px-3 py-1.5 hover:bg-[#374151] text-[#d1d5db] disabled:text-[#6b7280] disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
-              <button
-                onClick={() => exportImage(`result-card-${idx}`)}
-                className="p-2 hover:bg-[#374151] rounded transition-colors text-[#9ca3af] hover:text-white"
-                title="Export as Image"
-              >
-                <Download className="w-5 h-5" />
-              </button>
             </div>
 
+            {/* Assertion results */}
+            {res.assertions && res.assertions.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-[#ffffff] font-bold mb-2">Checks:</h4>
+                <div className="pl-4 space-y-1">
+                  {res.assertions.map((check, i) => (
+                    <div key={i} className={`flex items-start gap-2 ${check.passed ? 'text-[#4ade80]' : 'text-[#f87171]'}`}>
+                      {check.passed ? <CheckCircle className="w-4 h-4 mt-0.5 shrink-0" /> : <XCircle className="w-4 h-4 mt-0.5 shrink-0" />}
+                      <span>
+                        {check.label}
+                        <span className="text-[#9ca3af]"> — {check.passed ? check.actual : check.reason}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Summary Section */}
             <div className="mb-1">
               <h4 className="text-[#ffffff] font-bold mb-2">Summary:</h4>
@@ -91,11 +210,83 @@ export const ResultsDisplay: React.FC<ResultsProps> = ({ results }) => {
                 <div>Average:</div>
                 <div>{(res.average / 1000000).toFixed(2)} ms</div>
 
+                {res.stddev !== undefined && (
+                  <>
+                    <div>Std dev:</div>
+                    <div>{(res.stddev / 1000000).toFixed(2)} ms</div>
+                  </>
+                )}
+
                 <div>Requests/sec:</div>
                 <div>{res.rps?.toFixed(2) || "0.00"}</div>
+
+                {res.cancelled && (
+                  <>
+                    <div>Cancelled calls:</div>
+                    <div>{res.cancelledInFlight || 0} in flight (not counted)</div>
+                  </>
+                )}
+
+                {res.loadSchedule && (
+                  <>
+                    <div>Scheduled RPS:</div>
+                    <div>{res.loadSchedule.scheduledRps.toFixed(2)} ({res.loadSchedule.type})</div>
+
+                    <div>Achieved RPS:</div>
+                    <div className={res.loadSchedule.achievedRps < res.loadSchedule.scheduledRps * 0.95 ? 'text-[#f87171]' : ''}>
+                      {res.loadSchedule.achievedRps.toFixed(2)}
+                    </div>
+                  </>
+                )}
+
+                {res.streamStats && (
+                  <>
+                    <div>Call type:</div>
+                    <div>{res.callType}</div>
+
+                    <div>Messages sent:</div>
+                    <div>{res.streamStats.messagesSent} ({res.streamStats.avgSentPerStream.toFixed(2)} / stream)</div>
+
+                    <div>Messages received:</div>
+                    <div>{res.streamStats.messagesReceived} ({res.streamStats.avgReceivedPerStream.toFixed(2)} / stream)</div>
+                  </>
+                )}
               </div>
               <br />
 
+              {/* Share of each agent in a distributed run */}
+              {res.agents && res.agents.length > 0 && (
+                <div className="mb-4">
+                  <h4 className="text-[#ffffff] font-bold mb-2">Agents:</h4>
+                  <div className="grid grid-cols-[max-content_repeat(5,max-content)] gap-x-6 gap-y-1 pl-4">
+                    <div className="text-[#6b7280]">Agent</div>
+                    <div className="text-[#6b7280] text-right">Count</div>
+                    <div className="text-[#6b7280] text-right">Requests/sec</div>
+                    <div className="text-[#6b7280] text-right">Average</div>
+                    <div className="text-[#6b7280] text-right">p99</div>
+                    <div className="text-[#6b7280] text-right">Errors</div>
+                    {res.agents.map((agent, i) => (
+                      <React.Fragment key={i}>
+                        <div className="truncate max-w-[240px]" title={agent.url}>{agent.url}</div>
+                        {agent.error ? (
+                          <div className="col-span-5 text-[#f87171] truncate" title={agent.error}>Failed: {agent.error}</div>
+                        ) : (
+                          <>
+                            <div className="text-right">{agent.count}</div>
+                            <div className="text-right">{agent.rps.toFixed(2)}</div>
+                            <div className="text-right">{(agent.average / 1000000).toFixed(2)} ms</div>
+                            <div className="text-right">{(agent.p99 / 1000000).toFixed(2)} ms</div>
+                            <div className={`text-right ${agent.errors > 0 ? 'text-[#f87171]' : ''}`}>{agent.errors}</div>
+                          </>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {res.timeSeries &&<TimeSeriesCharts series={res.timeSeries} />}
+
               {/* Histogram Section */}
               {res.histogram && res.histogram.length > 0 && (
                 <div className="mb-4">
@@ -155,6 +346,24 @@ export const ResultsDisplay: React.FC<ResultsProps> = ({ results }) => {
                 </div>
               </div>
 
+              {/* Failed calls sampled across the run */}
+              {res.errorSamples && res.errorSamples.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="text-[#ffffff] font-bold mb-2">
+                    Error samples <span className="text-[#6b7280] font-normal">({res.errorSamples.length} of {res.count - (res.statusCodeDistribution?.OK ?? 0)} failed calls)</span>:
+                  </h4>
+                  <div className="max-h-48 overflow-y-auto pl-4 space-y-1">
+                    {[...res.errorSamples].sort((a, b) => (a.offset ?? 0) - (b.offset ?? 0)).map((sample, i) => (
+                      <div key={i} className="flex gap-3">
+                        <div className="w-[70px] text-right text-[#6b7280]">{((sample.offset ?? 0) / 1e9).toFixed(3)}s</div>
+                        <div className="text-[#f87171]">[{sample.status}]</div>
+                        <div className="truncate" title={sample.error}>{sample.error}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
             </div>
           </div>
         ))}
@@ -0,0 +1,119 @@
+import React from 'react';
+import type { TimeSeries } from '../app/lib/timeSeries';
+
+interface ChartLine {
+  label: string;
+  color: string;
+  values: (number | null)[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 120;
+
+const formatSeconds = (s: number) => (s >= 60 ? `${Math.floor(s / 60)}m${Math.round(s % 60)}s` : `${Number(s.toFixed(1))}s`);
+
+// Lines over the run's time axis; gaps where a bucket has no value
+const LineChart: React.FC<{
+  title: string;
+  times: number[];
+  end: number;
+  lines: ChartLine[];
+  format: (value: number) => string;
+}> = ({ title, times, end, lines, format }) => {
+  const peak = Math.max(0, ...lines.flatMap(line => line.values.filter((v): v is number => v !== null)));
+  const top = peak > 0 ? peak * 1.1 : 1;
+  const x = (t: number) => (end > 0 ? (t / end) * WIDTH : 0);
+  const y = (v: number) => HEIGHT - (v / top) * HEIGHT;
+
+  // One path per run of consecutive values
+  const path = (values: (number | null)[]) => {
+    let d = '';
+    let pen = false;
+    values.forEach((v, i) => {
+      if (v === null) {
+        pen = false;
+        return;
+      }
+      d += `${pen ? 'L' : 'M'}${x(times[i]).toFixed(1)},${y(v).toFixed(1)}`;
+      pen = true;
+    });
+    return d;
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-[#d1d5db]">{title}</span>
+        <span className="flex gap-3">
+          {lines.length > 1 && lines.map(line => <span key={line.label} style={{ color: line.color }}>■ {line.label}</span>)}
+        </span>
+      </div>
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-28 bg-[#111111] rounded">
+          <line x1={0} x2={WIDTH} y1={y(peak)} y2={y(peak)} stroke="#374151" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+          {lines.map(line => (
+            <path key={line.label} d={path(line.values)} fill="none" stroke={line.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          ))}
+        </svg>
+        <span className="absolute top-0.5 left-1 text-[10px] text-[#6b7280]">{format(peak)}</span>
+      </div>
+      <div className="flex justify-between text-[10px] text-[#6b7280] mt-0.5">
+        <span>0s</span>
+        <span>{formatSeconds(end / 2)}</span>
+        <span>{formatSeconds(end)}</span>
+      </div>
+    </div>
+  );
+};
+
+// p50/p95/p99 latency, achieved RPS, calls in flight and errors per second
+// over the run, to spot warmup, pauses and throttling the totals hide
+export const TimeSeriesCharts: React.FC<{ series: TimeSeries }> = ({ series }) => {
+  const { points, interval } = series;
+  if (points.length < 2) return null;
+
+  // Values are plotted at the middle of their bucket
+  const times = points.map(p => p.time + interval / 2);
+  const end = points[points.length - 1].time + interval;
+  const ms = (ns: number | null) => (ns === null ? null : ns / 1e6);
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-[#ffffff] font-bold mb-2">Over time <span className="text-[#6b7280] font-normal">({formatSeconds(interval)} buckets)</span>:</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <LineChart
+          title="Latency (ms)"
+          times={times}
+          end={end}
+          lines={[
+            { label: 'p50', color: '#60a5fa', values: points.map(p => ms(p.p50)) },
+            { label: 'p95', color: '#f59e0b', values: points.map(p => ms(p.p95)) },
+            { label: 'p99', color: '#f87171', values: points.map(p => ms(p.p99)) },
+          ]}
+          format={(v) => `${v.toFixed(2)} ms`}
+        />
+        <LineChart
+          title="Requests/sec"
+          times={times}
+          end={end}
+          lines={[{ label: 'rps', color: '#4ade80', values: points.map(p => p.rps) }]}
+          format={(v) => v.toFixed(1)}
+        />
+        <LineChart
+          title="In flight"
+          times={times}
+          end={end}
+          lines={[{ label: 'in flight', color: '#a78bfa', values: points.map(p => p.inFlight) }]}
+          format={(v) => v.toFixed(1)}
+        />
+        <LineChart
+          title="Errors/sec"
+          times={times}
+          end={end}
+          lines={[{ label: 'errors', color: '#f87171', values: points.map(p => p.errors) }]}
+          format={(v) => v.toFixed(1)}
+        />
+      </div>
+    </div>
+  );
+};
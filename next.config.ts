@@ -2,6 +2,10 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   output: "standalone",
+  // Loaded at runtime rather than bundled, so the standalone output ships the
+  // package and its dependencies: the call worker threads
+  // (app/lib/callWorker.mjs) import it from node_modules
+  serverExternalPackages: ["@grpc/grpc-js"],
 };
 
 export default nextConfig;
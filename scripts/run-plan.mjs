@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+// Run a test plan against a running ghz-nds server and write its reports.
+//
+//   node scripts/run-plan.mjs plan.json [--url http://localhost:3000] [--out reports] [--formats json,junit,html]
+//
+// Exit codes: 0 every step passed, 1 a step failed, 2 the plan could not be run.
+
+import fs from 'fs/promises';
+import path from 'path';
+
+const USAGE = 'Usage: node scripts/run-plan.mjs <plan.json> [--url <server>] [--out <dir>] [--formats <list>]';
+
+function parseArgs(argv) {
+  const args = { url: process.env.GHZ_NDS_URL || 'http://localhost:3000', out: 'reports', formats: 'json,junit' };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const flag = /^--(url|out|formats)(?:=(.*))?$/.exec(arg);
+    if (flag) {
+      const value = flag[2] ?? argv[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value`);
+      args[flag[1]] = value;
+    } else if (arg === '-h' || arg === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (!args.plan) {
+      args.plan = arg;
+    } else {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+  if (!args.plan) throw new Error(USAGE);
+  return args;
+}
+
+const ms = (ns) => `${(ns / 1e6).toFixed(2)} ms`;
+
+function describeStep({ step, passed, failures, report }) {
+  const numbers = report
+    ? ` ${report.count} calls, ${report.rps.toFixed(1)} rps, avg ${ms(report.average)}, `
+      + `p95 ${ms(report.latencyDistribution.find(l => l.percentage === 95)?.latency ?? 0)}`
+    : '';
+  const reasons = failures.length > 0 ? `\n    - ${failures.join('\n    - ')}` : '';
+  return `Step ${step}: ${passed ? 'PASS' : 'FAIL'}${numbers}${reasons}`;
+}
+
+// Read the NDJSON response line by line
+async function readEvents(response, onEvent) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onEvent(JSON.parse(line));
+    }
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const plan = JSON.parse(await fs.readFile(args.plan, 'utf8'));
+
+  const url = `${args.url.replace(/\/$/, '')}/api/plans/run?formats=${encodeURIComponent(args.formats)}`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/x-ndjson' },
+    body: JSON.stringify(plan),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const missing = body.missing ? ` (${body.missing.join(', ')})` : '';
+    throw new Error(`${body.error || `HTTP ${response.status}`}${missing}`);
+  }
+
+  console.log(`Running ${plan.name ? `"${plan.name}"` : args.plan}: ${plan.steps.length} step(s) against ${plan.target}`);
+  let result;
+  let lastProgress = 0;
+  await readEvents(response, (event) => {
+    if (event.type === 'progress') {
+      // One progress line every 5 seconds is enough for CI logs
+      if (Date.now() - lastProgress < 5000) return;
+      lastProgress = Date.now();
+      console.log(`  step ${event.step}: ${event.completed}${event.total ? `/${event.total}` : ''} calls, `
+        + `${event.currentRps.toFixed(1)} rps, ${event.errors} errors`);
+    } else if (event.type === 'step') {
+      console.log(describeStep(event.result));
+    } else if (event.type === 'done') {
+      result = event.result;
+    } else if (event.type === 'error') {
+      throw new Error(event.error);
+    }
+  });
+  if (!result) throw new Error('The server ended the run without a result');
+
+  await fs.mkdir(args.out, { recursive: true });
+  const { files, ...summary } = result;
+  for (const [name, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(args.out, name), content);
+  }
+  await fs.writeFile(path.join(args.out, 'plan-result.json'), JSON.stringify(summary, null, 2));
+  console.log(`Reports written to ${args.out}: ${[...Object.keys(files), 'plan-result.json'].join(', ')}`);
+
+  console.log(result.passed ? 'Plan passed' : 'Plan FAILED');
+  return result.passed ? 0 : 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(`run-plan: ${error.message}`);
+    process.exit(2);
+  },
+);